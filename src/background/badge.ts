@@ -0,0 +1,24 @@
+/**
+ * Badge Management
+ * Extension icon badge showing what Colder is doing
+ */
+
+export type BadgeStatus = 'ready' | 'working' | 'downloading' | 'error';
+
+/**
+ * Update extension badge to show status
+ * @param progress Download progress (0-1), shown as a percentage while downloading
+ */
+export async function updateBadge(status: BadgeStatus, progress?: number): Promise<void> {
+  const badges = {
+    ready: { text: '', color: '#4CAF50' },
+    working: { text: '...', color: '#2196F3' },
+    downloading: { text: `${Math.round((progress ?? 0) * 100)}%`, color: '#2196F3' },
+    error: { text: '!', color: '#F44336' }
+  };
+
+  const badge = badges[status];
+
+  await chrome.action.setBadgeText({ text: badge.text });
+  await chrome.action.setBadgeBackgroundColor({ color: badge.color });
+}
@@ -6,6 +6,12 @@
 import { setupMessageListener } from './message-handler';
 import { logError } from '../utils/error-handlers';
 import { storage } from '../services/storage';
+import { updateBadge } from './badge';
+import { scheduleReminders, setupReminders } from './reminders';
+import { markSchemaCurrent, runMigrations } from '../services/migrations';
+import { isSettingsSyncChange } from '../services/settings-sync';
+
+export { updateBadge } from './badge';
 
 // Export to prevent "isolatedModules" error
 export const startTime = Date.now();
@@ -33,12 +39,25 @@ chrome.runtime.onInstalled.addListener(async (details) => {
 
     // Initialize onboarding status for first-time users
     await storage.resetOnboarding();
+    await markSchemaCurrent();
     console.log('[Colder] ✓ Onboarding status initialized');
   }
 
   if (details.reason === 'update') {
     console.log('[Colder] Updated from version:', details.previousVersion);
     // Could optionally show "What's New" for updates
+
+    try {
+      const applied = await runMigrations();
+      if (applied.length > 0) {
+        console.log('[Colder] ✓ Storage migrated to schema version', applied[applied.length - 1]);
+      }
+    } catch (error) {
+      logError(error instanceof Error ? error : new Error(String(error)), {
+        task: 'runMigrations',
+        previousVersion: details.previousVersion
+      });
+    }
   }
 });
 
@@ -108,6 +127,36 @@ try {
   });
 }
 
+// --------------------------------------------------------------------------
+// Follow-up Reminders
+// --------------------------------------------------------------------------
+
+try {
+  setupReminders();
+  // Alarms survive restarts, but sequences may have changed while the worker was stopped
+  scheduleReminders().catch(console.error);
+  console.log('[Colder] ✓ Follow-up reminders ready');
+} catch (error) {
+  console.error('[Colder] ❌ Failed to setup reminders:', error);
+  logError(error instanceof Error ? error : new Error(String(error)), {
+    task: 'setupReminders'
+  });
+}
+
+// --------------------------------------------------------------------------
+// Settings Sync
+// --------------------------------------------------------------------------
+
+// Take settings changed on another device even while the side panel is closed
+chrome.storage.onChanged.addListener((changes, areaName) => {
+  if (areaName !== 'sync' || !isSettingsSyncChange(changes)) return;
+  storage.syncSettings().catch((error) => {
+    logError(error instanceof Error ? error : new Error(String(error)), {
+      task: 'syncSettings'
+    });
+  });
+});
+
 // --------------------------------------------------------------------------
 // Side Panel Action
 // --------------------------------------------------------------------------
@@ -135,26 +184,6 @@ chrome.runtime.onInstalled.addListener(() => {
   // e.g., "Analyze LinkedIn Profile", "Generate Message"
 });
 
-// --------------------------------------------------------------------------
-// Badge Management
-// --------------------------------------------------------------------------
-
-/**
- * Update extension badge to show status
- */
-export async function updateBadge(status: 'ready' | 'working' | 'error'): Promise<void> {
-  const badges = {
-    ready: { text: '', color: '#4CAF50' },
-    working: { text: '...', color: '#2196F3' },
-    error: { text: '!', color: '#F44336' }
-  };
-
-  const badge = badges[status];
-
-  await chrome.action.setBadgeText({ text: badge.text });
-  await chrome.action.setBadgeBackgroundColor({ color: badge.color });
-}
-
 // --------------------------------------------------------------------------
 // Error Handling
 // --------------------------------------------------------------------------
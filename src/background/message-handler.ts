@@ -3,6 +3,9 @@
  * Simplified handler for backend-based architecture
  */
 
+import { updateBadge } from './badge';
+import type { ModelDownloadState } from '../services/chrome-ai';
+
 // Message types
 export interface Message {
   type: string;
@@ -16,8 +19,24 @@ export interface MessageResponse<T = any> {
 }
 
 /**
- * Simple message handler that just responds to PING messages
- * All other functionality is handled by the backend via API calls from the sidepanel
+ * Reflect the on-device model download in the extension badge
+ */
+async function handleModelDownloadProgress(state: ModelDownloadState): Promise<void> {
+  switch (state.status) {
+    case 'downloading':
+      await updateBadge('downloading', state.progress);
+      break;
+    case 'error':
+      await updateBadge('error');
+      break;
+    default:
+      await updateBadge('ready');
+  }
+}
+
+/**
+ * Message handler for PING and status updates from the side panel
+ * All AI work is handled by the sidepanel itself
  */
 export function setupMessageListener(): void {
   chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
@@ -27,7 +46,14 @@ export function setupMessageListener(): void {
       return true;
     }
 
-    // All other messages are not handled by background (handled by sidepanel -> backend)
+    if (message.type === 'MODEL_DOWNLOAD_PROGRESS') {
+      handleModelDownloadProgress(message.payload)
+        .then(() => sendResponse({ success: true }))
+        .catch((error) => sendResponse({ success: false, error: error.message }));
+      return true;
+    }
+
+    // All other messages are not handled by background (handled by sidepanel)
     sendResponse({ success: false, error: 'Unknown message type' });
     return true;
   });
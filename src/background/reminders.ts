@@ -0,0 +1,173 @@
+/**
+ * Follow-up Reminders
+ * One chrome.alarms alarm per contact whose next sequence step is pending.
+ * When it fires, a notification offers to open the contact with the follow-up written.
+ */
+
+import { storage } from '../services/storage';
+import { findContactDoNotContactMatch } from '../services/do-not-contact';
+import {
+  DEFAULT_SEQUENCE_TEMPLATE,
+  STEP_KIND_LABELS,
+  dismissReminder,
+  getNextStep,
+  getReminderTime,
+  snoozeReminder,
+  type ContactSequence
+} from '../services/sequences';
+import { showNotification } from '../utils/error-handlers';
+
+// Alarm and notification names are the prefix plus the contact's profile URL
+const REMINDER_PREFIX = 'colder-follow-up:';
+const SNOOZE_DAYS = 1;
+const BUTTONS = { snooze: 0, dismiss: 1 };
+
+// The last focused browser window. sidePanel.open only works during the notification click's
+// user gesture, which ends at the first await, so the window has to be known beforehand.
+let focusedWindowId: number | undefined;
+
+const toProfileUrl = (name: string): string | null =>
+  name.startsWith(REMINDER_PREFIX) ? name.slice(REMINDER_PREFIX.length) : null;
+
+async function getTemplate() {
+  const settings = await storage.getSettings();
+  return settings.sequenceTemplate || DEFAULT_SEQUENCE_TEMPLATE;
+}
+
+/**
+ * Profile URLs of contacts in a sequence who are now on the do-not-contact list
+ */
+async function getBlockedProfileUrls(sequences: ContactSequence[]): Promise<Set<string>> {
+  const entries = await storage.getDoNotContactList();
+  const blocked = new Set<string>();
+  if (entries.length === 0) return blocked;
+
+  for (const progress of sequences) {
+    const contact = await storage.getContactByProfileUrl(progress.profileUrl);
+    const snapshot = contact?.snapshot || { name: progress.profileName };
+    if (findContactDoNotContactMatch(entries, progress.profileUrl, snapshot)) blocked.add(progress.profileUrl);
+  }
+  return blocked;
+}
+
+/**
+ * Bring every contact's alarm in line with their sequence progress.
+ * Alarms that are already due fire straight away.
+ */
+export async function scheduleReminders(): Promise<void> {
+  const [template, sequences, alarms] = await Promise.all([
+    getTemplate(),
+    storage.getContactSequences(),
+    chrome.alarms.getAll()
+  ]);
+
+  const blocked = await getBlockedProfileUrls(Object.values(sequences));
+  const wanted = new Map<string, number>();
+  for (const progress of Object.values(sequences)) {
+    if (blocked.has(progress.profileUrl)) continue;
+    const when = getReminderTime(template, progress);
+    if (when) wanted.set(`${REMINDER_PREFIX}${progress.profileUrl}`, when.getTime());
+  }
+
+  for (const alarm of alarms) {
+    if (toProfileUrl(alarm.name) !== null && !wanted.has(alarm.name)) {
+      await chrome.alarms.clear(alarm.name);
+    }
+  }
+
+  for (const [name, when] of wanted) {
+    const existing = alarms.find(alarm => alarm.name === name);
+    if (existing?.scheduledTime === when) continue;
+    await chrome.alarms.create(name, { when: Math.max(when, Date.now()) });
+  }
+}
+
+/**
+ * Show the reminder for a contact if their next step is still pending and they
+ * haven't been added to the do-not-contact list since it was scheduled
+ */
+export async function handleReminderAlarm(alarm: chrome.alarms.Alarm): Promise<void> {
+  const profileUrl = toProfileUrl(alarm.name);
+  if (!profileUrl) return;
+
+  const [template, progress] = await Promise.all([getTemplate(), storage.getContactSequence(profileUrl)]);
+  if (!progress || !getReminderTime(template, progress)) return;
+  if ((await getBlockedProfileUrls([progress])).size > 0) return;
+
+  const nextStep = getNextStep(template, progress)!;
+  await showNotification(
+    alarm.name,
+    `${STEP_KIND_LABELS[nextStep.kind]} for ${progress.profileName} is due. Click to write it now.`,
+    {
+      title: 'Time to follow up',
+      buttons: [`Snooze ${SNOOZE_DAYS} day`, 'Dismiss'],
+      requireInteraction: true
+    }
+  );
+}
+
+/**
+ * Open the contact's profile with the side panel, which writes the follow-up on arrival
+ */
+export async function handleReminderClicked(notificationId: string): Promise<void> {
+  const profileUrl = toProfileUrl(notificationId);
+  if (!profileUrl) return;
+
+  // Before anything is awaited, while the click still counts as a user gesture
+  const windowId = focusedWindowId ?? chrome.windows.WINDOW_ID_CURRENT;
+  const panelOpened = chrome.sidePanel.open({ windowId }).catch(error => {
+    console.error('[Colder] Failed to open side panel:', error);
+  });
+
+  await chrome.notifications.clear(notificationId);
+  await storage.setPendingFollowUp(profileUrl);
+
+  const [existing] = await chrome.tabs.query({ url: `${profileUrl}*`, windowId });
+  if (existing?.id) {
+    await chrome.tabs.update(existing.id, { active: true });
+  } else {
+    await chrome.tabs.create({ url: profileUrl, windowId });
+  }
+  await panelOpened;
+}
+
+export async function handleReminderButton(notificationId: string, buttonIndex: number): Promise<void> {
+  const profileUrl = toProfileUrl(notificationId);
+  if (!profileUrl) return;
+
+  await chrome.notifications.clear(notificationId);
+  const progress = await storage.getContactSequence(profileUrl);
+  if (!progress) return;
+
+  // Saving the sequence reschedules its alarm through onSequencesChange
+  if (buttonIndex === BUTTONS.snooze) {
+    await storage.saveContactSequence(snoozeReminder(progress, SNOOZE_DAYS));
+  } else if (buttonIndex === BUTTONS.dismiss) {
+    await storage.saveContactSequence(dismissReminder(await getTemplate(), progress));
+  }
+}
+
+/**
+ * Wire the reminder handlers to Chrome's window, alarm, notification and storage events
+ */
+export function setupReminders(): void {
+  chrome.windows.getLastFocused().then(
+    window => (focusedWindowId ??= window.id),
+    error => console.error('[Colder] Failed to find the focused window:', error)
+  );
+  chrome.windows.onFocusChanged.addListener(windowId => {
+    if (windowId !== chrome.windows.WINDOW_ID_NONE) focusedWindowId = windowId;
+  });
+  chrome.alarms.onAlarm.addListener(alarm => {
+    handleReminderAlarm(alarm).catch(error => console.error('[Colder] Reminder failed:', error));
+  });
+  chrome.notifications.onClicked.addListener(id => {
+    handleReminderClicked(id).catch(error => console.error('[Colder] Failed to open reminder:', error));
+  });
+  chrome.notifications.onButtonClicked.addListener((id, buttonIndex) => {
+    handleReminderButton(id, buttonIndex).catch(error => console.error('[Colder] Reminder action failed:', error));
+  });
+  storage.onSequencesChange(() => {
+    scheduleReminders().catch(error => console.error('[Colder] Failed to schedule reminders:', error));
+  });
+}
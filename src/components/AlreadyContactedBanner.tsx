@@ -0,0 +1,42 @@
+import { AlertCircle, Mail } from "lucide-react";
+import { Button } from "./ui/button";
+
+interface AlreadyContactedBannerProps {
+  name: string;
+  contactedAt: string; // ISO string of the last outreach
+  purpose?: string;
+  body?: string; // Missing when the message was cleared from history but the contact remains
+  onFollowUp: () => void;
+  disabled?: boolean;
+}
+
+export function AlreadyContactedBanner({
+  name,
+  contactedAt,
+  purpose,
+  body,
+  onFollowUp,
+  disabled,
+}: AlreadyContactedBannerProps) {
+  return (
+    <div className="border border-amber-200 bg-amber-50 rounded-lg p-4 space-y-3 text-xs">
+      <div className="flex items-start gap-2">
+        <AlertCircle className="h-4 w-4 text-amber-600 flex-shrink-0 mt-0.5" />
+        <div className="space-y-1">
+          <p className="font-medium text-amber-900">You have already contacted {name}</p>
+          <p className="text-amber-800">
+            Last outreach {new Date(contactedAt).toLocaleDateString()}
+            {purpose && ` · ${purpose}`}
+          </p>
+        </div>
+      </div>
+      {body && (
+        <p className="text-gray-700 whitespace-pre-wrap line-clamp-3 border-l-2 border-amber-200 pl-2">{body}</p>
+      )}
+      <Button onClick={onFollowUp} disabled={disabled} variant="outline" size="sm" className="w-full bg-white">
+        <Mail className="mr-2 h-4 w-4" />
+        Write a Follow-up Instead
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,174 @@
+import { useRef, useState } from "react";
+import { Download, Upload } from "lucide-react";
+import { Button } from "./ui/button";
+import {
+  parseBackupCsv,
+  parseBackupJson,
+  type ImportMode,
+  type ImportPreview,
+  type ImportResult,
+} from "../services/backup";
+
+export type ExportKind = "json" | "messages_csv" | "contacts_csv";
+
+interface BackupSettingsProps {
+  onExport: (kind: ExportKind) => Promise<string>; // The file's contents
+  onImport: (preview: ImportPreview, mode: ImportMode) => Promise<ImportResult>;
+}
+
+const EXPORTS: { kind: ExportKind; label: string; extension: string; type: string }[] = [
+  { kind: "json", label: "Backup", extension: "json", type: "application/json" },
+  { kind: "messages_csv", label: "Messages CSV", extension: "csv", type: "text/csv" },
+  { kind: "contacts_csv", label: "Contacts CSV", extension: "csv", type: "text/csv" },
+];
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? "" : "s"}`;
+
+function downloadFile(name: string, content: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = name;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Export a JSON backup or CSVs, and import either after previewing what the file holds
+ */
+export function BackupSettings({ onExport, onImport }: BackupSettingsProps) {
+  const [preview, setPreview] = useState<(ImportPreview & { fileName: string }) | null>(null);
+  const [status, setStatus] = useState<{ text: string; isError: boolean } | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const handleExport = async (kind: ExportKind) => {
+    const { extension, type } = EXPORTS.find((entry) => entry.kind === kind)!;
+    const suffix = kind === "json" ? "backup" : kind.replace("_csv", "");
+    try {
+      const content = await onExport(kind);
+      downloadFile(`colder-${suffix}-${new Date().toISOString().slice(0, 10)}.${extension}`, content, type);
+      setStatus(null);
+    } catch (e: any) {
+      setStatus({ text: e.message, isError: true });
+    }
+  };
+
+  const handleFile = async (file: File) => {
+    setPreview(null);
+    try {
+      const text = await file.text();
+      const isJson = file.name.toLowerCase().endsWith(".json") || text.trimStart().startsWith("{");
+      setPreview({ ...(isJson ? parseBackupJson(text) : parseBackupCsv(text)), fileName: file.name });
+      setStatus(null);
+    } catch (e: any) {
+      setStatus({ text: e.message, isError: true });
+    }
+  };
+
+  const handleImport = async (mode: ImportMode) => {
+    if (!preview) return;
+    if (mode === "replace" && !confirm("This will delete your current history and contacts first. Continue?")) {
+      return;
+    }
+    setIsBusy(true);
+    try {
+      const result = await onImport(preview, mode);
+      const parts = [`Imported ${plural(result.messagesAdded, "message")}`];
+      if (result.messagesSkipped) parts.push(`${result.messagesSkipped} already saved`);
+      parts.push(plural(result.contactsAdded, "new contact"));
+      if (result.contactsUpdated) parts.push(`${result.contactsUpdated} updated`);
+      setStatus({ text: parts.join(", "), isError: false });
+      setPreview(null);
+    } catch (e: any) {
+      setStatus({ text: e.message, isError: true });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const contents = preview && [
+    plural(preview.messages.length, "message"),
+    plural(preview.contacts.length, "contact"),
+    ...(preview.doNotContact?.length
+      ? [`${preview.doNotContact.length} do-not-contact ${preview.doNotContact.length === 1 ? "entry" : "entries"}`]
+      : []),
+    ...(preview.settings ? ["settings"] : []),
+  ];
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-3 gap-2">
+        {EXPORTS.map(({ kind, label }) => (
+          <Button key={kind} onClick={() => handleExport(kind)} variant="outline" size="sm" className="text-xs">
+            <Download className="mr-1 h-3 w-3" />
+            {label}
+          </Button>
+        ))}
+      </div>
+
+      <Button onClick={() => fileInput.current?.click()} variant="outline" size="sm" className="w-full">
+        <Upload className="mr-2 h-3 w-3" />
+        Import Backup or CSV
+      </Button>
+      <input
+        ref={fileInput}
+        type="file"
+        accept=".json,application/json,.csv,text/csv"
+        className="hidden"
+        aria-label="Import backup file"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          e.target.value = "";
+          if (file) handleFile(file);
+        }}
+      />
+
+      {preview && contents && (
+        <div className="rounded-md border border-gray-200 p-3 space-y-2 text-xs">
+          <p className="font-medium text-gray-900 truncate">{preview.fileName}</p>
+          <p className="text-gray-700">Contains {contents.join(", ")}</p>
+          {preview.rejected.length > 0 && (
+            <div className="text-red-600">
+              <p>{plural(preview.rejected.length, "record")} will be skipped:</p>
+              <ul className="list-disc pl-4">
+                {preview.rejected.slice(0, 3).map((error) => (
+                  <li key={error.field}>{error.message}</li>
+                ))}
+                {preview.rejected.length > 3 && <li>and {preview.rejected.length - 3} more</li>}
+              </ul>
+            </div>
+          )}
+          <p className="text-gray-500">
+            {preview.source === "json"
+              ? "Merge adds what's new and keeps everything saved here. Replace swaps your history, contacts and settings for the backup's."
+              : "New messages and contacts are added; saved contacts keep their stage and notes."}
+          </p>
+          <div className="flex gap-2">
+            <Button onClick={() => handleImport("merge")} disabled={isBusy} size="sm">
+              Merge
+            </Button>
+            {preview.source === "json" && (
+              <Button
+                onClick={() => handleImport("replace")}
+                disabled={isBusy}
+                variant="outline"
+                size="sm"
+                className="text-red-600 hover:text-red-700"
+              >
+                Replace
+              </Button>
+            )}
+            <Button onClick={() => setPreview(null)} disabled={isBusy} variant="ghost" size="sm">
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {status && (
+        <p className={`text-xs ${status.isError ? "text-red-600" : "text-gray-600"}`}>{status.text}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,28 @@
+import { cn } from "../lib/utils";
+
+interface CharacterCounterProps {
+  count: number;
+  limit: number;
+  label: string; // What the limit belongs to, e.g. "Connection note"
+}
+
+export function CharacterCounter({ count, limit, label }: CharacterCounterProps) {
+  const over = count > limit;
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between text-xs">
+        <span className="text-gray-500">{label} limit</span>
+        <span className={cn("font-medium tabular-nums", over ? "text-red-600" : "text-gray-700")}>
+          {count} / {limit} characters
+        </span>
+      </div>
+      <div className="h-1 w-full rounded-full bg-gray-100 overflow-hidden">
+        <div
+          className={cn("h-full transition-all", over ? "bg-red-500" : "bg-colder-ice")}
+          style={{ width: `${Math.min(100, (count / limit) * 100)}%` }}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+import { Briefcase, GraduationCap, MapPin, Tag, Wrench } from "lucide-react";
+import type { CommonGround } from "../types";
+
+interface CommonGroundListProps {
+  matches: CommonGround[];
+}
+
+const KIND_ICONS = {
+  employer: Briefcase,
+  school: GraduationCap,
+  location: MapPin,
+  industry: Tag,
+  skill: Wrench,
+};
+
+export function CommonGroundList({ matches }: CommonGroundListProps) {
+  if (matches.length === 0) return null;
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 space-y-2">
+      <p className="text-xs font-medium text-gray-900">Common Ground</p>
+      <ul className="space-y-1 text-xs text-gray-600">
+        {matches.map((match) => {
+          const Icon = KIND_ICONS[match.kind];
+          return (
+            <li key={`${match.kind}:${match.label}`} className="flex items-center gap-1.5">
+              <Icon className="h-3 w-3 flex-shrink-0 text-gray-400" />
+              {match.detail}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+import { ExternalLink } from "lucide-react";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { PIPELINE_STAGES, parseTags, type Contact, type PipelineStage } from "../services/contacts";
+import type { StoredMessage } from "../types";
+
+interface ContactCardProps {
+  contact: Contact;
+  latestMessage?: StoredMessage;
+  onUpdate: (patch: Partial<Pick<Contact, "stage" | "tags" | "notes">>) => void;
+  onViewMessage: (message: StoredMessage) => void;
+}
+
+const STAGE_STYLES: Record<PipelineStage, string> = {
+  drafted: "bg-gray-100 text-gray-700",
+  sent: "bg-colder-frost text-colder-ice-deep",
+  replied: "bg-blue-50 text-blue-700",
+  meeting: "bg-green-50 text-green-700",
+  closed: "bg-green-100 text-green-800",
+  no_response: "bg-gray-100 text-gray-500",
+};
+
+/**
+ * A contact with their stage, tags and notes. Tags and notes save when they lose focus.
+ */
+export function ContactCard({ contact, latestMessage: latest, onUpdate, onViewMessage }: ContactCardProps) {
+  const { snapshot } = contact;
+  const messageCount = contact.messageIds.length;
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 space-y-3 hover:border-gray-300 transition-colors">
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <a
+            href={contact.profileUrl}
+            target="_blank"
+            rel="noreferrer"
+            className="flex items-center gap-1 font-medium text-sm text-gray-900 hover:underline"
+          >
+            {snapshot.name}
+            <ExternalLink className="h-3 w-3 text-gray-400" />
+          </a>
+          {(snapshot.jobTitle || snapshot.company) && (
+            <p className="text-xs text-gray-600 truncate">
+              {[snapshot.jobTitle, snapshot.company].filter(Boolean).join(" · ")}
+            </p>
+          )}
+          <p className="text-xs text-gray-500">
+            {messageCount} {messageCount === 1 ? "message" : "messages"}
+            {latest && ` · last ${new Date(latest.generatedAt).toLocaleDateString()}`}
+          </p>
+        </div>
+        <select
+          value={contact.stage}
+          onChange={(e) => onUpdate({ stage: e.target.value as PipelineStage })}
+          className={`h-7 rounded-md border-0 px-2 text-xs font-medium ${STAGE_STYLES[contact.stage]}`}
+          aria-label="Pipeline stage"
+        >
+          {PIPELINE_STAGES.map((stage) => (
+            <option key={stage.id} value={stage.id}>
+              {stage.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <Input
+        defaultValue={contact.tags.join(", ")}
+        onBlur={(e) => onUpdate({ tags: parseTags(e.target.value) })}
+        placeholder="Tags, comma separated"
+        className="h-8 text-xs"
+      />
+      <textarea
+        defaultValue={contact.notes}
+        onBlur={(e) => onUpdate({ notes: e.target.value })}
+        placeholder="Notes"
+        rows={2}
+        className="flex w-full rounded-md border border-gray-200 bg-transparent px-3 py-2 text-xs shadow-sm placeholder:text-gray-500 focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-gray-950"
+      />
+
+      {latest && (
+        <div className="flex items-start justify-between gap-2">
+          <p className="text-xs text-gray-600 line-clamp-2">{latest.body}</p>
+          <Button onClick={() => onViewMessage(latest)} size="sm" variant="outline">
+            View
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+import { Ban } from "lucide-react";
+import { Button } from "./ui/button";
+import { describeDoNotContactEntry, type DoNotContactMatch } from "../services/do-not-contact";
+
+interface DoNotContactBannerProps {
+  name: string;
+  match: DoNotContactMatch;
+  onOverride: () => void;
+  disabled?: boolean;
+}
+
+/**
+ * Shown instead of a draft when the profile is on the do-not-contact list
+ */
+export function DoNotContactBanner({ name, match, onOverride, disabled }: DoNotContactBannerProps) {
+  const { entry } = match;
+
+  return (
+    <div className="border border-red-200 bg-red-50 rounded-lg p-4 space-y-3 text-xs">
+      <div className="flex items-start gap-2">
+        <Ban className="h-4 w-4 text-red-600 flex-shrink-0 mt-0.5" />
+        <div className="space-y-1">
+          <p className="font-medium text-red-900">{name} is on your do-not-contact list</p>
+          <p className="text-red-800">
+            Matched by {match.description} ({describeDoNotContactEntry(entry)})
+          </p>
+          {entry.reason && <p className="text-red-800">Reason: {entry.reason}</p>}
+        </div>
+      </div>
+      <Button onClick={onOverride} disabled={disabled} variant="outline" size="sm" className="w-full bg-white">
+        Generate Anyway
+      </Button>
+    </div>
+  );
+}
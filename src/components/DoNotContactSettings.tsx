@@ -0,0 +1,173 @@
+import { useRef, useState } from "react";
+import { Trash2, Upload } from "lucide-react";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import {
+  DO_NOT_CONTACT_KIND_LABELS,
+  describeDoNotContactEntry,
+  parseDoNotContactCsv,
+  validateDoNotContactEntry,
+  type DoNotContactEntry,
+  type DoNotContactKind,
+  type NewDoNotContactEntry,
+} from "../services/do-not-contact";
+
+interface DoNotContactSettingsProps {
+  entries: DoNotContactEntry[];
+  onAdd: (entries: NewDoNotContactEntry[]) => Promise<{ added: number; duplicates: number }>;
+  onRemove: (entryId: string) => void;
+}
+
+const SELECT_CLASS =
+  "flex h-8 w-full rounded-md border border-gray-200 bg-white px-2 py-1 text-xs shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-gray-950";
+
+const PLACEHOLDERS: Record<DoNotContactKind, string> = {
+  profile_url: "https://www.linkedin.com/in/...",
+  name_company: "Full name",
+  company_domain: "acme.com or *.acme.com",
+};
+
+/**
+ * Manage the do-not-contact list: add entries one by one or import them from CSV
+ */
+export function DoNotContactSettings({ entries, onAdd, onRemove }: DoNotContactSettingsProps) {
+  const [kind, setKind] = useState<DoNotContactKind>("profile_url");
+  const [value, setValue] = useState("");
+  const [company, setCompany] = useState("");
+  const [reason, setReason] = useState("");
+  const [status, setStatus] = useState<{ text: string; isError: boolean } | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const handleAdd = async () => {
+    const entry: NewDoNotContactEntry = {
+      kind,
+      reason: reason.trim() || undefined,
+      ...(kind === "profile_url" && { profileUrl: value.trim() }),
+      ...(kind === "name_company" && { name: value.trim(), company: company.trim() || undefined }),
+      ...(kind === "company_domain" && { domainPattern: value.trim() }),
+    };
+    const problem = validateDoNotContactEntry(entry);
+    if (problem) {
+      setStatus({ text: problem, isError: true });
+      return;
+    }
+
+    const { added } = await onAdd([entry]);
+    setStatus(added ? null : { text: "Already on the list", isError: true });
+    setValue("");
+    setCompany("");
+    setReason("");
+  };
+
+  const handleImport = async (file: File) => {
+    const { entries: parsed, rejected } = parseDoNotContactCsv(await file.text());
+    const { added, duplicates } = parsed.length > 0 ? await onAdd(parsed) : { added: 0, duplicates: 0 };
+
+    const parts = [`Imported ${added} ${added === 1 ? "entry" : "entries"}`];
+    if (duplicates) parts.push(`${duplicates} already listed`);
+    if (rejected.length) {
+      const rows = rejected.slice(0, 3).map((row) => `row ${row.row}: ${row.reason}`);
+      parts.push(`${rejected.length} rejected (${rows.join("; ")}${rejected.length > 3 ? "; ..." : ""})`);
+    }
+    setStatus({ text: parts.join(", "), isError: rejected.length > 0 && added === 0 });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-[8.5rem_1fr] gap-2">
+        <select
+          value={kind}
+          onChange={(e) => {
+            setKind(e.target.value as DoNotContactKind);
+            setStatus(null);
+          }}
+          className={SELECT_CLASS}
+          aria-label="Match by"
+        >
+          {(Object.keys(DO_NOT_CONTACT_KIND_LABELS) as DoNotContactKind[]).map((id) => (
+            <option key={id} value={id}>
+              {DO_NOT_CONTACT_KIND_LABELS[id]}
+            </option>
+          ))}
+        </select>
+        <Input
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          placeholder={PLACEHOLDERS[kind]}
+          className="h-8 text-xs"
+          aria-label={DO_NOT_CONTACT_KIND_LABELS[kind]}
+        />
+      </div>
+      {kind === "name_company" && (
+        <Input
+          value={company}
+          onChange={(e) => setCompany(e.target.value)}
+          placeholder="Company (optional)"
+          className="h-8 text-xs"
+        />
+      )}
+      <div className="flex gap-2">
+        <Input
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          placeholder="Reason (optional)"
+          className="h-8 text-xs"
+        />
+        <Button onClick={handleAdd} disabled={!value.trim()} size="sm">
+          Add
+        </Button>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Button onClick={() => fileInput.current?.click()} variant="outline" size="sm">
+          <Upload className="mr-2 h-3 w-3" />
+          Import CSV
+        </Button>
+        <span className="text-xs text-gray-500">Columns: profile_url, name, company, domain, reason</span>
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".csv,text/csv"
+          className="hidden"
+          aria-label="Import do-not-contact CSV"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = "";
+            if (file) handleImport(file);
+          }}
+        />
+      </div>
+
+      {status && (
+        <p className={`text-xs ${status.isError ? "text-red-600" : "text-gray-600"}`}>{status.text}</p>
+      )}
+
+      {entries.length > 0 ? (
+        <ul className="divide-y divide-gray-100 rounded-md border border-gray-200">
+          {entries.map((entry) => (
+            <li key={entry.id} className="flex items-center justify-between gap-2 px-3 py-2">
+              <div className="min-w-0">
+                <p className="text-xs text-gray-900 truncate">{describeDoNotContactEntry(entry)}</p>
+                <p className="text-xs text-gray-500 truncate">
+                  {DO_NOT_CONTACT_KIND_LABELS[entry.kind]}
+                  {entry.reason && ` · ${entry.reason}`}
+                </p>
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => onRemove(entry.id)}
+                className="h-7 w-7 shrink-0"
+                aria-label="Remove"
+              >
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-xs text-gray-500">No one on the list yet.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+import type { GenerationDefaults } from "../services/storage";
+
+interface GenerationDefaultsEditorProps {
+  defaults: GenerationDefaults;
+  fallback: Required<GenerationDefaults>; // Shown for anything not set
+  onChange: (defaults: GenerationDefaults) => void;
+  purposes: { id: string; label: string }[];
+  tones: readonly string[];
+  lengths: readonly string[];
+}
+
+const SELECT_CLASS =
+  "flex h-8 w-full rounded-md border border-gray-200 bg-white px-2 py-1 text-xs shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-gray-950";
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+/**
+ * The tone, length and purpose the Generate view starts with
+ */
+export function GenerationDefaultsEditor({
+  defaults,
+  fallback,
+  onChange,
+  purposes,
+  tones,
+  lengths,
+}: GenerationDefaultsEditorProps) {
+  const update = (patch: GenerationDefaults) => onChange({ ...defaults, ...patch });
+
+  return (
+    <div className="grid grid-cols-3 gap-2">
+      <select
+        value={defaults.tone || fallback.tone}
+        onChange={(e) => update({ tone: e.target.value })}
+        className={SELECT_CLASS}
+        aria-label="Default tone"
+      >
+        {tones.map((tone) => (
+          <option key={tone} value={tone}>
+            {capitalize(tone)}
+          </option>
+        ))}
+      </select>
+      <select
+        value={defaults.length || fallback.length}
+        onChange={(e) => update({ length: e.target.value })}
+        className={SELECT_CLASS}
+        aria-label="Default length"
+      >
+        {lengths.map((length) => (
+          <option key={length} value={length}>
+            {capitalize(length)}
+          </option>
+        ))}
+      </select>
+      <select
+        value={defaults.purpose || fallback.purpose}
+        onChange={(e) => update({ purpose: e.target.value })}
+        className={SELECT_CLASS}
+        aria-label="Default purpose"
+      >
+        {purposes.map((purpose) => (
+          <option key={purpose.id} value={purpose.id}>
+            {purpose.label}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
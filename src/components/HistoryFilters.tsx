@@ -0,0 +1,182 @@
+import { Search } from "lucide-react";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Switch } from "./ui/switch";
+import { PIPELINE_STAGES, type PipelineStage } from "../services/contacts";
+import type { MessageQuery, MessageSort } from "../services/message-store";
+
+export interface HistoryFilterValues {
+  search: string;
+  purpose: string; // "" for any
+  tone: string;
+  length: string;
+  stage: PipelineStage | "";
+  from: string; // YYYY-MM-DD from the date input, "" for no bound
+  to: string;
+  sort: MessageSort;
+  groupByContact: boolean;
+}
+
+export const EMPTY_HISTORY_FILTERS: HistoryFilterValues = {
+  search: "",
+  purpose: "",
+  tone: "",
+  length: "",
+  stage: "",
+  from: "",
+  to: "",
+  sort: "newest",
+  groupByContact: false,
+};
+
+/**
+ * Whether any filter narrows the results. Sorting and grouping don't.
+ */
+export function hasActiveFilters(filters: HistoryFilterValues): boolean {
+  const { search, purpose, tone, length, stage, from, to } = filters;
+  return Boolean(search.trim() || purpose || tone || length || stage || from || to);
+}
+
+/**
+ * Turn the filters into a storage query. Dates cover whole days in the user's time zone.
+ */
+export function toMessageQuery(filters: HistoryFilterValues): MessageQuery {
+  return {
+    search: filters.search.trim() || undefined,
+    purpose: filters.purpose || undefined,
+    tone: filters.tone || undefined,
+    length: filters.length || undefined,
+    stage: filters.stage || undefined,
+    from: filters.from ? new Date(`${filters.from}T00:00:00`).toISOString() : undefined,
+    to: filters.to ? new Date(`${filters.to}T23:59:59.999`).toISOString() : undefined,
+    sort: filters.sort,
+  };
+}
+
+interface HistoryFiltersProps {
+  filters: HistoryFilterValues;
+  onChange: (filters: HistoryFilterValues) => void;
+  purposes: { id: string; label: string }[];
+  tones: readonly string[];
+  lengths: readonly string[];
+}
+
+const SELECT_CLASS =
+  "flex h-8 w-full rounded-md border border-gray-200 bg-white px-2 py-1 text-xs shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-gray-950";
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+export function HistoryFilters({ filters, onChange, purposes, tones, lengths }: HistoryFiltersProps) {
+  const update = (patch: Partial<HistoryFilterValues>) => onChange({ ...filters, ...patch });
+
+  return (
+    <div className="space-y-3">
+      <div className="relative">
+        <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-gray-400" />
+        <Input
+          value={filters.search}
+          onChange={(e) => update({ search: e.target.value })}
+          placeholder="Search messages and names"
+          className="pl-8"
+          aria-label="Search history"
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <select
+          value={filters.purpose}
+          onChange={(e) => update({ purpose: e.target.value })}
+          className={SELECT_CLASS}
+          aria-label="Purpose"
+        >
+          <option value="">Any purpose</option>
+          {purposes.map((purpose) => (
+            <option key={purpose.id} value={purpose.id}>
+              {purpose.label}
+            </option>
+          ))}
+        </select>
+        <select
+          value={filters.stage}
+          onChange={(e) => update({ stage: e.target.value as PipelineStage | "" })}
+          className={SELECT_CLASS}
+          aria-label="Pipeline stage"
+        >
+          <option value="">Any stage</option>
+          {PIPELINE_STAGES.map((stage) => (
+            <option key={stage.id} value={stage.id}>
+              {stage.label}
+            </option>
+          ))}
+        </select>
+        <select
+          value={filters.tone}
+          onChange={(e) => update({ tone: e.target.value })}
+          className={SELECT_CLASS}
+          aria-label="Tone"
+        >
+          <option value="">Any tone</option>
+          {tones.map((tone) => (
+            <option key={tone} value={tone}>
+              {capitalize(tone)}
+            </option>
+          ))}
+        </select>
+        <select
+          value={filters.length}
+          onChange={(e) => update({ length: e.target.value })}
+          className={SELECT_CLASS}
+          aria-label="Length"
+        >
+          <option value="">Any length</option>
+          {lengths.map((length) => (
+            <option key={length} value={length}>
+              {capitalize(length)}
+            </option>
+          ))}
+        </select>
+        <Input
+          type="date"
+          value={filters.from}
+          max={filters.to || undefined}
+          onChange={(e) => update({ from: e.target.value })}
+          className="h-8 text-xs"
+          aria-label="From date"
+        />
+        <Input
+          type="date"
+          value={filters.to}
+          min={filters.from || undefined}
+          onChange={(e) => update({ to: e.target.value })}
+          className="h-8 text-xs"
+          aria-label="To date"
+        />
+      </div>
+
+      <div className="flex items-center justify-between gap-2">
+        <div className="w-36">
+          <select
+            value={filters.sort}
+            onChange={(e) => update({ sort: e.target.value as MessageSort })}
+            className={SELECT_CLASS}
+            aria-label="Sort"
+          >
+            <option value="newest">Newest first</option>
+            <option value="oldest">Oldest first</option>
+            <option value="name">Name (A-Z)</option>
+          </select>
+        </div>
+        <div className="flex items-center gap-2">
+          <Switch
+            id="group-by-contact"
+            checked={filters.groupByContact}
+            onCheckedChange={(checked) => update({ groupByContact: checked })}
+          />
+          <Label htmlFor="group-by-contact" className="text-xs">
+            Group by contact
+          </Label>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+import type { ModelDownloadState } from "../types";
+import { cn } from "../lib/utils";
+
+interface ModelDownloadProgressProps {
+  state: ModelDownloadState;
+  className?: string;
+}
+
+export function ModelDownloadProgress({ state, className }: ModelDownloadProgressProps) {
+  const percent = Math.round(state.progress * 100);
+
+  return (
+    <div className={cn("space-y-1", className)}>
+      <div className="flex items-center justify-between text-xs text-gray-600">
+        <span>
+          {state.status === "error"
+            ? "Model download failed"
+            : state.status === "complete"
+              ? "Model downloaded"
+              : "Downloading Chrome AI model..."}
+        </span>
+        <span className="font-medium">{percent}%</span>
+      </div>
+      <div
+        role="progressbar"
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={percent}
+        className="h-1.5 w-full rounded-full bg-gray-200 overflow-hidden"
+      >
+        <div
+          className={cn(
+            "h-full rounded-full transition-all",
+            state.status === "error" ? "bg-red-500" : "bg-colder-ice-deep"
+          )}
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+      {state.error && <p className="text-xs text-red-600">{state.error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+import type { ProfileInsight } from "../types";
+
+interface ProfileInsightCardProps {
+  insight: ProfileInsight;
+  selectedPoints: string[];
+  onTogglePoint: (point: string) => void;
+}
+
+export function ProfileInsightCard({ insight, selectedPoints, onTogglePoint }: ProfileInsightCardProps) {
+  return (
+    <div className="border border-colder-ice-light bg-colder-frost rounded-lg p-4 space-y-3 text-xs">
+      <div className="space-y-1">
+        <p className="font-medium text-gray-900">Career arc</p>
+        <p className="text-gray-600">{insight.careerArc}</p>
+      </div>
+      <div className="space-y-1">
+        <p className="font-medium text-gray-900">Current focus</p>
+        <p className="text-gray-600">{insight.currentFocus}</p>
+      </div>
+      {insight.recentPosts.length > 0 && (
+        <div className="space-y-1">
+          <p className="font-medium text-gray-900">Recent posts</p>
+          <ul className="list-disc pl-4 text-gray-600 space-y-0.5">
+            {insight.recentPosts.map((post, index) => (
+              <li key={index}>{post}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+      <div className="space-y-2">
+        <p className="font-medium text-gray-900">Talking points</p>
+        {insight.talkingPoints.map((point, index) => (
+          <label key={index} className="flex items-start gap-2 text-gray-700 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={selectedPoints.includes(point)}
+              onChange={() => onTogglePoint(point)}
+              className="mt-0.5 h-3.5 w-3.5 accent-gray-900"
+            />
+            <span>{point}</span>
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+}
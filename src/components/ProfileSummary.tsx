@@ -0,0 +1,68 @@
+import { Briefcase, GraduationCap, MapPin, Users } from "lucide-react";
+import { formatConnectionCount } from "../services/profile-budget";
+import type { TargetProfile } from "../types";
+
+interface ProfileSummaryProps {
+  profile: TargetProfile;
+}
+
+export function ProfileSummary({ profile }: ProfileSummaryProps) {
+  const currentPosition = profile.positions.find((position) => position.isCurrent) ?? profile.positions[0];
+  const school = profile.schools[0];
+  const audience = [
+    profile.followerCount ? `${profile.followerCount.toLocaleString()} followers` : null,
+    profile.connectionCount ? `${formatConnectionCount(profile.connectionCount)} connections` : null,
+  ].filter(Boolean);
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 space-y-2">
+      <div>
+        <p className="font-medium text-sm text-gray-900">{profile.name}</p>
+        {profile.headline && <p className="text-xs text-gray-600">{profile.headline}</p>}
+      </div>
+
+      <div className="space-y-1 text-xs text-gray-500">
+        {currentPosition && (
+          <p className="flex items-center gap-1.5">
+            <Briefcase className="h-3 w-3 flex-shrink-0" />
+            {currentPosition.title}
+            {currentPosition.company && ` at ${currentPosition.company}`}
+            {currentPosition.dateRange && ` · ${currentPosition.dateRange.split(" · ")[0]}`}
+          </p>
+        )}
+        {school && (
+          <p className="flex items-center gap-1.5">
+            <GraduationCap className="h-3 w-3 flex-shrink-0" />
+            {school.name}
+            {school.degree && `, ${school.degree}`}
+          </p>
+        )}
+        {profile.location && (
+          <p className="flex items-center gap-1.5">
+            <MapPin className="h-3 w-3 flex-shrink-0" />
+            {profile.location}
+          </p>
+        )}
+        {audience.length > 0 && (
+          <p className="flex items-center gap-1.5">
+            <Users className="h-3 w-3 flex-shrink-0" />
+            {audience.join(" · ")}
+          </p>
+        )}
+      </div>
+
+      {profile.skills.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {profile.skills.slice(0, 5).map((skill) => (
+            <span
+              key={skill}
+              className="inline-flex items-center px-2 py-0.5 rounded text-xs bg-gray-100 text-gray-700"
+            >
+              {skill}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import type { ExtensionSettings } from "../types";
+import { isMockProviderEnabled, type ProviderId } from "../services/providers";
+
+interface ProviderSettingsProps {
+  settings: ExtensionSettings;
+  onChange: (settings: ExtensionSettings) => void;
+  onApply: () => void;
+  isApplying: boolean;
+}
+
+const PROVIDER_OPTIONS: { id: ProviderId; label: string; description: string }[] = [
+  {
+    id: "chrome-builtin",
+    label: "Chrome AI",
+    description: "Gemini Nano, running on this device",
+  },
+  {
+    id: "openai-compatible",
+    label: "Custom endpoint",
+    description: "Any OpenAI-compatible server, e.g. Ollama or llama.cpp",
+  },
+  ...(isMockProviderEnabled
+    ? [
+        {
+          id: "mock" as const,
+          label: "Mock AI",
+          description: "Scripted replies for development and demos",
+        },
+      ]
+    : []),
+];
+
+export function ProviderSettings({ settings, onChange, onApply, isApplying }: ProviderSettingsProps) {
+  const provider = settings.aiProvider || "chrome-builtin";
+  const endpoint = settings.customEndpoint || { baseUrl: "", model: "" };
+
+  const updateEndpoint = (patch: Partial<typeof endpoint>) =>
+    onChange({ ...settings, customEndpoint: { ...endpoint, ...patch } });
+
+  return (
+    <div className="space-y-3">
+      <div className={`grid gap-2 ${PROVIDER_OPTIONS.length > 2 ? "grid-cols-3" : "grid-cols-2"}`}>
+        {PROVIDER_OPTIONS.map((option) => (
+          <Button
+            key={option.id}
+            variant={provider === option.id ? "default" : "outline"}
+            size="sm"
+            onClick={() => onChange({ ...settings, aiProvider: option.id })}
+          >
+            {option.label}
+          </Button>
+        ))}
+      </div>
+      <p className="text-xs text-gray-500">
+        {PROVIDER_OPTIONS.find((option) => option.id === provider)?.description}
+      </p>
+
+      {provider === "openai-compatible" && (
+        <div className="space-y-3">
+          <div className="space-y-2">
+            <Label htmlFor="endpointBaseUrl">Endpoint URL</Label>
+            <Input
+              id="endpointBaseUrl"
+              type="url"
+              value={endpoint.baseUrl}
+              onChange={(e) => updateEndpoint({ baseUrl: e.target.value })}
+              placeholder="http://localhost:11434/v1"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="endpointModel">Model</Label>
+            <Input
+              id="endpointModel"
+              type="text"
+              value={endpoint.model}
+              onChange={(e) => updateEndpoint({ model: e.target.value })}
+              placeholder="llama3.1"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="endpointApiKey">API Key (optional)</Label>
+            <Input
+              id="endpointApiKey"
+              type="password"
+              value={endpoint.apiKey || ""}
+              onChange={(e) => updateEndpoint({ apiKey: e.target.value || undefined })}
+              placeholder="Leave empty for local servers"
+            />
+          </div>
+        </div>
+      )}
+
+      <Button onClick={onApply} disabled={isApplying} variant="outline" className="w-full" size="sm">
+        {isApplying ? "Connecting..." : "Save & Test Connection"}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import {
+  createEmptySenderProfile,
+  formatHistoryLine,
+  parseHistoryLine,
+  type SenderHistoryEntry,
+} from "../services/common-ground";
+import type { SenderProfile } from "../types";
+
+interface SenderProfileFieldsProps {
+  senderProfile?: SenderProfile;
+  onChange: (senderProfile: SenderProfile) => void;
+}
+
+const textareaClassName =
+  "flex min-h-[80px] w-full rounded-md border border-gray-200 bg-transparent px-3 py-2 text-sm shadow-sm placeholder:text-gray-500 focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-gray-950";
+
+const toLines = (entries: SenderHistoryEntry[]) => entries.map(formatHistoryLine).join("\n");
+const fromLines = (text: string) =>
+  text
+    .split("\n")
+    .map(parseHistoryLine)
+    .filter((entry): entry is SenderHistoryEntry => entry !== null);
+const fromList = (text: string) =>
+  text
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+/**
+ * Structured sender history. Fields are parsed when they lose focus, so typing isn't reformatted.
+ * Give the component a new `key` to reload it after the profile changes elsewhere.
+ */
+export function SenderProfileFields({ senderProfile, onChange }: SenderProfileFieldsProps) {
+  const profile = senderProfile || createEmptySenderProfile();
+  const update = (patch: Partial<SenderProfile>) => onChange({ ...profile, ...patch });
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="senderEmployers">Employers</Label>
+        <textarea
+          id="senderEmployers"
+          defaultValue={toLines(profile.employers)}
+          onBlur={(e) => update({ employers: fromLines(e.target.value) })}
+          placeholder={"One per line, e.g.\nAcme Corp, 2018 - 2021\nTech Corp, 2021 - Present"}
+          className={textareaClassName}
+          rows={3}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="senderSchools">Schools</Label>
+        <textarea
+          id="senderSchools"
+          defaultValue={toLines(profile.schools)}
+          onBlur={(e) => update({ schools: fromLines(e.target.value) })}
+          placeholder="One per line, e.g. State University, 2012 - 2016"
+          className={textareaClassName}
+          rows={2}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="senderLocation">Location</Label>
+        <Input
+          id="senderLocation"
+          type="text"
+          defaultValue={profile.location || ""}
+          onBlur={(e) => update({ location: e.target.value.trim() || undefined })}
+          placeholder="London, United Kingdom"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="senderSkills">Skills</Label>
+        <Input
+          id="senderSkills"
+          type="text"
+          defaultValue={profile.skills.join(", ")}
+          onBlur={(e) => update({ skills: fromList(e.target.value) })}
+          placeholder="React, Product Strategy, SQL"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="senderIndustries">Industries</Label>
+        <Input
+          id="senderIndustries"
+          type="text"
+          defaultValue={profile.industries.join(", ")}
+          onBlur={(e) => update({ industries: fromList(e.target.value) })}
+          placeholder="Fintech, Healthcare"
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+import { Mail } from "lucide-react";
+import { Button } from "./ui/button";
+import { MESSAGE_CHANNELS } from "../services/channels";
+import {
+  STEP_KIND_LABELS,
+  getNextStep,
+  getStepDueDate,
+  getStepStatus,
+  type ContactSequence,
+  type SequenceStep,
+  type SequenceTemplate,
+} from "../services/sequences";
+
+interface SequenceCardProps {
+  template: SequenceTemplate;
+  progress: ContactSequence;
+  onWriteFollowUp: (step: SequenceStep) => void;
+  disabled?: boolean;
+}
+
+const STATUS_STYLES = {
+  done: "text-green-700",
+  due: "text-colder-ice-deep font-medium",
+  upcoming: "text-gray-400",
+};
+
+export function SequenceCard({ template, progress, onWriteFollowUp, disabled }: SequenceCardProps) {
+  const nextStep = getNextStep(template, progress);
+
+  return (
+    <div className="border border-colder-ice-light bg-colder-frost rounded-lg p-4 space-y-3 text-xs">
+      <div className="space-y-1">
+        <p className="font-medium text-gray-900">Sequence with {progress.profileName}</p>
+        <p className="text-gray-500">Started {new Date(progress.startedAt).toLocaleDateString()}</p>
+      </div>
+      <ul className="space-y-1">
+        {template.steps.map((step) => {
+          const status = getStepStatus(step, progress);
+          return (
+            <li key={step.id} className="flex items-center justify-between gap-2">
+              <span className="text-gray-700">
+                Day {step.day} · {STEP_KIND_LABELS[step.kind]}
+                {step.channel && ` · ${MESSAGE_CHANNELS[step.channel].label}`}
+              </span>
+              <span className={STATUS_STYLES[status]}>
+                {status === "done"
+                  ? "Done"
+                  : status === "due"
+                    ? "Due"
+                    : getStepDueDate(step, progress).toLocaleDateString()}
+              </span>
+            </li>
+          );
+        })}
+      </ul>
+      {nextStep ? (
+        <Button
+          onClick={() => onWriteFollowUp(nextStep)}
+          disabled={disabled}
+          variant="outline"
+          size="sm"
+          className="w-full bg-white"
+        >
+          <Mail className="mr-2 h-4 w-4" />
+          Write {STEP_KIND_LABELS[nextStep.kind]}
+        </Button>
+      ) : (
+        <p className="text-gray-500">Every step in this sequence has been written.</p>
+      )}
+    </div>
+  );
+}
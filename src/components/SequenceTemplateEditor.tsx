@@ -0,0 +1,97 @@
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { MESSAGE_CHANNELS, type MessageChannelId } from "../services/channels";
+import { STEP_KIND_LABELS, type SequenceStep, type SequenceTemplate } from "../services/sequences";
+
+interface SequenceTemplateEditorProps {
+  template: SequenceTemplate;
+  onChange: (template: SequenceTemplate) => void;
+}
+
+const SELECT_CLASS =
+  "flex h-8 w-full rounded-md border border-gray-200 bg-white px-2 py-1 text-xs shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-gray-950";
+
+export function SequenceTemplateEditor({ template, onChange }: SequenceTemplateEditorProps) {
+  const updateStep = (index: number, patch: Partial<SequenceStep>) =>
+    onChange({ steps: template.steps.map((step, i) => (i === index ? { ...step, ...patch } : step)) });
+
+  // Keep steps in day order, but only once the user has finished typing
+  const sortSteps = () => onChange({ steps: [...template.steps].sort((a, b) => a.day - b.day) });
+
+  const addStep = () => {
+    const lastDay = template.steps[template.steps.length - 1]?.day ?? 0;
+    onChange({
+      steps: [
+        ...template.steps,
+        { id: `step_${Date.now()}`, day: lastDay + 3, kind: "follow_up", channel: "direct_message" },
+      ],
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      {template.steps.map((step, index) => {
+        // The first step is always the initial message on day 0
+        const isFirst = index === 0;
+        return (
+          <div key={step.id} className="grid grid-cols-[3.5rem_1fr_1fr_2rem] gap-2 items-center">
+            <Input
+              type="number"
+              min={isFirst ? 0 : 1}
+              value={step.day}
+              disabled={isFirst}
+              onChange={(e) => updateStep(index, { day: Math.max(1, Number(e.target.value) || 1) })}
+              onBlur={sortSteps}
+              className="h-8 text-xs"
+              aria-label="Day"
+            />
+            <select
+              value={step.kind}
+              disabled={isFirst}
+              onChange={(e) => updateStep(index, { kind: e.target.value as SequenceStep["kind"] })}
+              className={SELECT_CLASS}
+            >
+              {isFirst ? (
+                <option value="initial">{STEP_KIND_LABELS.initial}</option>
+              ) : (
+                <>
+                  <option value="follow_up">{STEP_KIND_LABELS.follow_up}</option>
+                  <option value="breakup">{STEP_KIND_LABELS.breakup}</option>
+                </>
+              )}
+            </select>
+            <select
+              value={step.channel ?? ""}
+              onChange={(e) =>
+                updateStep(index, { channel: (e.target.value as MessageChannelId) || undefined })
+              }
+              className={SELECT_CLASS}
+            >
+              <option value="">Any channel</option>
+              {Object.values(MESSAGE_CHANNELS).map((channel) => (
+                <option key={channel.id} value={channel.id}>
+                  {channel.label}
+                </option>
+              ))}
+            </select>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8"
+              disabled={isFirst}
+              onClick={() => onChange({ steps: template.steps.filter((_, i) => i !== index) })}
+              aria-label="Remove step"
+            >
+              <Trash2 className="h-3.5 w-3.5" />
+            </Button>
+          </div>
+        );
+      })}
+      <Button onClick={addStep} variant="outline" size="sm" className="w-full">
+        <Plus className="mr-2 h-4 w-4" />
+        Add Step
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+import { useState } from "react";
+import { Button } from "./ui/button";
+import { CheckCircle, Copy } from "lucide-react";
+import { cn } from "../lib/utils";
+
+interface SubjectPickerProps {
+  subjects: string[];
+  selected?: string;
+  onSelect: (subject: string) => void;
+}
+
+export function SubjectPicker({ subjects, selected, onSelect }: SubjectPickerProps) {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = () => {
+    if (!selected) return;
+    navigator.clipboard.writeText(selected);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-medium text-gray-900">Subject</span>
+        <Button onClick={handleCopy} disabled={!selected} variant="ghost" size="sm" className="h-7 px-2 text-xs">
+          <Copy className="mr-1 h-3 w-3" />
+          {copied ? "Copied!" : "Copy Subject"}
+        </Button>
+      </div>
+      <div className="space-y-1.5">
+        {subjects.map((subject) => (
+          <button
+            key={subject}
+            type="button"
+            onClick={() => onSelect(subject)}
+            className={cn(
+              "w-full flex items-center justify-between gap-2 text-left border rounded-lg px-3 py-2 text-sm transition-colors",
+              selected === subject ? "border-gray-900 bg-gray-50" : "border-gray-200 hover:border-gray-300"
+            )}
+          >
+            <span>{subject}</span>
+            {selected === subject && <CheckCircle className="h-4 w-4 flex-shrink-0 text-gray-900" />}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
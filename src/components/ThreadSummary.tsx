@@ -0,0 +1,34 @@
+import { MessageSquare } from "lucide-react";
+import type { ConversationThread, StoredMessage } from "../types";
+
+interface ThreadSummaryProps {
+  thread: ConversationThread;
+  originalMessage?: StoredMessage; // The outreach Colder wrote for this person, if any
+}
+
+export function ThreadSummary({ thread, originalMessage }: ThreadSummaryProps) {
+  const names = thread.participants.map((participant) => participant.name).join(", ");
+  const latest = [...thread.messages].reverse().find((message) => !message.isSelf);
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 space-y-2 text-xs">
+      <div>
+        <p className="font-medium text-sm text-gray-900">{names || latest?.senderName}</p>
+        <p className="flex items-center gap-1.5 text-gray-500">
+          <MessageSquare className="h-3 w-3 flex-shrink-0" />
+          {thread.messages.length} {thread.messages.length === 1 ? "message" : "messages"}
+          {originalMessage && ` · first reached out ${new Date(originalMessage.generatedAt).toLocaleDateString()}`}
+        </p>
+      </div>
+      {latest && (
+        <div className="space-y-1">
+          <p className="font-medium text-gray-900">
+            Latest from {latest.senderName}
+            {latest.timestamp && <span className="font-normal text-gray-400"> · {latest.timestamp}</span>}
+          </p>
+          <p className="text-gray-600 whitespace-pre-wrap line-clamp-4">{latest.text}</p>
+        </div>
+      )}
+    </div>
+  );
+}
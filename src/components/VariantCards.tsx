@@ -0,0 +1,63 @@
+import { Button } from "./ui/button";
+import { CheckCircle } from "lucide-react";
+import { cn } from "../lib/utils";
+import type { MessageDraft } from "../types";
+
+interface VariantCardsProps {
+  variants: MessageDraft[];
+  selectedIndex: number | null;
+  onSelect: (index: number) => void;
+  onUse: () => void;
+}
+
+export function VariantCards({ variants, selectedIndex, onSelect, onUse }: VariantCardsProps) {
+  return (
+    <div className="space-y-4">
+      <div className="space-y-3">
+        {variants.map((variant, index) => (
+          <button
+            key={variant.id + index}
+            type="button"
+            onClick={() => onSelect(index)}
+            className={cn(
+              "w-full text-left border rounded-lg p-4 space-y-2 transition-colors",
+              selectedIndex === index
+                ? "border-gray-900 bg-gray-50"
+                : "border-gray-200 hover:border-gray-300"
+            )}
+          >
+            <div className="flex items-center justify-between">
+              <span className="text-xs font-medium text-gray-900">
+                Variant {index + 1}
+                {variant.angle && (
+                  <span className="text-gray-500"> · {variant.angle}</span>
+                )}
+              </span>
+              {selectedIndex === index ? (
+                <CheckCircle className="h-4 w-4 text-gray-900" />
+              ) : (
+                <span className="text-xs text-gray-500">
+                  {variant.wordCount} words
+                </span>
+              )}
+            </div>
+            {variant.subject && (
+              <p className="text-xs font-medium text-gray-700">Subject: {variant.subject}</p>
+            )}
+            <p className="text-sm text-gray-700 whitespace-pre-wrap">
+              {variant.body}
+            </p>
+          </button>
+        ))}
+      </div>
+
+      <Button
+        onClick={onUse}
+        disabled={selectedIndex === null}
+        className="w-full"
+      >
+        Use Selected Variant
+      </Button>
+    </div>
+  );
+}
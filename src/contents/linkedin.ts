@@ -1,6 +1,7 @@
 import type { PlasmoCSConfig } from "plasmo";
-import { formatProfileForPrompt, extractName, extractJobTitle, extractCompany, getProfileUrl } from "../utils/linkedin-selectors";
-import type { TargetProfile } from "../types";
+import { extractProfile } from "../utils/linkedin-selectors";
+import { insertDraft } from "../utils/linkedin-composer";
+import { extractThread } from "../utils/linkedin-thread";
 
 export const config: PlasmoCSConfig = {
   matches: ["https://*.linkedin.com/*"],
@@ -20,23 +21,12 @@ chrome.runtime.onMessage.addListener((request, sender, sendResponse) => {
   if (request.type === "EXTRACT_PROFILE") {
     console.log("EXTRACT_PROFILE message received");
     try {
-      const rawProfileText = formatProfileForPrompt();
-      const name = extractName();
+      const targetProfile = extractProfile();
 
-      if (!name) {
+      if (!targetProfile) {
         throw new Error("Could not extract profile name. Please make sure you are on a valid LinkedIn profile page.");
       }
 
-      const targetProfile: Partial<TargetProfile> = {
-        id: btoa(getProfileUrl()), // Simple ID generation
-        linkedinUrl: getProfileUrl(),
-        name: name,
-        currentJobTitle: extractJobTitle() ?? undefined,
-        currentCompany: extractCompany() ?? undefined,
-        rawProfileText: rawProfileText,
-        extractedAt: new Date(),
-      };
-
       sendResponse({ success: true, data: targetProfile });
 
     } catch (e: any) {
@@ -46,4 +36,39 @@ chrome.runtime.onMessage.addListener((request, sender, sendResponse) => {
 
     return true; // Keep the message channel open for async response
   }
+
+  if (request.type === "EXTRACT_THREAD") {
+    try {
+      const thread = extractThread();
+
+      if (!thread) {
+        throw new Error("Could not find any messages. Please open a conversation in LinkedIn messaging.");
+      }
+
+      sendResponse({ success: true, data: thread });
+    } catch (e: any) {
+      console.error("Thread extraction failed:", e);
+      sendResponse({ success: false, error: e.message });
+    }
+
+    return true;
+  }
+
+  if (request.type === "INSERT_DRAFT") {
+    const { text, composer, subject } = request.payload || {};
+    if (!text) {
+      sendResponse({ success: false, error: "No message text to insert." });
+      return true;
+    }
+
+    // Fills the composer only - the user reviews and presses Send themselves
+    insertDraft(text, composer, subject)
+      .then((result) => sendResponse({ success: true, data: result }))
+      .catch((e: any) => {
+        console.error("Insert failed:", e);
+        sendResponse({ success: false, error: e.message });
+      });
+
+    return true;
+  }
 });
@@ -0,0 +1,492 @@
+/**
+ * Backup
+ * Versioned JSON backups, CSV exports of history and contacts, and validation of files
+ * being imported. Nothing here touches storage: parse a file into an ImportPreview, show
+ * it, then hand it to storage.importData.
+ */
+
+import type { ExtensionSettings, StoredMessage } from './storage';
+import type { ProviderId } from './providers';
+import type { SenderHistoryEntry, SenderProfile } from './common-ground';
+import { MESSAGE_CHANNELS, type LinkedInAccountType } from './channels';
+import { STEP_KIND_LABELS, type ContactSequence, type SequenceTemplate } from './sequences';
+import { PIPELINE_STAGES, createContact, parseTags, type Contact, type PipelineStage } from './contacts';
+import { validateDoNotContactEntry, type DoNotContactEntry } from './do-not-contact';
+import { CURRENT_SCHEMA_VERSION } from './migrations';
+import { parseCsvRecords, toCsv } from '../utils/csv';
+import { ValidationError } from '../utils/error-handlers';
+
+export const BACKUP_FORMAT = 'colder-backup';
+
+export interface BackupData {
+  format: typeof BACKUP_FORMAT;
+  schemaVersion: number; // CURRENT_SCHEMA_VERSION when exported
+  exportedAt: string; // ISO string
+  settings: ExtensionSettings;
+  messages: StoredMessage[];
+  contacts: Contact[];
+  sequences: Record<string, ContactSequence>; // Keyed by profile URL
+  doNotContact: DoNotContactEntry[];
+  dailyUsage: {
+    date: string; // YYYY-MM-DD
+    count: number;
+  };
+}
+
+export type ImportSource = 'json' | 'messages_csv' | 'contacts_csv';
+
+/**
+ * A validated file, ready to show before anything is written
+ */
+export interface ImportPreview {
+  source: ImportSource;
+  settings?: ExtensionSettings; // Only JSON backups carry settings
+  messages: StoredMessage[];
+  contacts: Contact[];
+  sequences?: Record<string, ContactSequence>;
+  doNotContact?: DoNotContactEntry[];
+  dailyUsage?: BackupData['dailyUsage'];
+  rejected: ValidationError[]; // One per record left out; `field` names the record, `value` holds it
+}
+
+/**
+ * merge keeps what is stored and adds what is new; replace swaps history and contacts for the file's
+ */
+export type ImportMode = 'merge' | 'replace';
+
+export interface ImportResult {
+  messagesAdded: number;
+  messagesSkipped: number; // Already stored
+  contactsAdded: number;
+  contactsUpdated: number;
+}
+
+const MESSAGE_COLUMNS = [
+  'id',
+  'generated_at',
+  'target_name',
+  'target_profile_url',
+  'target_job_title',
+  'target_company',
+  'purpose',
+  'tone',
+  'length',
+  'channel',
+  'subject',
+  'body',
+  'word_count',
+  'contact_id'
+];
+
+const CONTACT_COLUMNS = [
+  'id',
+  'profile_url',
+  'name',
+  'headline',
+  'job_title',
+  'company',
+  'location',
+  'stage',
+  'tags',
+  'notes',
+  'message_count',
+  'created_at',
+  'stage_updated_at'
+];
+
+const isRecord = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isDate = (value: unknown): value is string => typeof value === 'string' && !isNaN(Date.parse(value));
+
+const optionalString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() ? value : undefined;
+
+const countWords = (text: string): number => text.split(/\s+/).filter(Boolean).length;
+
+/**
+ * What makes two messages the same message, whatever their ids
+ */
+export function getMessageKey(message: Pick<StoredMessage, 'targetProfileUrl' | 'generatedAt' | 'body'>): string {
+  return `${message.targetProfileUrl}\n${message.generatedAt}\n${message.body}`;
+}
+
+/**
+ * Check a message from a file and keep only the fields a stored message has
+ * @returns The message, or why it was rejected
+ */
+export function validateMessage(raw: unknown): StoredMessage | string {
+  if (!isRecord(raw)) return 'Not a message record';
+  if (typeof raw.body !== 'string' || !raw.body.trim()) return 'Missing body';
+  if (typeof raw.targetProfileUrl !== 'string' || !raw.targetProfileUrl.trim()) return 'Missing profile URL';
+  if (!isDate(raw.generatedAt)) return 'Missing or invalid date';
+
+  const generatedAt = new Date(raw.generatedAt).toISOString();
+  return {
+    id: optionalString(raw.id) || `msg_${Date.parse(generatedAt)}_${Math.random().toString(36).slice(2, 8)}`,
+    body: raw.body,
+    wordCount: typeof raw.wordCount === 'number' ? raw.wordCount : countWords(raw.body),
+    targetProfileUrl: raw.targetProfileUrl.trim(),
+    targetProfileName: typeof raw.targetProfileName === 'string' ? raw.targetProfileName : '',
+    targetJobTitle: optionalString(raw.targetJobTitle),
+    targetCompany: optionalString(raw.targetCompany),
+    tone: typeof raw.tone === 'string' ? raw.tone : '',
+    length: typeof raw.length === 'string' ? raw.length : '',
+    purpose: typeof raw.purpose === 'string' ? raw.purpose : '',
+    channel: optionalString(raw.channel) as StoredMessage['channel'],
+    subject: optionalString(raw.subject),
+    subjectOptions: Array.isArray(raw.subjectOptions)
+      ? raw.subjectOptions.filter((option: unknown) => typeof option === 'string')
+      : undefined,
+    sequenceStepId: optionalString(raw.sequenceStepId),
+    replyToThreadUrl: optionalString(raw.replyToThreadUrl),
+    contactId: optionalString(raw.contactId),
+    generatedAt,
+    variantIndex: typeof raw.variantIndex === 'number' ? raw.variantIndex : undefined,
+    variantCount: typeof raw.variantCount === 'number' ? raw.variantCount : undefined,
+    variantAngle: optionalString(raw.variantAngle)
+  };
+}
+
+/**
+ * Check a contact from a file, filling in what older or hand-made files leave out
+ * @returns The contact, or why it was rejected
+ */
+export function validateContact(raw: unknown): Contact | string {
+  if (!isRecord(raw)) return 'Not a contact record';
+  if (typeof raw.profileUrl !== 'string' || !raw.profileUrl.trim()) return 'Missing profile URL';
+  const snapshot = isRecord(raw.snapshot) ? raw.snapshot : {};
+  if (typeof snapshot.name !== 'string' || !snapshot.name.trim()) return 'Missing name';
+  if (raw.stage !== undefined && !PIPELINE_STAGES.some(stage => stage.id === raw.stage)) {
+    return `Unknown stage "${raw.stage}"`;
+  }
+  if (raw.createdAt !== undefined && !isDate(raw.createdAt)) return 'Invalid created date';
+
+  const createdAt = raw.createdAt ? new Date(raw.createdAt).toISOString() : new Date().toISOString();
+  const contact = createContact(
+    raw.profileUrl.trim(),
+    {
+      name: snapshot.name.trim(),
+      headline: optionalString(snapshot.headline),
+      jobTitle: optionalString(snapshot.jobTitle),
+      company: optionalString(snapshot.company),
+      location: optionalString(snapshot.location),
+      capturedAt: isDate(snapshot.capturedAt) ? snapshot.capturedAt : createdAt
+    },
+    createdAt
+  );
+  return {
+    ...contact,
+    id: optionalString(raw.id) || contact.id,
+    stage: (raw.stage as PipelineStage) || contact.stage,
+    stageUpdatedAt: isDate(raw.stageUpdatedAt) ? raw.stageUpdatedAt : contact.stageUpdatedAt,
+    tags: Array.isArray(raw.tags) ? raw.tags.filter((tag: unknown) => typeof tag === 'string') : [],
+    notes: typeof raw.notes === 'string' ? raw.notes : '',
+    messageIds: Array.isArray(raw.messageIds) ? raw.messageIds.filter((id: unknown) => typeof id === 'string') : []
+  };
+}
+
+const ACCOUNT_TYPES: LinkedInAccountType[] = ['free', 'premium'];
+const PROVIDER_IDS: ProviderId[] = ['chrome-builtin', 'openai-compatible', 'mock'];
+
+const asString = (value: unknown): string | null => (typeof value === 'string' ? value : null);
+
+const stringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+
+const oneOf =
+  <T extends string>(values: T[]) =>
+  (value: unknown): T | null =>
+    values.includes(value as T) ? (value as T) : null;
+
+function validateSenderProfile(value: unknown): SenderProfile | null {
+  if (!isRecord(value)) return null;
+  const entries = (list: unknown): SenderHistoryEntry[] =>
+    (Array.isArray(list) ? list : [])
+      .filter(entry => isRecord(entry) && typeof entry.name === 'string')
+      .map(entry => ({
+        name: entry.name,
+        startYear: typeof entry.startYear === 'number' ? entry.startYear : undefined,
+        endYear: typeof entry.endYear === 'number' ? entry.endYear : undefined
+      }));
+  return {
+    location: optionalString(value.location),
+    employers: entries(value.employers),
+    schools: entries(value.schools),
+    skills: stringList(value.skills),
+    industries: stringList(value.industries)
+  };
+}
+
+function validateSequenceTemplate(value: unknown): SequenceTemplate | null {
+  if (!isRecord(value) || !Array.isArray(value.steps) || value.steps.length === 0) return null;
+  const stepsValid = value.steps.every(
+    step =>
+      isRecord(step) &&
+      typeof step.id === 'string' &&
+      Number.isFinite(step.day) &&
+      Object.keys(STEP_KIND_LABELS).includes(step.kind) &&
+      (step.channel === undefined || Object.keys(MESSAGE_CHANNELS).includes(step.channel))
+  );
+  if (!stepsValid) return null;
+  return { steps: value.steps.map(({ id, day, kind, channel }) => ({ id, day, kind, channel })) };
+}
+
+// What each setting should hold, and a check returning its cleaned value or null
+const SETTINGS_SCHEMA: {
+  [K in keyof Required<ExtensionSettings>]: { expected: string; validate: (value: unknown) => ExtensionSettings[K] | null };
+} = {
+  userName: { expected: 'text', validate: asString },
+  userRole: { expected: 'text', validate: asString },
+  userCompany: { expected: 'text', validate: asString },
+  userBackground: { expected: 'text', validate: asString },
+  userValueProposition: { expected: 'text', validate: asString },
+  senderProfile: { expected: 'a sender profile', validate: validateSenderProfile },
+  linkedinAccountType: { expected: ACCOUNT_TYPES.join(' or '), validate: oneOf(ACCOUNT_TYPES) },
+  sequenceTemplate: { expected: 'a sequence with steps', validate: validateSequenceTemplate },
+  aiProvider: { expected: 'a known AI provider', validate: oneOf(PROVIDER_IDS) },
+  customEndpoint: {
+    expected: 'an endpoint with a base URL and model',
+    validate: value =>
+      isRecord(value) && typeof value.baseUrl === 'string' && typeof value.model === 'string'
+        ? {
+            baseUrl: value.baseUrl,
+            model: value.model,
+            apiKey: optionalString(value.apiKey),
+            contextWindow: typeof value.contextWindow === 'number' ? value.contextWindow : undefined
+          }
+        : null
+  },
+  generationDefaults: {
+    expected: 'a tone, length and purpose',
+    validate: value =>
+      isRecord(value)
+        ? { tone: optionalString(value.tone), length: optionalString(value.length), purpose: optionalString(value.purpose) }
+        : null
+  }
+};
+
+/**
+ * Check settings from a file one by one. Settings this version doesn't know are dropped;
+ * ones with the wrong shape are dropped and reported, so the rest can still be restored.
+ */
+export function validateSettings(raw: object, rejected: ValidationError[] = []): ExtensionSettings {
+  const settings: Record<string, unknown> = {};
+  for (const [field, value] of Object.entries(raw)) {
+    if (value === undefined || !Object.keys(SETTINGS_SCHEMA).includes(field)) continue;
+    const { expected, validate } = SETTINGS_SCHEMA[field as keyof ExtensionSettings];
+    const valid = validate(value);
+    if (valid === null) {
+      rejected.push(new ValidationError(`settings.${field}: Expected ${expected}`, `settings.${field}`, value));
+    } else {
+      settings[field] = valid;
+    }
+  }
+  return settings as ExtensionSettings;
+}
+
+/**
+ * Validate every record in `rows`, collecting the ones that fail
+ */
+function validateRows<R, T>(
+  rows: R[],
+  validate: (raw: R) => T | string,
+  describe: (index: number) => string,
+  rejected: ValidationError[]
+): T[] {
+  const valid: T[] = [];
+  rows.forEach((raw, index) => {
+    const result = validate(raw);
+    if (typeof result === 'string') {
+      rejected.push(new ValidationError(`${describe(index)}: ${result}`, describe(index), raw));
+    } else {
+      valid.push(result);
+    }
+  });
+  return valid;
+}
+
+/**
+ * Read a JSON backup. Records that fail validation are left out and reported;
+ * a file that is not a backup at all, or is from a newer schema, throws.
+ * @throws ValidationError
+ */
+export function parseBackupJson(text: string): ImportPreview {
+  let data: unknown;
+  try {
+    data = JSON.parse(text.replace(/^\uFEFF/, ''));
+  } catch {
+    throw new ValidationError('This file is not valid JSON');
+  }
+
+  // Backups from before the format marker only had settings, messages and usage
+  if (!isRecord(data) || (data.format !== undefined && data.format !== BACKUP_FORMAT) || !Array.isArray(data.messages)) {
+    throw new ValidationError('This file is not a Colder backup', 'format', isRecord(data) ? data.format : undefined);
+  }
+  const schemaVersion = typeof data.schemaVersion === 'number' ? data.schemaVersion : 0;
+  if (schemaVersion > CURRENT_SCHEMA_VERSION) {
+    throw new ValidationError(
+      'This backup is from a newer version of Colder. Update the extension and try again.',
+      'schemaVersion',
+      schemaVersion
+    );
+  }
+
+  const rejected: ValidationError[] = [];
+  const messages = validateRows(data.messages, validateMessage, index => `messages[${index}]`, rejected);
+  const contacts = validateRows(
+    Array.isArray(data.contacts) ? data.contacts : [],
+    validateContact,
+    index => `contacts[${index}]`,
+    rejected
+  );
+  const doNotContact = Array.isArray(data.doNotContact)
+    ? validateRows(
+        data.doNotContact,
+        raw => {
+          if (!isRecord(raw) || typeof raw.id !== 'string') return 'Not a do-not-contact entry';
+          return validateDoNotContactEntry(raw as DoNotContactEntry) ?? (raw as DoNotContactEntry);
+        },
+        index => `doNotContact[${index}]`,
+        rejected
+      )
+    : undefined;
+
+  if (data.settings !== undefined && !isRecord(data.settings)) {
+    rejected.push(new ValidationError('settings: Not a settings object', 'settings', data.settings));
+  }
+
+  return {
+    source: 'json',
+    settings: isRecord(data.settings) ? validateSettings(data.settings, rejected) : undefined,
+    messages,
+    contacts,
+    sequences: isRecord(data.sequences) ? (data.sequences as Record<string, ContactSequence>) : undefined,
+    doNotContact,
+    dailyUsage:
+      isRecord(data.dailyUsage) && typeof data.dailyUsage.count === 'number'
+        ? (data.dailyUsage as BackupData['dailyUsage'])
+        : undefined,
+    rejected
+  };
+}
+
+/**
+ * Read a messages or contacts CSV as written by the exports below, telling them apart by header.
+ * Rows are numbered as a spreadsheet shows them, counting the header as row 1.
+ * @throws ValidationError when the columns match neither export
+ */
+export function parseBackupCsv(text: string): ImportPreview {
+  const records = parseCsvRecords(text);
+  const columns = Object.keys(records[0] || {});
+  const rejected: ValidationError[] = [];
+  const describe = (index: number) => `Row ${index + 2}`;
+
+  if (columns.includes('body') && columns.includes('target_profile_url')) {
+    const messages = validateRows(
+      records,
+      record =>
+        validateMessage({
+          id: record.id,
+          generatedAt: record.generated_at,
+          targetProfileName: record.target_name,
+          targetProfileUrl: record.target_profile_url,
+          targetJobTitle: record.target_job_title,
+          targetCompany: record.target_company,
+          purpose: record.purpose,
+          tone: record.tone,
+          length: record.length,
+          channel: record.channel,
+          subject: record.subject,
+          body: record.body,
+          wordCount: record.word_count ? Number(record.word_count) || undefined : undefined,
+          contactId: record.contact_id
+        }),
+      describe,
+      rejected
+    );
+    return { source: 'messages_csv', messages, contacts: [], rejected };
+  }
+
+  if (columns.includes('profile_url') && columns.includes('stage')) {
+    const contacts = validateRows(
+      records,
+      record =>
+        validateContact({
+          id: record.id,
+          profileUrl: record.profile_url,
+          snapshot: {
+            name: record.name,
+            headline: record.headline,
+            jobTitle: record.job_title,
+            company: record.company,
+            location: record.location,
+            capturedAt: record.created_at
+          },
+          stage: record.stage || undefined,
+          tags: parseTags(record.tags || ''),
+          notes: record.notes,
+          createdAt: record.created_at || undefined,
+          stageUpdatedAt: record.stage_updated_at
+        }),
+      describe,
+      rejected
+    );
+    return { source: 'contacts_csv', messages: [], contacts, rejected };
+  }
+
+  throw new ValidationError(
+    'Unrecognised CSV. Use a messages or contacts export from Colder.',
+    'columns',
+    columns.join(',')
+  );
+}
+
+/**
+ * Message history as CSV, one row per message
+ */
+export function messagesToCsv(messages: StoredMessage[]): string {
+  return toCsv([
+    MESSAGE_COLUMNS,
+    ...messages.map(message => [
+      message.id,
+      message.generatedAt,
+      message.targetProfileName,
+      message.targetProfileUrl,
+      message.targetJobTitle,
+      message.targetCompany,
+      message.purpose,
+      message.tone,
+      message.length,
+      message.channel,
+      message.subject,
+      message.body,
+      message.wordCount,
+      message.contactId
+    ])
+  ]);
+}
+
+/**
+ * Contacts as CSV, one row per contact, with tags comma-separated in one column
+ */
+export function contactsToCsv(contacts: Contact[]): string {
+  return toCsv([
+    CONTACT_COLUMNS,
+    ...contacts.map(contact => [
+      contact.id,
+      contact.profileUrl,
+      contact.snapshot.name,
+      contact.snapshot.headline,
+      contact.snapshot.jobTitle,
+      contact.snapshot.company,
+      contact.snapshot.location,
+      contact.stage,
+      contact.tags.join(', '),
+      contact.notes,
+      contact.messageIds.length,
+      contact.createdAt,
+      contact.stageUpdatedAt
+    ])
+  ]);
+}
@@ -0,0 +1,86 @@
+/**
+ * Message Channels
+ * Where a message will be sent, with each channel's hard character limit and writing guidance
+ */
+
+import type { ComposerKind } from '../utils/linkedin-composer';
+
+export type MessageChannelId = 'connection_note' | 'direct_message' | 'inmail' | 'email';
+
+export type LinkedInAccountType = 'free' | 'premium';
+
+export interface MessageChannel {
+  id: MessageChannelId;
+  label: string;
+  maxChars: number; // Hard limit on the message body
+  freeMaxChars?: number; // Lower limit for free LinkedIn accounts
+  guidance: string;
+  usesWordLength: boolean; // Whether the short/medium/long word ranges apply
+  maxSubjectChars?: number; // Set for channels that need a subject line
+  composer?: ComposerKind; // LinkedIn composer to insert into; email is copy-only
+}
+
+export const MESSAGE_CHANNELS: Record<MessageChannelId, MessageChannel> = {
+  connection_note: {
+    id: 'connection_note',
+    label: 'Connection note',
+    maxChars: 300,
+    freeMaxChars: 200,
+    guidance: 'An invitation note. One or two sentences: who you are, the one specific reason you are reaching out. No sign-off, no links.',
+    usesWordLength: false,
+    composer: 'connection_note'
+  },
+  direct_message: {
+    id: 'direct_message',
+    label: 'Direct message',
+    maxChars: 8000,
+    guidance: 'A LinkedIn message to a connection. Conversational, short paragraphs, no subject line.',
+    usesWordLength: true,
+    composer: 'message'
+  },
+  inmail: {
+    id: 'inmail',
+    label: 'InMail',
+    maxChars: 1900,
+    guidance: 'A LinkedIn InMail to someone outside your network. Earn attention in the first line and make the ask easy to accept.',
+    usesWordLength: true,
+    maxSubjectChars: 200,
+    composer: 'inmail'
+  },
+  email: {
+    id: 'email',
+    label: 'Email',
+    maxChars: 2000,
+    guidance: 'A cold email. Greeting, two or three short paragraphs, one clear ask and a sign-off with the sender\'s name.',
+    usesWordLength: true,
+    maxSubjectChars: 80
+  }
+};
+
+export const DEFAULT_CHANNEL: MessageChannelId = 'direct_message';
+
+/**
+ * The character limit that applies to a channel for the given LinkedIn account
+ */
+export function getChannelLimit(channelId: MessageChannelId, accountType: LinkedInAccountType = 'free'): number {
+  const channel = MESSAGE_CHANNELS[channelId];
+  return accountType === 'free' && channel.freeMaxChars ? channel.freeMaxChars : channel.maxChars;
+}
+
+/**
+ * Last-resort compression when the model can't get under the limit:
+ * keep whole sentences if that keeps most of the message, otherwise cut at a word.
+ */
+export function truncateToLimit(text: string, maxChars: number): string {
+  const trimmed = text.trim();
+  if (trimmed.length <= maxChars) return trimmed;
+
+  const slice = trimmed.slice(0, maxChars);
+  const sentenceEnd = Math.max(slice.lastIndexOf('. '), slice.lastIndexOf('! '), slice.lastIndexOf('? '), slice.lastIndexOf('\n'));
+  if (sentenceEnd >= maxChars * 0.6) {
+    return slice.slice(0, sentenceEnd + 1).trim();
+  }
+
+  const wordEnd = slice.slice(0, maxChars - 1).lastIndexOf(' ');
+  return `${slice.slice(0, wordEnd > 0 ? wordEnd : maxChars - 1).trimEnd()}…`;
+}
@@ -1,64 +1,80 @@
 /**
  * Chrome Built-in AI Service
- * Wrapper for Chrome's Prompt API (Gemini Nano)
+ * Message generation on top of Chrome's Prompt API (Gemini Nano) or another configured provider
  */
 
-import { formatMessageGeneratorPrompt, formatPolishPrompt, type MessageGeneratorOptions, type UserProfile } from './prompts';
-
-// Type definitions for Chrome AI API (Chrome 128+)
-declare global {
-  // New API (Chrome 128+)
-  const LanguageModel: {
-    availability: () => Promise<'available' | 'downloadable' | 'no'>;
-    create: (options?: {
-      temperature?: number;
-      topK?: number;
-      signal?: AbortSignal;
-      systemPrompt?: string;
-      outputLanguage?: string;
-      initialPrompts?: Array<{ role: 'system' | 'user' | 'assistant'; content: string }>;
-      monitor?: (monitor: any) => void;
-    }) => Promise<AILanguageModel>;
-  };
-
-  // Legacy API (Chrome 127 and earlier) - kept for backward compatibility
-  interface Window {
-    ai?: {
-      languageModel?: {
-        capabilities: () => Promise<{
-          available: 'readily' | 'after-download' | 'no';
-          defaultTemperature?: number;
-          defaultTopK?: number;
-          maxTopK?: number;
-        }>;
-        create: (options?: {
-          temperature?: number;
-          topK?: number;
-          signal?: AbortSignal;
-          systemPrompt?: string;
-          initialPrompts?: Array<{ role: 'system' | 'user' | 'assistant'; content: string }>;
-          monitor?: (monitor: any) => void;
-        }) => Promise<AILanguageModel>;
-      };
-    };
-  }
+import {
+  formatAvoidRepetitionPrompt,
+  formatCompressPrompt,
+  formatFollowUpPrompt,
+  formatMessageGeneratorPrompt,
+  formatPolishPrompt,
+  formatProfileAnalysisPrompt,
+  formatRepairPrompt,
+  formatReplyPrompt,
+  MESSAGE_ANGLES,
+  type FollowUpOptions,
+  type MessageGeneratorOptions,
+  type ReplyOptions,
+  type UserProfile
+} from './prompts';
+import {
+  MESSAGE_DRAFT_SCHEMA,
+  MESSAGE_WITH_SUBJECTS_SCHEMA,
+  POLISHED_MESSAGE_SCHEMA,
+  PROFILE_INSIGHT_SCHEMA,
+  parseStructuredResponse,
+  countWords,
+  type JsonSchema
+} from './structured-output';
+import { getChannelLimit, MESSAGE_CHANNELS, truncateToLimit, type MessageChannelId } from './channels';
+import { buildProfileSections, fitProfileToBudget } from './profile-budget';
+import { extractPartialJsonString, readTextStream } from '../utils/stream-parser';
+import { ApiError, isAbortError, NetworkError, ValidationError } from '../utils/error-handlers';
+import { ChromeBuiltinProvider, type AIProvider, type ProviderAvailability } from './providers';
+import { daysBetween, findRepeatedPhrases } from './sequences';
+import type { StoredMessage } from './storage';
+import type { ConversationThread } from '../utils/linkedin-thread';
+
+export interface ProfilePosition {
+  title: string;
+  company?: string;
+  dateRange?: string; // As shown on the profile, e.g. "Jan 2020 - Present · 4 yrs"
+  startYear?: number;
+  endYear?: number; // Unset while the position is current
+  isCurrent: boolean;
+  location?: string;
+  description?: string;
+}
 
-  interface AILanguageModel {
-    prompt: (input: string, options?: { signal?: AbortSignal }) => Promise<string>;
-    promptStreaming: (input: string) => ReadableStream;
-    countPromptTokens: (input: string) => Promise<number>;
-    clone: () => Promise<AILanguageModel>;
-    destroy: () => void;
-  }
+export interface ProfileSchool {
+  name: string;
+  degree?: string;
+  dateRange?: string;
+  startYear?: number;
+  endYear?: number;
+}
+
+export interface ProfilePost {
+  text: string;
+  postedAgo?: string; // Relative age as LinkedIn shows it, e.g. "2w"
 }
 
 export interface TargetProfile {
   id: string;
   linkedinUrl: string;
   name: string;
+  headline?: string;
   currentJobTitle?: string;
   currentCompany?: string;
-  rawProfileText: string;
+  location?: string;
+  about?: string;
+  positions: ProfilePosition[]; // Newest first
+  schools: ProfileSchool[];
+  skills: string[];
+  posts: ProfilePost[];
+  followerCount?: number;
+  connectionCount?: number;
   extractedAt: Date;
 }
 
@@ -69,101 +85,140 @@ export interface MessageDraft {
   generatedAt: Date;
   tone: string;
   length: string;
+  angle?: string;
+  droppedSections?: string[]; // Profile sections left out to fit the model's context window
+  channel?: MessageChannelId;
+  truncated?: boolean; // Cut to the channel's character limit after the model overshot it
+  subjects?: string[]; // Subject line options, for channels that need one
+  subject?: string; // The chosen subject line
+}
+
+export interface ProfileInsight {
+  profileUrl: string;
+  careerArc: string;
+  currentFocus: string;
+  recentPosts: string[];
+  talkingPoints: string[]; // 3-5 suggestions the user can pick from
+  analyzedAt: Date;
 }
 
 export interface PolishedMessage {
   body: string;
   wordCount: number;
   changes: string;
+  truncated?: boolean;
+}
+
+export interface GenerationRequestOptions {
+  /**
+   * Cancel the request. The returned promise rejects with an AbortError.
+   */
+  signal?: AbortSignal;
+  /**
+   * Stream the response and report the message body decoded so far.
+   * The final result is still parsed and validated from the complete response.
+   */
+  onPartial?: (partialBody: string) => void;
 }
 
+export interface ModelDownloadState {
+  status: 'idle' | 'downloading' | 'complete' | 'error';
+  progress: number; // 0-1
+  updatedAt: string; // ISO string
+  error?: string;
+}
+
+export interface VariantRequestOptions extends GenerationRequestOptions {
+  /**
+   * Called as each variant finishes, before the next one starts
+   */
+  onVariant?: (draft: MessageDraft, index: number) => void;
+}
+
+// Context window assumed when the session doesn't report one
+const DEFAULT_INPUT_QUOTA = 4096;
+// Tokens kept free for the model's reply
+const RESPONSE_TOKEN_RESERVE = 768;
+// Times the model is asked to shorten a message before it is cut down instead
+const MAX_COMPRESS_ATTEMPTS = 2;
+
 class ChromeAIService {
+  private provider: AIProvider = new ChromeBuiltinProvider();
   private session: AILanguageModel | null = null;
   private isInitializing = false;
+  // Flipped off the first time the Prompt API rejects a response constraint
+  private supportsResponseConstraint = true;
+  private downloadState: ModelDownloadState = { status: 'idle', progress: 0, updatedAt: new Date().toISOString() };
+  private downloadListeners = new Set<(state: ModelDownloadState) => void>();
 
   /**
-   * Check if Chrome AI is available
+   * Use a different language model backend.
+   * The current session belongs to the old provider, so it is dropped.
    */
-  async checkAvailability(): Promise<{
-    available: boolean;
-    status: 'readily' | 'after-download' | 'no';
-    message: string;
-  }> {
-    try {
-      // Try new API first (Chrome 128+)
-      if (typeof LanguageModel !== 'undefined') {
-        const availability = await LanguageModel.availability();
-
-        if (availability === 'no') {
-          return {
-            available: false,
-            status: 'no',
-            message: 'Chrome AI is not available on this device.'
-          };
-        }
-
-        if (availability === 'downloadable') {
-          return {
-            available: true,
-            status: 'after-download',
-            message: 'Chrome AI model needs to be downloaded. Click Generate to start download (~22GB, 10-30 min).'
-          };
-        }
+  async setProvider(provider: AIProvider): Promise<void> {
+    await this.destroySession();
+    this.provider = provider;
+    this.supportsResponseConstraint = true;
+  }
 
-        return {
-          available: true,
-          status: 'readily',
-          message: 'Chrome AI is ready to use!'
-        };
-      }
+  /**
+   * Get the active language model backend
+   */
+  getProvider(): AIProvider {
+    return this.provider;
+  }
 
-      // Fallback to legacy API (Chrome 127 and earlier)
-      if (window.ai?.languageModel) {
-        const capabilities = await window.ai.languageModel.capabilities();
+  /**
+   * Check if the active provider is available
+   */
+  async checkAvailability(): Promise<ProviderAvailability> {
+    return this.provider.checkAvailability();
+  }
 
-        if (capabilities.available === 'no') {
-          return {
-            available: false,
-            status: 'no',
-            message: 'Chrome AI is not available on this device.'
-          };
-        }
+  /**
+   * Start (or re-attach to) the on-device model download.
+   * Creating a session is what triggers the download; the session is kept for later use.
+   * Chrome continues an interrupted download, so calling this again after the panel reopens resumes it.
+   */
+  async downloadModel(signal?: AbortSignal): Promise<void> {
+    // A session means the model is already on the device
+    if (this.session) {
+      this.setDownloadState({ status: 'complete', progress: 1, error: undefined });
+      return;
+    }
+    if (this.downloadState.status !== 'downloading') {
+      this.setDownloadState({ status: 'downloading', progress: 0, error: undefined });
+    }
+    await this.getSession(signal);
+  }
 
-        if (capabilities.available === 'after-download') {
-          return {
-            available: true,
-            status: 'after-download',
-            message: 'Chrome AI model needs to be downloaded. This will happen automatically on first use.'
-          };
-        }
+  /**
+   * Get the latest model download state
+   */
+  getDownloadState(): ModelDownloadState {
+    return this.downloadState;
+  }
 
-        return {
-          available: true,
-          status: 'readily',
-          message: 'Chrome AI is ready to use!'
-        };
-      }
+  /**
+   * Subscribe to model download state changes
+   * @returns Unsubscribe function
+   */
+  onDownloadStateChange(listener: (state: ModelDownloadState) => void): () => void {
+    this.downloadListeners.add(listener);
+    return () => this.downloadListeners.delete(listener);
+  }
 
-      // Neither API is available
-      return {
-        available: false,
-        status: 'no',
-        message: 'Chrome AI is not supported. Enable chrome://flags/#prompt-api-for-gemini-nano-multimodal-input and restart Chrome.'
-      };
-    } catch (error) {
-      console.error('Error checking AI availability:', error);
-      return {
-        available: false,
-        status: 'no',
-        message: 'Error checking AI availability. Make sure Chrome AI is enabled in chrome://flags'
-      };
-    }
+  private setDownloadState(patch: Partial<ModelDownloadState>): void {
+    this.downloadState = { ...this.downloadState, ...patch, updatedAt: new Date().toISOString() };
+    this.downloadListeners.forEach(listener => listener(this.downloadState));
   }
 
   /**
    * Create or get AI session
    */
-  private async getSession(): Promise<AILanguageModel> {
+  private async getSession(signal?: AbortSignal): Promise<AILanguageModel> {
+    signal?.throwIfAborted();
+
     if (this.session) {
       return this.session;
     }
@@ -171,47 +226,31 @@ class ChromeAIService {
     if (this.isInitializing) {
       // Wait for initialization to complete
       await new Promise(resolve => setTimeout(resolve, 100));
-      return this.getSession();
+      return this.getSession(signal);
     }
 
     this.isInitializing = true;
 
     try {
-      // Try new API first (Chrome 128+)
-      if (typeof LanguageModel !== 'undefined') {
-        this.session = await LanguageModel.create({
-          temperature: 0.8,
-          topK: 40,
-          outputLanguage: 'en', // Required in new API
-          monitor: (m) => {
-            m.addEventListener('downloadprogress', (e: any) => {
-              console.log(`AI Model downloading: ${Math.round(e.loaded * 100)}%`);
-            });
-          }
-        });
-
-        return this.session;
-      }
-
-      // Fallback to legacy API
-      if (window.ai?.languageModel) {
-        this.session = await window.ai.languageModel.create({
-          temperature: 0.8,
-          topK: 40,
-          monitor: (m) => {
-            m.addEventListener('downloadprogress', (e: any) => {
-              console.log(`AI Model downloading: ${Math.round(e.loaded * 100)}%`);
-            });
-          }
-        });
-
-        return this.session;
+      this.session = await this.provider.createSession({
+        temperature: 0.8,
+        topK: 40,
+        signal,
+        onDownloadProgress: (progress) => this.setDownloadState({ status: 'downloading', progress })
+      });
+
+      if (this.downloadState.status === 'downloading') {
+        this.setDownloadState({ status: 'complete', progress: 1 });
       }
 
-      throw new Error('Chrome AI is not available');
+      return this.session;
     } catch (error) {
+      if (this.downloadState.status === 'downloading' && !isAbortError(error)) {
+        this.setDownloadState({ status: 'error', error: error instanceof Error ? error.message : String(error) });
+      }
+      if (isAbortError(error) || error instanceof ApiError || error instanceof NetworkError) throw error;
       console.error('Error creating AI session:', error);
-      throw new Error('Failed to create AI session. Please check Chrome AI availability.');
+      throw new Error(`Failed to create AI session. Please check ${this.provider.label} availability.`);
     } finally {
       this.isInitializing = false;
     }
@@ -223,43 +262,298 @@ class ChromeAIService {
   async generateMessage(
     targetProfile: TargetProfile,
     userProfile: UserProfile,
-    options: MessageGeneratorOptions
+    options: MessageGeneratorOptions,
+    requestOptions: GenerationRequestOptions = {}
   ): Promise<MessageDraft> {
     try {
-      const session = await this.getSession();
+      const session = await this.getSession(requestOptions.signal);
+      return await this.generateWithSession(session, targetProfile, userProfile, options, requestOptions);
+    } catch (error: any) {
+      if (isAbortError(error)) return this.handleAbort(error);
+      console.error('Message generation failed:', error);
+      if (error instanceof ApiError || error instanceof NetworkError) throw error;
+      throw new Error(error.message || 'Failed to generate message');
+    }
+  }
 
-      const prompt = formatMessageGeneratorPrompt(
-        targetProfile.rawProfileText,
-        userProfile,
-        options
-      );
+  /**
+   * Generate several distinct drafts for the same profile.
+   * Each variant runs in its own clone of the session with a different opening angle,
+   * so earlier variants don't leak into later ones.
+   */
+  async generateVariants(
+    targetProfile: TargetProfile,
+    userProfile: UserProfile,
+    options: MessageGeneratorOptions,
+    count: number,
+    requestOptions: VariantRequestOptions = {}
+  ): Promise<MessageDraft[]> {
+    const { onVariant, ...generationOptions } = requestOptions;
+    const angles = MESSAGE_ANGLES.slice(0, Math.max(1, Math.min(count, MESSAGE_ANGLES.length)));
+    const drafts: MessageDraft[] = [];
 
-      const response = await session.prompt(prompt);
+    try {
+      const session = await this.getSession(requestOptions.signal);
+
+      for (const [index, angle] of angles.entries()) {
+        const variantSession = await session.clone({ signal: requestOptions.signal });
+
+        try {
+          const draft = await this.generateWithSession(
+            variantSession,
+            targetProfile,
+            userProfile,
+            { ...options, angle },
+            generationOptions
+          );
+          drafts.push(draft);
+          onVariant?.(draft, index);
+        } finally {
+          variantSession.destroy();
+        }
+      }
+
+      return drafts;
+    } catch (error: any) {
+      if (isAbortError(error)) return this.handleAbort(error);
+      console.error('Variant generation failed:', error);
+      if (error instanceof ApiError || error instanceof NetworkError) throw error;
+      throw new Error(error.message || 'Failed to generate message variants');
+    }
+  }
+
+  private async generateWithSession(
+    session: AILanguageModel,
+    targetProfile: TargetProfile,
+    userProfile: UserProfile,
+    options: MessageGeneratorOptions,
+    requestOptions: GenerationRequestOptions
+  ): Promise<MessageDraft> {
+    const { prompt, droppedSections } = await fitProfileToBudget(
+      buildProfileSections(targetProfile),
+      (profileText) => formatMessageGeneratorPrompt(profileText, userProfile, options),
+      (text) => this.measureTokens(session, text),
+      this.getPromptBudget(session)
+    );
+
+    if (droppedSections.length > 0) {
+      console.warn('Profile trimmed to fit context window, dropped:', droppedSections.map(section => section.label));
+    }
+
+    const maxSubjectChars = options.channel && MESSAGE_CHANNELS[options.channel].maxSubjectChars;
+    const parsedResponse = await this.promptStructured<{ body: string; wordCount: number; subjects?: string[] }>(
+      session,
+      prompt,
+      maxSubjectChars ? MESSAGE_WITH_SUBJECTS_SCHEMA : MESSAGE_DRAFT_SCHEMA,
+      requestOptions
+    );
+    const subjects = maxSubjectChars
+      ? parsedResponse.subjects!.map(subject => truncateToLimit(subject, maxSubjectChars))
+      : undefined;
+
+    const { body, truncated } = await this.enforceCharLimit(session, parsedResponse.body, options, requestOptions);
+
+    return {
+      id: `draft_${Date.now()}`,
+      body,
+      wordCount: body === parsedResponse.body ? parsedResponse.wordCount : countWords(body),
+      generatedAt: new Date(),
+      tone: options.tone,
+      length: options.length,
+      angle: options.angle?.label,
+      droppedSections: droppedSections.map(section => section.label),
+      channel: options.channel,
+      truncated,
+      subjects,
+      subject: subjects?.[0]
+    };
+  }
+
+  /**
+   * Summarise what the model reads from a profile: career arc, current focus,
+   * recent posts and suggested talking points.
+   * Runs in a clone of the session so the analysis doesn't colour later messages.
+   */
+  async analyzeProfile(
+    targetProfile: TargetProfile,
+    requestOptions: GenerationRequestOptions = {}
+  ): Promise<ProfileInsight> {
+    try {
+      const session = await this.getSession(requestOptions.signal);
+      const analysisSession = await session.clone({ signal: requestOptions.signal });
 
-      // Parse the JSON response
-      let parsedResponse;
       try {
-        // Remove markdown code blocks if present
-        const cleanedResponse = response.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
-        parsedResponse = JSON.parse(cleanedResponse);
-      } catch (e) {
-        console.error('Failed to parse AI response:', response);
-        throw new Error('Failed to parse AI response. Please try again.');
+        const { prompt } = await fitProfileToBudget(
+          buildProfileSections(targetProfile),
+          formatProfileAnalysisPrompt,
+          (text) => this.measureTokens(analysisSession, text),
+          this.getPromptBudget(analysisSession)
+        );
+
+        const parsedResponse = await this.promptStructured<Omit<ProfileInsight, 'profileUrl' | 'analyzedAt'>>(
+          analysisSession,
+          prompt,
+          PROFILE_INSIGHT_SCHEMA,
+          { signal: requestOptions.signal }
+        );
+
+        return {
+          profileUrl: targetProfile.linkedinUrl,
+          careerArc: parsedResponse.careerArc,
+          currentFocus: parsedResponse.currentFocus,
+          recentPosts: parsedResponse.recentPosts,
+          talkingPoints: parsedResponse.talkingPoints,
+          analyzedAt: new Date()
+        };
+      } finally {
+        analysisSession.destroy();
       }
+    } catch (error: any) {
+      if (isAbortError(error)) return this.handleAbort(error);
+      console.error('Profile analysis failed:', error);
+      if (error instanceof ApiError || error instanceof NetworkError) throw error;
+      throw new Error(error.message || 'Failed to analyze profile');
+    }
+  }
 
-      const wordCount = parsedResponse.wordCount || parsedResponse.body.split(/\s+/).length;
+  /**
+   * Write the next touch in a sequence, based on the messages already sent to this person.
+   * Runs in a clone of the session; if the model recycles wording from earlier messages,
+   * it is asked once to rewrite those phrases.
+   * @param targetProfile Fresh profile details when available, otherwise only the history is used
+   * @param previousMessages Messages already sent to this profile, in any order
+   */
+  async generateFollowUp(
+    targetProfile: TargetProfile | null,
+    userProfile: UserProfile,
+    previousMessages: StoredMessage[],
+    options: FollowUpOptions,
+    requestOptions: GenerationRequestOptions = {}
+  ): Promise<MessageDraft> {
+    try {
+      if (previousMessages.length === 0) {
+        throw new Error('There is no earlier message to follow up on.');
+      }
 
-      return {
-        id: `draft_${Date.now()}`,
-        body: parsedResponse.body,
-        wordCount,
-        generatedAt: new Date(),
-        tone: options.tone,
-        length: options.length
-      };
+      const now = new Date();
+      const sorted = [...previousMessages].sort((a, b) => a.generatedAt.localeCompare(b.generatedAt));
+      const thread = sorted.map(message => ({ body: message.body, daysAgo: daysBetween(message.generatedAt, now) }));
+      const recipientName = targetProfile?.name || sorted[0].targetProfileName;
+
+      const session = await this.getSession(requestOptions.signal);
+      const followUpSession = await session.clone({ signal: requestOptions.signal });
+
+      try {
+        const buildPrompt = (profileText: string) =>
+          formatFollowUpPrompt(recipientName, profileText, thread, userProfile, options);
+        const { prompt } = targetProfile
+          ? await fitProfileToBudget(
+              buildProfileSections(targetProfile),
+              buildPrompt,
+              (text) => this.measureTokens(followUpSession, text),
+              this.getPromptBudget(followUpSession)
+            )
+          : { prompt: buildPrompt('') };
+
+        let parsedResponse = await this.promptStructured<{ body: string; wordCount: number }>(
+          followUpSession,
+          prompt,
+          MESSAGE_DRAFT_SCHEMA,
+          requestOptions
+        );
+
+        const repeated = findRepeatedPhrases(parsedResponse.body, thread.map(message => message.body));
+        if (repeated.length > 0) {
+          console.warn('Follow-up repeats earlier wording, asking for a rewrite:', repeated);
+          parsedResponse = await this.promptStructured<{ body: string; wordCount: number }>(
+            followUpSession,
+            formatAvoidRepetitionPrompt(parsedResponse.body, repeated),
+            MESSAGE_DRAFT_SCHEMA,
+            requestOptions
+          );
+        }
+
+        const { body, truncated } = await this.enforceCharLimit(followUpSession, parsedResponse.body, options, requestOptions);
+
+        return {
+          id: `draft_${Date.now()}`,
+          body,
+          wordCount: body === parsedResponse.body ? parsedResponse.wordCount : countWords(body),
+          generatedAt: now,
+          tone: options.tone,
+          length: options.length,
+          channel: options.channel,
+          truncated
+        };
+      } finally {
+        followUpSession.destroy();
+      }
     } catch (error: any) {
-      console.error('Message generation failed:', error);
-      throw new Error(error.message || 'Failed to generate message');
+      if (isAbortError(error)) return this.handleAbort(error);
+      console.error('Follow-up generation failed:', error);
+      if (error instanceof ApiError || error instanceof NetworkError) throw error;
+      throw new Error(error.message || 'Failed to generate follow-up');
+    }
+  }
+
+  /**
+   * Draft a reply in a conversation the sender started.
+   * Runs in a clone of the session. Long threads lose their oldest messages first;
+   * the latest message is always kept.
+   */
+  async generateReply(
+    thread: ConversationThread,
+    userProfile: UserProfile,
+    options: ReplyOptions,
+    requestOptions: GenerationRequestOptions = {}
+  ): Promise<MessageDraft> {
+    try {
+      if (!thread.messages.some(message => !message.isSelf)) {
+        throw new Error('There is no reply to respond to yet.');
+      }
+
+      const recipientName = thread.participants.map(participant => participant.name).join(', ') ||
+        thread.messages.find(message => !message.isSelf)!.senderName;
+
+      const session = await this.getSession(requestOptions.signal);
+      const replySession = await session.clone({ signal: requestOptions.signal });
+
+      try {
+        const budget = this.getPromptBudget(replySession);
+        let messages = thread.messages;
+        let prompt = formatReplyPrompt(recipientName, messages, userProfile, options);
+        while (messages.length > 1 && (await this.measureTokens(replySession, prompt)) > budget) {
+          messages = messages.slice(1);
+          prompt = formatReplyPrompt(recipientName, messages, userProfile, options);
+        }
+
+        const parsedResponse = await this.promptStructured<{ body: string; wordCount: number }>(
+          replySession,
+          prompt,
+          MESSAGE_DRAFT_SCHEMA,
+          requestOptions
+        );
+
+        const { body, truncated } = await this.enforceCharLimit(replySession, parsedResponse.body, options, requestOptions);
+
+        return {
+          id: `draft_${Date.now()}`,
+          body,
+          wordCount: body === parsedResponse.body ? parsedResponse.wordCount : countWords(body),
+          generatedAt: new Date(),
+          tone: options.tone,
+          length: options.length,
+          channel: options.channel,
+          truncated
+        };
+      } finally {
+        replySession.destroy();
+      }
+    } catch (error: any) {
+      if (isAbortError(error)) return this.handleAbort(error);
+      console.error('Reply generation failed:', error);
+      if (error instanceof ApiError || error instanceof NetworkError) throw error;
+      throw new Error(error.message || 'Failed to generate reply');
     }
   }
 
@@ -269,33 +563,32 @@ class ChromeAIService {
   async polishMessage(
     originalMessage: string,
     userFeedback: string,
-    options: Pick<MessageGeneratorOptions, 'tone' | 'length'>
+    options: Pick<MessageGeneratorOptions, 'tone' | 'length' | 'channel' | 'accountType'>,
+    requestOptions: GenerationRequestOptions = {}
   ): Promise<PolishedMessage> {
     try {
-      const session = await this.getSession();
+      const session = await this.getSession(requestOptions.signal);
 
       const prompt = formatPolishPrompt(originalMessage, userFeedback, options);
-      const response = await session.prompt(prompt);
-
-      // Parse the JSON response
-      let parsedResponse;
-      try {
-        const cleanedResponse = response.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
-        parsedResponse = JSON.parse(cleanedResponse);
-      } catch (e) {
-        console.error('Failed to parse AI response:', response);
-        throw new Error('Failed to parse AI response. Please try again.');
-      }
+      const parsedResponse = await this.promptStructured<{ body: string; wordCount: number; changes: string }>(
+        session,
+        prompt,
+        POLISHED_MESSAGE_SCHEMA,
+        requestOptions
+      );
 
-      const wordCount = parsedResponse.wordCount || parsedResponse.body.split(/\s+/).length;
+      const { body, truncated } = await this.enforceCharLimit(session, parsedResponse.body, options, requestOptions);
 
       return {
-        body: parsedResponse.body,
-        wordCount,
-        changes: parsedResponse.changes || 'Message refined based on your feedback'
+        body,
+        wordCount: body === parsedResponse.body ? parsedResponse.wordCount : countWords(body),
+        changes: parsedResponse.changes || 'Message refined based on your feedback',
+        truncated
       };
     } catch (error: any) {
+      if (isAbortError(error)) return this.handleAbort(error);
       console.error('Message polishing failed:', error);
+      if (error instanceof ApiError || error instanceof NetworkError) throw error;
       throw new Error(error.message || 'Failed to polish message');
     }
   }
@@ -306,11 +599,117 @@ class ChromeAIService {
   async regenerateMessage(
     targetProfile: TargetProfile,
     userProfile: UserProfile,
-    options: MessageGeneratorOptions
+    options: MessageGeneratorOptions,
+    requestOptions: GenerationRequestOptions = {}
   ): Promise<MessageDraft> {
     // For regeneration, we'll create a new session to get fresh results
     await this.destroySession();
-    return this.generateMessage(targetProfile, userProfile, options);
+    return this.generateMessage(targetProfile, userProfile, options, requestOptions);
+  }
+
+  /**
+   * Keep a message within its channel's character limit: ask the model to shorten it,
+   * and cut it down at a sentence or word boundary if it still overshoots
+   */
+  private async enforceCharLimit(
+    session: AILanguageModel,
+    body: string,
+    options: Pick<MessageGeneratorOptions, 'channel' | 'accountType'>,
+    requestOptions: GenerationRequestOptions
+  ): Promise<{ body: string; truncated?: boolean }> {
+    if (!options.channel) return { body };
+
+    const maxChars = getChannelLimit(options.channel, options.accountType);
+    let current = body;
+
+    for (let attempt = 0; attempt < MAX_COMPRESS_ATTEMPTS && current.length > maxChars; attempt++) {
+      console.warn(`Message is ${current.length} characters, over the ${maxChars} limit; asking for a shorter one`);
+      const compressed = await this.promptStructured<{ body: string }>(
+        session,
+        formatCompressPrompt(current, maxChars, MESSAGE_CHANNELS[options.channel].label),
+        MESSAGE_DRAFT_SCHEMA,
+        requestOptions
+      );
+      current = compressed.body;
+    }
+
+    if (current.length <= maxChars) return { body: current, truncated: false };
+    return { body: truncateToLimit(current, maxChars), truncated: true };
+  }
+
+  /**
+   * Prompt for a JSON response matching `schema`.
+   * The schema is enforced by the Prompt API where supported; otherwise the response is
+   * extracted tolerantly, and one repair re-prompt is made if it still doesn't validate.
+   */
+  private async promptStructured<T>(
+    session: AILanguageModel,
+    prompt: string,
+    schema: JsonSchema,
+    requestOptions: GenerationRequestOptions
+  ): Promise<T> {
+    const response = await this.runPrompt(session, prompt, requestOptions, schema);
+
+    try {
+      return parseStructuredResponse<T>(response, schema);
+    } catch (error) {
+      if (!(error instanceof ValidationError)) throw error;
+      console.warn('AI response did not match schema, asking for a repair:', error.message);
+
+      const repairPrompt = formatRepairPrompt(response, error.message, schema);
+      const repaired = await this.runPrompt(session, repairPrompt, { signal: requestOptions.signal }, schema);
+
+      try {
+        return parseStructuredResponse<T>(repaired, schema);
+      } catch (repairError) {
+        console.error('Failed to parse AI response:', repaired);
+        throw new Error('Failed to parse AI response. Please try again.');
+      }
+    }
+  }
+
+  /**
+   * Run a prompt, streaming it when the caller wants partial results
+   */
+  private async runPrompt(
+    session: AILanguageModel,
+    prompt: string,
+    requestOptions: GenerationRequestOptions,
+    schema?: JsonSchema
+  ): Promise<string> {
+    const { signal, onPartial } = requestOptions;
+    const promptOptions: AIPromptOptions = { signal };
+    if (schema && this.supportsResponseConstraint) {
+      promptOptions.responseConstraint = schema;
+    }
+
+    try {
+      if (!onPartial) {
+        return await session.prompt(prompt, promptOptions);
+      }
+
+      return await readTextStream(session.promptStreaming(prompt, promptOptions), (text) => {
+        const partialBody = extractPartialJsonString(text, 'body');
+        if (partialBody !== null) {
+          onPartial(partialBody);
+        }
+      });
+    } catch (error) {
+      if (promptOptions.responseConstraint && isUnsupportedConstraintError(error)) {
+        console.warn('Response constraints are not supported, falling back to prompt-only JSON');
+        this.supportsResponseConstraint = false;
+        return this.runPrompt(session, prompt, requestOptions);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Drop the session after a cancelled request so the next one starts clean, then rethrow
+   */
+  private async handleAbort(error: unknown): Promise<never> {
+    await this.destroySession();
+    throw error;
   }
 
   /**
@@ -333,12 +732,37 @@ class ChromeAIService {
   async countTokens(text: string): Promise<number> {
     try {
       const session = await this.getSession();
-      return await session.countPromptTokens(text);
+      return await this.measureTokens(session, text);
     } catch (error) {
       console.error('Error counting tokens:', error);
       return 0;
     }
   }
+
+  private async measureTokens(session: AILanguageModel, text: string): Promise<number> {
+    if (session.measureInputUsage) {
+      return session.measureInputUsage(text);
+    }
+    return session.countPromptTokens(text);
+  }
+
+  /**
+   * Tokens a single prompt may use, leaving room for the reply and whatever the
+   * session already holds, such as its system prompt
+   */
+  private getPromptBudget(session: AILanguageModel): number {
+    const quota = session.inputQuota ?? session.maxTokens ?? DEFAULT_INPUT_QUOTA;
+    return quota - (session.inputUsage ?? 0) - RESPONSE_TOKEN_RESERVE;
+  }
+}
+
+/**
+ * Older Prompt API builds reject the responseConstraint option instead of ignoring it,
+ * either as NotSupportedError or as a TypeError naming the option
+ */
+function isUnsupportedConstraintError(error: unknown): boolean {
+  if (error instanceof DOMException && error.name === 'NotSupportedError') return true;
+  return error instanceof TypeError && /responseConstraint/i.test(error.message);
 }
 
 // Export singleton instance
@@ -0,0 +1,202 @@
+/**
+ * Common Ground
+ * Compare the sender's structured profile with the target profile and rank what they share
+ */
+
+import { parseDateRange } from '../utils/linkedin-selectors';
+import type { TargetProfile } from './chrome-ai';
+
+export interface SenderHistoryEntry {
+  name: string; // Employer or school
+  startYear?: number;
+  endYear?: number; // Unset while current
+}
+
+export interface SenderProfile {
+  location?: string;
+  employers: SenderHistoryEntry[];
+  schools: SenderHistoryEntry[];
+  skills: string[];
+  industries: string[];
+}
+
+export type CommonGroundKind = 'employer' | 'school' | 'location' | 'industry' | 'skill';
+
+export interface CommonGround {
+  kind: CommonGroundKind;
+  label: string; // What is shared, e.g. the company name
+  detail: string; // One line for the prompt and the side panel
+  overlapYears?: [number, number]; // Years both were there at the same time
+  score: number; // Higher is stronger
+}
+
+// Base scores: shared time at the same place beats a shared place, which beats shared interests
+const SCORES: Record<CommonGroundKind, number> = {
+  employer: 70,
+  school: 60,
+  location: 40,
+  industry: 30,
+  skill: 10
+};
+const OVERLAP_BONUS = 30;
+const MAX_SKILLS = 3;
+
+export function createEmptySenderProfile(): SenderProfile {
+  return { employers: [], schools: [], skills: [], industries: [] };
+}
+
+/**
+ * Find and rank everything the sender and target have in common, strongest first
+ */
+export function findCommonGround(
+  sender: SenderProfile | undefined,
+  target: TargetProfile,
+  currentYear = new Date().getFullYear()
+): CommonGround[] {
+  if (!sender) return [];
+
+  const matches: CommonGround[] = [];
+
+  for (const employer of sender.employers) {
+    const positions = target.positions.filter(position => position.company && sameName(position.company, employer.name));
+    if (positions.length === 0) continue;
+
+    const overlap = positions
+      .map(position => overlapYears(
+        employer,
+        { startYear: position.startYear, endYear: position.isCurrent ? undefined : position.endYear ?? position.startYear },
+        currentYear
+      ))
+      .find(Boolean);
+
+    matches.push(toMatch('employer', positions[0].company!, overlap, 'Both worked at'));
+  }
+
+  for (const school of sender.schools) {
+    const targetSchool = target.schools.find(candidate => sameName(candidate.name, school.name));
+    if (!targetSchool) continue;
+
+    const overlap = overlapYears(
+      school,
+      { startYear: targetSchool.startYear, endYear: targetSchool.endYear ?? targetSchool.startYear },
+      currentYear
+    );
+    matches.push(toMatch('school', targetSchool.name, overlap, 'Both studied at'));
+  }
+
+  const targetLocations = [target.location, ...target.positions.filter(position => position.isCurrent).map(position => position.location)];
+  if (sender.location && targetLocations.some(location => location && sameLocation(location, sender.location!))) {
+    matches.push({
+      kind: 'location',
+      label: sender.location,
+      detail: `Both based in ${sender.location}`,
+      score: SCORES.location
+    });
+  }
+
+  const targetText = normalize([
+    target.headline,
+    target.about,
+    ...target.positions.flatMap(position => [position.title, position.company, position.description])
+  ].filter(Boolean).join(' '));
+  for (const industry of sender.industries) {
+    if (normalize(industry) && targetText.includes(normalize(industry))) {
+      matches.push({ kind: 'industry', label: industry, detail: `Both work in ${industry}`, score: SCORES.industry });
+    }
+  }
+
+  const targetSkills = target.skills.map(normalize);
+  sender.skills
+    .filter(skill => targetSkills.includes(normalize(skill)))
+    .slice(0, MAX_SKILLS)
+    .forEach(skill => {
+      matches.push({ kind: 'skill', label: skill, detail: `Both list ${skill} as a skill`, score: SCORES.skill });
+    });
+
+  return matches.sort((a, b) => b.score - a.score);
+}
+
+function toMatch(
+  kind: 'employer' | 'school',
+  label: string,
+  overlap: [number, number] | undefined,
+  verb: string
+): CommonGround {
+  if (!overlap) {
+    return { kind, label, detail: `${verb} ${label}`, score: SCORES[kind] };
+  }
+
+  const [from, to] = overlap;
+  return {
+    kind,
+    label,
+    detail: `${verb} ${label} at the same time (${from === to ? from : `${from}-${to}`})`,
+    overlapYears: overlap,
+    // Longer shared tenure ranks higher
+    score: SCORES[kind] + OVERLAP_BONUS + (to - from)
+  };
+}
+
+/**
+ * Years two tenures have in common. Unknown start years mean there's nothing to compare.
+ */
+export function overlapYears(
+  a: { startYear?: number; endYear?: number },
+  b: { startYear?: number; endYear?: number },
+  currentYear = new Date().getFullYear()
+): [number, number] | undefined {
+  if (a.startYear === undefined || b.startYear === undefined) return undefined;
+
+  const from = Math.max(a.startYear, b.startYear);
+  const to = Math.min(a.endYear ?? currentYear, b.endYear ?? currentYear);
+  return from <= to ? [from, to] : undefined;
+}
+
+const NAME_SUFFIXES = /\b(inc|llc|ltd|limited|corp|corporation|co|gmbh|plc|group)\b/g;
+
+function normalize(text: string | undefined): string {
+  return (text || '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function sameName(a: string, b: string): boolean {
+  const left = normalize(a).replace(NAME_SUFFIXES, '').trim();
+  const right = normalize(b).replace(NAME_SUFFIXES, '').trim();
+  if (!left || !right) return false;
+  if (left === right) return true;
+
+  // "Google" matches "Google Cloud", but short names must match exactly
+  const [shorter, longer] = left.length < right.length ? [left, right] : [right, left];
+  return shorter.length >= 4 && ` ${longer} `.includes(` ${shorter} `);
+}
+
+function sameLocation(a: string, b: string): boolean {
+  // Compare cities: "London, England, United Kingdom" vs "London Area"
+  const city = (location: string) => normalize(location.split(',')[0]).replace(/\b(area|greater|metropolitan|bay)\b/g, '').trim();
+  return Boolean(city(a)) && city(a) === city(b);
+}
+
+/**
+ * Parse one line of the sender's history, e.g. "Acme Corp, 2018 - 2021" or "Acme Corp, 2022 - Present"
+ */
+export function parseHistoryLine(line: string): SenderHistoryEntry | null {
+  const match = line.match(/^(.*?)(?:[,(]\s*((?:19|20)\d{2}.*?))?\)?\s*$/);
+  const name = match?.[1].trim();
+  if (!name) return null;
+
+  if (!match?.[2]) return { name };
+  const { startYear, endYear } = parseDateRange(match[2]);
+  return { name, startYear, endYear };
+}
+
+/**
+ * Render a history entry back into the line format `parseHistoryLine` reads
+ */
+export function formatHistoryLine(entry: SenderHistoryEntry): string {
+  if (entry.startYear === undefined) return entry.name;
+  if (entry.endYear === undefined) return `${entry.name}, ${entry.startYear} - Present`;
+  return `${entry.name}, ${entry.startYear} - ${entry.endYear}`;
+}
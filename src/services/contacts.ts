@@ -0,0 +1,131 @@
+/**
+ * Contacts
+ * One record per person reached out to, with a snapshot of their profile and where they are in the pipeline
+ */
+
+import type { StoredMessage } from './storage';
+
+export type PipelineStage = 'drafted' | 'sent' | 'replied' | 'meeting' | 'closed' | 'no_response';
+
+export const PIPELINE_STAGES: { id: PipelineStage; label: string }[] = [
+  { id: 'drafted', label: 'Drafted' },
+  { id: 'sent', label: 'Sent' },
+  { id: 'replied', label: 'Replied' },
+  { id: 'meeting', label: 'Meeting' },
+  { id: 'closed', label: 'Closed' },
+  { id: 'no_response', label: 'No response' }
+];
+
+/**
+ * The profile as it looked when the contact was last messaged
+ */
+export interface ContactSnapshot {
+  name: string;
+  headline?: string;
+  jobTitle?: string;
+  company?: string;
+  location?: string;
+  capturedAt: string; // ISO string
+}
+
+export interface Contact {
+  id: string;
+  profileUrl: string;
+  snapshot: ContactSnapshot;
+  stage: PipelineStage;
+  stageUpdatedAt: string; // ISO string
+  tags: string[];
+  notes: string;
+  messageIds: string[]; // Linked stored messages, oldest first
+  createdAt: string; // ISO string
+}
+
+export function createContact(profileUrl: string, snapshot: ContactSnapshot, now: string = new Date().toISOString()): Contact {
+  return {
+    id: `contact_${btoa(encodeURIComponent(profileUrl)).replace(/=+$/, '')}`,
+    profileUrl,
+    snapshot,
+    stage: 'drafted',
+    stageUpdatedAt: now,
+    tags: [],
+    notes: '',
+    messageIds: [],
+    createdAt: now
+  };
+}
+
+/**
+ * Move a contact forward to `stage`, never back: a reply to someone already in a meeting stays a meeting.
+ * Use a plain update to move a contact back by hand.
+ */
+export function advanceStage(contact: Contact, stage: PipelineStage, now: string = new Date().toISOString()): Contact {
+  const order = PIPELINE_STAGES.map(entry => entry.id);
+  if (order.indexOf(stage) <= order.indexOf(contact.stage)) return contact;
+  return { ...contact, stage, stageUpdatedAt: now };
+}
+
+export type LinkableMessage = Pick<
+  StoredMessage,
+  'id' | 'generatedAt' | 'targetProfileUrl' | 'targetProfileName' | 'targetJobTitle' | 'targetCompany' | 'replyToThreadUrl'
+>;
+
+/**
+ * Whether a message has a profile to file it under. Replies in a thread that doesn't
+ * link the other person's profile target the thread itself, which isn't a contact.
+ */
+export function hasContactProfile(message: Pick<StoredMessage, 'targetProfileUrl' | 'replyToThreadUrl'>): boolean {
+  return message.targetProfileUrl !== message.replyToThreadUrl;
+}
+
+/**
+ * Record a message on its recipient's contact, creating the contact if there is none yet.
+ * The snapshot takes the message's details; replies move the contact to "replied".
+ * @param profile Extra profile details for the snapshot
+ */
+export function linkMessage(existing: Contact | null, message: LinkableMessage, profile: Partial<ContactSnapshot> = {}): Contact {
+  const snapshot: ContactSnapshot = {
+    ...existing?.snapshot,
+    name: message.targetProfileName || existing?.snapshot.name || '',
+    ...(message.targetJobTitle && { jobTitle: message.targetJobTitle }),
+    ...(message.targetCompany && { company: message.targetCompany }),
+    ...profile,
+    capturedAt: message.generatedAt
+  };
+
+  let contact: Contact = existing
+    ? { ...existing, snapshot }
+    : createContact(message.targetProfileUrl, snapshot, message.generatedAt);
+  contact = { ...contact, messageIds: [...contact.messageIds, message.id] };
+  if (message.replyToThreadUrl) {
+    contact = advanceStage(contact, 'replied', message.generatedAt);
+  }
+  return contact;
+}
+
+/**
+ * Build contacts from a message history saved before contacts existed
+ * @param messages Newest first, as stored
+ * @returns The contacts, and the messages with their contact ids filled in
+ */
+export function buildContactsFromMessages(messages: StoredMessage[]): { contacts: Contact[]; messages: StoredMessage[] } {
+  const contacts = new Map<string, Contact>();
+
+  // Oldest first, so each snapshot ends up with the latest details
+  for (const message of [...messages].reverse()) {
+    if (!hasContactProfile(message)) continue;
+    contacts.set(message.targetProfileUrl, linkMessage(contacts.get(message.targetProfileUrl) || null, message));
+  }
+
+  return {
+    contacts: [...contacts.values()].reverse(),
+    messages: messages.map(message => ({ ...message, contactId: contacts.get(message.targetProfileUrl)?.id }))
+  };
+}
+
+/**
+ * Split a comma-separated tag list, dropping blanks and duplicates
+ */
+export function parseTags(text: string): string[] {
+  const tags = text.split(',').map(tag => tag.trim()).filter(Boolean);
+  return tags.filter((tag, index) => tags.findIndex(other => other.toLowerCase() === tag.toLowerCase()) === index);
+}
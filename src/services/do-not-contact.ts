@@ -0,0 +1,254 @@
+/**
+ * Do-not-contact List
+ * People who asked not to be contacted and companies to skip, such as existing customers.
+ * Entries match by profile URL, by name and company, or by a company domain pattern.
+ */
+
+import type { TargetProfile } from './chrome-ai';
+import type { ContactSnapshot } from './contacts';
+import { parseCsvRecords } from '../utils/csv';
+
+export type DoNotContactKind = 'profile_url' | 'name_company' | 'company_domain';
+
+export interface DoNotContactEntry {
+  id: string;
+  kind: DoNotContactKind;
+  profileUrl?: string; // profile_url
+  name?: string; // name_company
+  company?: string; // name_company
+  domainPattern?: string; // company_domain, e.g. "acme.com" or "*.acme.co.uk"
+  reason?: string;
+  addedAt: string; // ISO string
+}
+
+export type NewDoNotContactEntry = Omit<DoNotContactEntry, 'id' | 'addedAt'>;
+
+export interface DoNotContactMatch {
+  entry: DoNotContactEntry;
+  description: string; // What matched, for the warning shown to the user
+}
+
+export const DO_NOT_CONTACT_KIND_LABELS: Record<DoNotContactKind, string> = {
+  profile_url: 'Profile URL',
+  name_company: 'Name and company',
+  company_domain: 'Company domain'
+};
+
+const COMPANY_SUFFIXES = /\b(inc|llc|ltd|limited|gmbh|corp|corporation|co|plc|sa|ag|bv)\b\.?/g;
+const DOMAIN_IN_TEXT = /\b(?:[a-z0-9-]+\.)+[a-z]{2,}\b/g;
+
+const normalizeText = (text: string): string =>
+  text.toLowerCase().normalize('NFKD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-z0-9\s]/g, ' ').replace(/\s+/g, ' ').trim();
+
+const normalizeCompany = (company: string): string =>
+  normalizeText(company).replace(COMPANY_SUFFIXES, '').replace(/\s+/g, ' ').trim();
+
+/**
+ * Lower-cases a profile URL and drops the scheme, "www.", query, hash and trailing slash
+ */
+export function normalizeEntryUrl(url: string): string {
+  return url
+    .trim()
+    .toLowerCase()
+    .replace(/^https?:\/\//, '')
+    .replace(/^www\./, '')
+    .replace(/[?#].*$/, '')
+    .replace(/\/+$/, '');
+}
+
+/**
+ * Lower-cases a domain pattern and drops any scheme, path or leading "@"
+ */
+export function normalizeDomainPattern(pattern: string): string {
+  return pattern
+    .trim()
+    .toLowerCase()
+    .replace(/^https?:\/\//, '')
+    .replace(/^@/, '')
+    .replace(/^www\./, '')
+    .replace(/\/.*$/, '');
+}
+
+/**
+ * "acme.com" and "*.acme.com" both cover the domain and its subdomains
+ */
+function domainMatches(pattern: string, domain: string): boolean {
+  const base = pattern.replace(/^\*\./, '');
+  return domain === base || domain.endsWith(`.${base}`);
+}
+
+/**
+ * The part of a domain that names the company: "acme" for "mail.acme.co.uk"
+ */
+function domainStem(pattern: string): string {
+  const labels = pattern.replace(/^\*\.?/, '').split('.').filter(label => label && label !== '*');
+  if (labels.length <= 1) return labels[0] || '';
+  const secondLevel = labels.length >= 3 && labels[labels.length - 2].length <= 3;
+  return labels[labels.length - (secondLevel ? 3 : 2)];
+}
+
+function getCompanies(profile: TargetProfile, currentOnly: boolean): string[] {
+  const positions = currentOnly ? profile.positions.filter(position => position.isCurrent) : profile.positions;
+  return [profile.currentCompany, ...positions.map(position => position.company)].filter((company): company is string =>
+    Boolean(company)
+  );
+}
+
+function findDomains(profile: TargetProfile): string[] {
+  const text = [profile.headline, profile.about, ...profile.positions.map(position => position.description)]
+    .filter(Boolean)
+    .join(' ')
+    .toLowerCase();
+  return Array.from(new Set(text.match(DOMAIN_IN_TEXT) || [])).map(normalizeDomainPattern);
+}
+
+function matchEntry(entry: DoNotContactEntry, profile: TargetProfile): string | null {
+  switch (entry.kind) {
+    case 'profile_url':
+      return entry.profileUrl && normalizeEntryUrl(entry.profileUrl) === normalizeEntryUrl(profile.linkedinUrl)
+        ? 'profile URL'
+        : null;
+
+    case 'name_company': {
+      if (!entry.name || normalizeText(entry.name) !== normalizeText(profile.name)) return null;
+      if (!entry.company) return 'name';
+      const company = normalizeCompany(entry.company);
+      return getCompanies(profile, true).some(current => normalizeCompany(current) === company)
+        ? 'name and company'
+        : null;
+    }
+
+    case 'company_domain': {
+      const pattern = entry.domainPattern && normalizeDomainPattern(entry.domainPattern);
+      if (!pattern) return null;
+      if (findDomains(profile).some(domain => domainMatches(pattern, domain))) return `domain ${pattern}`;
+
+      // Profiles rarely show a domain, so also compare its stem with the current company's name
+      const stem = domainStem(pattern).replace(/[^a-z0-9]/g, '');
+      const companyMatches = getCompanies(profile, true).some(
+        company => normalizeCompany(company).replace(/\s/g, '') === stem
+      );
+      return stem && companyMatches ? `company ${pattern}` : null;
+    }
+  }
+}
+
+/**
+ * The first entry that covers the profile, if any
+ */
+export function findDoNotContactMatch(entries: DoNotContactEntry[], profile: TargetProfile): DoNotContactMatch | null {
+  for (const entry of entries) {
+    const matched = matchEntry(entry, profile);
+    if (matched) return { entry, description: matched };
+  }
+  return null;
+}
+
+/**
+ * The first entry that covers a saved contact, going by what their snapshot recorded
+ */
+export function findContactDoNotContactMatch(
+  entries: DoNotContactEntry[],
+  profileUrl: string,
+  snapshot: Pick<ContactSnapshot, 'name'> & Partial<ContactSnapshot>
+): DoNotContactMatch | null {
+  return findDoNotContactMatch(entries, {
+    id: profileUrl,
+    linkedinUrl: profileUrl,
+    name: snapshot.name,
+    headline: snapshot.headline,
+    currentJobTitle: snapshot.jobTitle,
+    currentCompany: snapshot.company,
+    positions: [],
+    schools: [],
+    skills: [],
+    posts: [],
+    extractedAt: new Date(snapshot.capturedAt || Date.now())
+  });
+}
+
+/**
+ * A short label for an entry in lists and warnings
+ */
+export function describeDoNotContactEntry(entry: NewDoNotContactEntry): string {
+  switch (entry.kind) {
+    case 'profile_url':
+      return entry.profileUrl || '';
+    case 'name_company':
+      return [entry.name, entry.company].filter(Boolean).join(' at ');
+    case 'company_domain':
+      return entry.domainPattern || '';
+  }
+}
+
+/**
+ * The key two entries share when they cover the same person or domain
+ */
+export function getDoNotContactKey(entry: NewDoNotContactEntry): string {
+  switch (entry.kind) {
+    case 'profile_url':
+      return `url:${normalizeEntryUrl(entry.profileUrl || '')}`;
+    case 'name_company':
+      return `name:${normalizeText(entry.name || '')}|${normalizeCompany(entry.company || '')}`;
+    case 'company_domain':
+      return `domain:${normalizeDomainPattern(entry.domainPattern || '')}`;
+  }
+}
+
+/**
+ * Check an entry has what its kind needs
+ * @returns the problem, or null when the entry is valid
+ */
+export function validateDoNotContactEntry(entry: NewDoNotContactEntry): string | null {
+  switch (entry.kind) {
+    case 'profile_url':
+      return /linkedin\.com\/in\/[^/?#]+/i.test(entry.profileUrl || '') ? null : 'Not a LinkedIn profile URL';
+    case 'name_company':
+      return entry.name?.trim() ? null : 'A name is required';
+    case 'company_domain':
+      return /^(\*\.)?([a-z0-9-]+\.)+[a-z]{2,}$/.test(normalizeDomainPattern(entry.domainPattern || ''))
+        ? null
+        : 'Not a domain or domain pattern';
+  }
+}
+
+/**
+ * Read entries from CSV with a header row. Recognised columns are
+ * profile_url, name, company, domain and reason; each row needs a
+ * profile URL, a name or a domain. Rows with more than one make one entry each.
+ */
+export function parseDoNotContactCsv(text: string): {
+  entries: NewDoNotContactEntry[];
+  rejected: { row: number; reason: string }[];
+} {
+  const entries: NewDoNotContactEntry[] = [];
+  const rejected: { row: number; reason: string }[] = [];
+
+  parseCsvRecords(text).forEach((record, index) => {
+    const row = index + 1; // Data rows counting from 1, after the header
+    const reason = record.reason || undefined;
+    const candidates: NewDoNotContactEntry[] = [];
+
+    const profileUrl = record.profile_url || record.url;
+    if (profileUrl) candidates.push({ kind: 'profile_url', profileUrl, reason });
+    if (record.name) {
+      candidates.push({ kind: 'name_company', name: record.name, company: record.company || undefined, reason });
+    }
+    if (record.domain) {
+      candidates.push({ kind: 'company_domain', domainPattern: normalizeDomainPattern(record.domain), reason });
+    }
+
+    if (candidates.length === 0) {
+      rejected.push({ row, reason: 'No profile URL, name or domain' });
+      return;
+    }
+
+    for (const candidate of candidates) {
+      const problem = validateDoNotContactEntry(candidate);
+      if (problem) rejected.push({ row, reason: problem });
+      else entries.push(candidate);
+    }
+  });
+
+  return { entries, rejected };
+}
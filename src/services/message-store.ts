@@ -0,0 +1,475 @@
+/**
+ * Message Store
+ * IndexedDB repository for saved messages and contacts. Records are written one at a time,
+ * so saving a message no longer rewrites the whole history, and nothing is capped.
+ */
+
+import type { StoredMessage } from './storage';
+import { buildContactsFromMessages, type Contact, type PipelineStage } from './contacts';
+
+const DB_NAME = 'colder';
+const DB_VERSION = 1;
+const MESSAGES = 'messages';
+const CONTACTS = 'contacts';
+
+// Where messages and contacts lived in chrome.storage.local before this store
+const LEGACY_MESSAGES_KEY = 'colder_messages';
+const LEGACY_CONTACTS_KEY = 'colder_contacts';
+
+// Every message index ends in the date, so each one returns its matches in date order
+const MESSAGE_INDEXES = {
+  date: { name: 'byDate', keyPath: 'generatedAt' },
+  profileUrl: { name: 'byProfileUrl', keyPath: ['targetProfileUrl', 'generatedAt'] },
+  purpose: { name: 'byPurpose', keyPath: ['purpose', 'generatedAt'] },
+  tone: { name: 'byTone', keyPath: ['tone', 'generatedAt'] },
+  contactId: { name: 'byContact', keyPath: ['contactId', 'generatedAt'] }
+} as const;
+
+// Sorts after any ISO date, to close a range with no end date
+const MAX_DATE = '\uffff';
+
+export type MessageSort = 'newest' | 'oldest' | 'name';
+
+export interface MessageQuery {
+  profileUrl?: string;
+  purpose?: string;
+  tone?: string;
+  contactId?: string;
+  length?: string;
+  stage?: PipelineStage; // The recipient's stage in the pipeline
+  search?: string; // Every word must appear in the body or the recipient's name
+  from?: string; // ISO string, inclusive
+  to?: string; // ISO string, inclusive
+  sort?: MessageSort; // Defaults to newest; name sorts A-Z by recipient, newest first within each
+  offset?: number;
+  limit?: number; // Defaults to every match
+}
+
+export interface MessagePage {
+  messages: StoredMessage[];
+  total: number; // Matches across all pages
+  nextOffset: number | null; // null on the last page
+}
+
+export interface MessageGroup {
+  profileUrl: string;
+  name: string;
+  contactId?: string;
+  messages: StoredMessage[]; // In the query's date order
+}
+
+export interface MessageGroupPage {
+  groups: MessageGroup[];
+  total: number; // Groups across all pages
+  nextOffset: number | null;
+}
+
+interface QueryPlan {
+  index: string;
+  range: IDBKeyRange;
+  direction: IDBCursorDirection;
+  filter: ((message: StoredMessage) => boolean) | null; // null when the index range is the whole answer
+}
+
+type IndexedField = 'profileUrl' | 'purpose' | 'tone' | 'contactId';
+
+const FIELD_KEYS: Record<IndexedField, keyof StoredMessage> = {
+  profileUrl: 'targetProfileUrl',
+  purpose: 'purpose',
+  tone: 'tone',
+  contactId: 'contactId'
+};
+
+const compareByName = (a: StoredMessage, b: StoredMessage): number =>
+  a.targetProfileName.localeCompare(b.targetProfileName) || b.generatedAt.localeCompare(a.generatedAt);
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function completion(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error || new Error('Transaction aborted'));
+  });
+}
+
+export class MessageStore {
+  private db: Promise<IDBDatabase> | null = null;
+
+  constructor(private readonly dbName: string = DB_NAME) {}
+
+  /**
+   * Open the database, moving over anything still in chrome.storage on the first open.
+   * The storage migrations do the same on update; this covers a panel opened before they ran.
+   */
+  private open(): Promise<IDBDatabase> {
+    this.db ??= this.openDatabase()
+      .then(async db => {
+        await this.moveLegacyRecords(db, chrome.storage.local);
+        return db;
+      })
+      .catch(error => {
+        this.db = null;
+        throw error;
+      });
+    return this.db;
+  }
+
+  private openDatabase(): Promise<IDBDatabase> {
+    const request = indexedDB.open(this.dbName, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(MESSAGES)) {
+        const messages = db.createObjectStore(MESSAGES, { keyPath: 'id' });
+        for (const index of Object.values(MESSAGE_INDEXES)) {
+          messages.createIndex(index.name, index.keyPath as string | string[]);
+        }
+      }
+      if (!db.objectStoreNames.contains(CONTACTS)) {
+        const contacts = db.createObjectStore(CONTACTS, { keyPath: 'id' });
+        contacts.createIndex('byProfileUrl', 'profileUrl', { unique: true });
+      }
+    };
+
+    return promisify(request).then(db => {
+      // Let another context upgrade or delete the database; the next call reopens it
+      db.onversionchange = () => {
+        db.close();
+        this.db = null;
+      };
+      return db;
+    });
+  }
+
+  /**
+   * One-time move of the capped chrome.storage history into IndexedDB.
+   * History saved before contacts existed gets its contacts built on the way.
+   * Writes are keyed by id, so a second context running this at the same time does no harm.
+   */
+  async importLegacyRecords(area: chrome.storage.StorageArea = chrome.storage.local): Promise<void> {
+    await this.moveLegacyRecords(await this.open(), area);
+  }
+
+  private async moveLegacyRecords(db: IDBDatabase, area: chrome.storage.StorageArea): Promise<void> {
+    const legacy = await area.get([LEGACY_MESSAGES_KEY, LEGACY_CONTACTS_KEY]);
+    if (!(LEGACY_MESSAGES_KEY in legacy) && !(LEGACY_CONTACTS_KEY in legacy)) return;
+
+    const storedMessages: StoredMessage[] = legacy[LEGACY_MESSAGES_KEY] || [];
+    const { messages, contacts } = legacy[LEGACY_CONTACTS_KEY]
+      ? { messages: storedMessages, contacts: legacy[LEGACY_CONTACTS_KEY] as Contact[] }
+      : buildContactsFromMessages(storedMessages);
+
+    const transaction = db.transaction([MESSAGES, CONTACTS], 'readwrite');
+    messages.forEach(message => transaction.objectStore(MESSAGES).put(message));
+    contacts.forEach(contact => transaction.objectStore(CONTACTS).put(contact));
+    await completion(transaction);
+
+    await area.remove([LEGACY_MESSAGES_KEY, LEGACY_CONTACTS_KEY]);
+  }
+
+  /**
+   * Close the connection. The next call opens it again.
+   */
+  async close(): Promise<void> {
+    const db = this.db;
+    this.db = null;
+    (await db?.catch(() => null))?.close();
+  }
+
+  async getMessage(id: string): Promise<StoredMessage | null> {
+    const db = await this.open();
+    const message = await promisify(db.transaction(MESSAGES).objectStore(MESSAGES).get(id));
+    return message || null;
+  }
+
+  /**
+   * Find messages matching the query. The first field given out of profile URL, purpose,
+   * tone and contact picks the index to read; every other condition filters what the cursor
+   * reads, so only matches are ever held in memory.
+   */
+  async queryMessages(query: MessageQuery = {}): Promise<MessagePage> {
+    const db = await this.open();
+    const plan = await this.planQuery(db, query);
+    const offset = query.offset || 0;
+    const limit = query.limit ?? Infinity;
+
+    let messages: StoredMessage[];
+    let total: number;
+
+    if (!plan.filter && query.sort !== 'name') {
+      // Nothing to filter: the index can count and skip without reading every record
+      ({ messages, total } = await this.readPage(db, plan, offset, limit));
+    } else {
+      const matches = await this.readMatches(db, plan);
+      if (query.sort === 'name') matches.sort(compareByName);
+      total = matches.length;
+      messages = matches.slice(offset, offset + limit);
+    }
+
+    const end = offset + messages.length;
+    return { messages, total, nextOffset: end < total ? end : null };
+  }
+
+  /**
+   * Find messages matching the query, grouped by recipient. Offset and limit count groups.
+   * Groups follow the sort: by latest message, by first message, or by name.
+   */
+  async queryMessageGroups(query: MessageQuery = {}): Promise<MessageGroupPage> {
+    const db = await this.open();
+    const plan = await this.planQuery(db, query);
+    const offset = query.offset || 0;
+    const limit = query.limit ?? Infinity;
+
+    const groups = new Map<string, MessageGroup>();
+    for (const message of await this.readMatches(db, plan)) {
+      const group = groups.get(message.targetProfileUrl);
+      if (group) {
+        group.messages.push(message);
+      } else {
+        groups.set(message.targetProfileUrl, {
+          profileUrl: message.targetProfileUrl,
+          name: message.targetProfileName,
+          contactId: message.contactId,
+          messages: [message]
+        });
+      }
+    }
+
+    const sorted = [...groups.values()];
+    if (query.sort === 'name') sorted.sort((a, b) => a.name.localeCompare(b.name));
+
+    const page = sorted.slice(offset, offset + limit);
+    const end = offset + page.length;
+    return { groups: page, total: sorted.length, nextOffset: end < sorted.length ? end : null };
+  }
+
+  private async planQuery(db: IDBDatabase, query: MessageQuery): Promise<QueryPlan> {
+    const from = query.from || '';
+    const to = query.to || MAX_DATE;
+
+    const fields = (Object.keys(FIELD_KEYS) as IndexedField[]).filter(field => query[field] !== undefined);
+    const [indexField, ...filterFields] = fields;
+
+    const filters: ((message: StoredMessage) => boolean)[] = filterFields.map(
+      field => message => message[FIELD_KEYS[field]] === query[field]
+    );
+    if (query.length) {
+      filters.push(message => message.length === query.length);
+    }
+    if (query.stage) {
+      const contacts: Contact[] = await promisify(db.transaction(CONTACTS).objectStore(CONTACTS).getAll());
+      const atStage = new Set(contacts.filter(contact => contact.stage === query.stage).map(contact => contact.id));
+      filters.push(message => Boolean(message.contactId && atStage.has(message.contactId)));
+    }
+    const words = (query.search || '').toLowerCase().split(/\s+/).filter(Boolean);
+    if (words.length > 0) {
+      filters.push(message => {
+        const text = `${message.targetProfileName} ${message.body}`.toLowerCase();
+        return words.every(word => text.includes(word));
+      });
+    }
+
+    return {
+      index: indexField ? MESSAGE_INDEXES[indexField].name : MESSAGE_INDEXES.date.name,
+      range: indexField
+        ? IDBKeyRange.bound([query[indexField], from], [query[indexField], to])
+        : IDBKeyRange.bound(from, to),
+      direction: query.sort === 'oldest' ? 'next' : 'prev',
+      filter: filters.length > 0 ? message => filters.every(filter => filter(message)) : null
+    };
+  }
+
+  private async readPage(
+    db: IDBDatabase,
+    plan: QueryPlan,
+    offset: number,
+    limit: number
+  ): Promise<{ messages: StoredMessage[]; total: number }> {
+    const index = db.transaction(MESSAGES).objectStore(MESSAGES).index(plan.index);
+    const counted = promisify(index.count(plan.range));
+    const messages: StoredMessage[] = [];
+
+    await new Promise<void>((resolve, reject) => {
+      const request = index.openCursor(plan.range, plan.direction);
+      let skipped = offset === 0;
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor || messages.length >= limit) return resolve();
+
+        if (!skipped) {
+          skipped = true;
+          cursor.advance(offset);
+          return;
+        }
+
+        messages.push(cursor.value);
+        cursor.continue();
+      };
+    });
+
+    return { messages, total: await counted };
+  }
+
+  private async readMatches(db: IDBDatabase, plan: QueryPlan): Promise<StoredMessage[]> {
+    const index = db.transaction(MESSAGES).objectStore(MESSAGES).index(plan.index);
+    const matches: StoredMessage[] = [];
+
+    await new Promise<void>((resolve, reject) => {
+      const request = index.openCursor(plan.range, plan.direction);
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return resolve();
+        if (!plan.filter || plan.filter(cursor.value)) matches.push(cursor.value);
+        cursor.continue();
+      };
+    });
+
+    return matches;
+  }
+
+  async countMessages(): Promise<number> {
+    const db = await this.open();
+    return promisify(db.transaction(MESSAGES).objectStore(MESSAGES).count());
+  }
+
+  async putMessage(message: StoredMessage): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(MESSAGES, 'readwrite');
+    transaction.objectStore(MESSAGES).put(message);
+    await completion(transaction);
+  }
+
+  /**
+   * Write a message and its contact together, so neither is saved without the other
+   */
+  async putMessageWithContact(message: StoredMessage, contact: Contact): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction([MESSAGES, CONTACTS], 'readwrite');
+    transaction.objectStore(MESSAGES).put(message);
+    transaction.objectStore(CONTACTS).put(contact);
+    await completion(transaction);
+  }
+
+  /**
+   * Swap every message for `messages`. Contacts are left as they are.
+   */
+  async replaceMessages(messages: StoredMessage[]): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(MESSAGES, 'readwrite');
+    const store = transaction.objectStore(MESSAGES);
+    store.clear();
+    messages.forEach(message => store.put(message));
+    await completion(transaction);
+  }
+
+  /**
+   * Write messages and contacts in one transaction, so an import lands whole or not at all
+   * @param replace Delete every message and contact first
+   */
+  async putRecords(messages: StoredMessage[], contacts: Contact[], replace = false): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction([MESSAGES, CONTACTS], 'readwrite');
+    if (replace) {
+      transaction.objectStore(MESSAGES).clear();
+      transaction.objectStore(CONTACTS).clear();
+    }
+    messages.forEach(message => transaction.objectStore(MESSAGES).put(message));
+    contacts.forEach(contact => transaction.objectStore(CONTACTS).put(contact));
+    await completion(transaction);
+  }
+
+  /**
+   * Delete a message and take it off its contact's message list
+   */
+  async deleteMessage(id: string): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction([MESSAGES, CONTACTS], 'readwrite');
+    const messages = transaction.objectStore(MESSAGES);
+    const contacts = transaction.objectStore(CONTACTS);
+
+    const messageRequest = messages.get(id);
+    messageRequest.onsuccess = () => {
+      const message: StoredMessage | undefined = messageRequest.result;
+      messages.delete(id);
+      if (!message?.contactId) return;
+
+      const contactRequest = contacts.get(message.contactId);
+      contactRequest.onsuccess = () => {
+        const contact: Contact | undefined = contactRequest.result;
+        if (contact?.messageIds.includes(id)) {
+          contacts.put({ ...contact, messageIds: contact.messageIds.filter(messageId => messageId !== id) });
+        }
+      };
+    };
+    await completion(transaction);
+  }
+
+  /**
+   * Delete every message and empty each contact's message list
+   */
+  async clearMessages(): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction([MESSAGES, CONTACTS], 'readwrite');
+    transaction.objectStore(MESSAGES).clear();
+    const contacts = transaction.objectStore(CONTACTS);
+    const request = contacts.openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      cursor.update({ ...cursor.value, messageIds: [] });
+      cursor.continue();
+    };
+    await completion(transaction);
+  }
+
+  /**
+   * Every contact, most recently created first
+   */
+  async getContacts(): Promise<Contact[]> {
+    const db = await this.open();
+    const contacts: Contact[] = await promisify(db.transaction(CONTACTS).objectStore(CONTACTS).getAll());
+    return contacts.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async getContact(id: string): Promise<Contact | null> {
+    const db = await this.open();
+    const contact = await promisify(db.transaction(CONTACTS).objectStore(CONTACTS).get(id));
+    return contact || null;
+  }
+
+  async getContactByProfileUrl(profileUrl: string): Promise<Contact | null> {
+    const db = await this.open();
+    const index = db.transaction(CONTACTS).objectStore(CONTACTS).index('byProfileUrl');
+    const contact = await promisify(index.get(profileUrl));
+    return contact || null;
+  }
+
+  async putContact(contact: Contact): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(CONTACTS, 'readwrite');
+    transaction.objectStore(CONTACTS).put(contact);
+    await completion(transaction);
+  }
+
+  /**
+   * Delete every message and contact
+   */
+  async clear(): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction([MESSAGES, CONTACTS], 'readwrite');
+    transaction.objectStore(MESSAGES).clear();
+    transaction.objectStore(CONTACTS).clear();
+    await completion(transaction);
+  }
+}
+
+export const messageStore = new MessageStore();
@@ -0,0 +1,82 @@
+/**
+ * Storage Migrations
+ * chrome.storage.local records the schema version its data is in. On update, the background
+ * worker runs every migration newer than that version, in order, and records each as it goes.
+ * To change a stored shape, append a migration here with the next version number.
+ */
+
+import { messageStore } from './message-store';
+
+export interface StorageMigration {
+  version: number;
+  description: string;
+  migrate: (area: chrome.storage.StorageArea) => Promise<void>;
+}
+
+export const SCHEMA_VERSION_KEY = 'colder_schema_version';
+
+export const MIGRATIONS: StorageMigration[] = [
+  {
+    version: 1,
+    description: 'Move message history and contacts out of chrome.storage into IndexedDB',
+    migrate: area => messageStore.importLegacyRecords(area)
+  }
+];
+
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * The version the stored data is in. Installs from before versioning count as version 0.
+ */
+export async function getSchemaVersion(area: chrome.storage.StorageArea = chrome.storage.local): Promise<number> {
+  const result = await area.get(SCHEMA_VERSION_KEY);
+  return result[SCHEMA_VERSION_KEY] ?? 0;
+}
+
+/**
+ * Record that the data is already in the latest shape, for a fresh install with nothing to migrate
+ */
+export async function markSchemaCurrent(
+  area: chrome.storage.StorageArea = chrome.storage.local,
+  migrations: StorageMigration[] = MIGRATIONS
+): Promise<void> {
+  await area.set({ [SCHEMA_VERSION_KEY]: migrations[migrations.length - 1]?.version ?? 0 });
+}
+
+/**
+ * Run every migration newer than the stored version, oldest first.
+ * The version is saved after each one, so a failure leaves the data at the last
+ * migration that finished and the next update picks up from there.
+ * @returns The versions that were applied
+ */
+export async function runMigrations(
+  area: chrome.storage.StorageArea = chrome.storage.local,
+  migrations: StorageMigration[] = MIGRATIONS
+): Promise<number[]> {
+  migrations.forEach((migration, index) => {
+    if (index > 0 && migration.version <= migrations[index - 1].version) {
+      throw new Error(`Migration ${migration.version} is out of order`);
+    }
+  });
+
+  const current = await getSchemaVersion(area);
+  const latest = migrations[migrations.length - 1]?.version ?? 0;
+  if (current > latest) {
+    // Data written by a newer build; leave it alone rather than guess at its shape
+    console.warn(`[Colder] Storage is at schema version ${current}, newer than this build (${latest})`);
+    return [];
+  }
+
+  const applied: number[] = [];
+  for (const migration of migrations.filter(migration => migration.version > current)) {
+    try {
+      await migration.migrate(area);
+    } catch (error) {
+      console.error(`[Colder] Migration ${migration.version} failed:`, error);
+      throw new Error(`Failed to migrate storage to version ${migration.version}: ${migration.description}`);
+    }
+    await area.set({ [SCHEMA_VERSION_KEY]: migration.version });
+    applied.push(migration.version);
+  }
+  return applied;
+}
@@ -0,0 +1,178 @@
+/**
+ * Profile Budget
+ * Render the target profile into prompt sections and fit them into the
+ * model's context window by dropping the least useful sections first
+ */
+
+import type { ProfilePosition, ProfileSchool, TargetProfile } from './chrome-ai';
+
+export type ProfileSectionId =
+  | 'headline'
+  | 'activity'
+  | 'current_role'
+  | 'about'
+  | 'older_experience'
+  | 'education'
+  | 'skills';
+
+export interface ProfileSection {
+  id: ProfileSectionId;
+  label: string;
+  text: string;
+}
+
+/**
+ * Sections from most to least important. The headline (name, role, URL) is never dropped.
+ */
+export const SECTION_PRIORITY: ProfileSectionId[] = [
+  'headline',
+  'activity',
+  'current_role',
+  'about',
+  'older_experience',
+  'education',
+  'skills'
+];
+
+const SECTION_LABELS: Record<ProfileSectionId, string> = {
+  headline: 'Headline',
+  activity: 'Recent activity',
+  current_role: 'Current role',
+  about: 'About',
+  older_experience: 'Older experience',
+  education: 'Education',
+  skills: 'Skills'
+};
+
+const PROFILE_HEADER = '=== LINKEDIN PROFILE DATA ===\n';
+const PROFILE_FOOTER = '\n=== END OF PROFILE ===';
+
+/**
+ * Render each part of the profile as a prompt section. Empty parts are left out.
+ */
+export function buildProfileSections(profile: TargetProfile): ProfileSection[] {
+  const sections: ProfileSection[] = [];
+
+  const add = (id: ProfileSectionId, text: string) => {
+    if (text.trim()) sections.push({ id, label: SECTION_LABELS[id], text: text.trim() });
+  };
+
+  const headline = [`Name: ${profile.name}`];
+  if (profile.headline) headline.push(`Current Role/Headline: ${profile.headline}`);
+  if (profile.currentCompany) headline.push(`Current Company: ${profile.currentCompany}`);
+  if (profile.location) headline.push(`Location: ${profile.location}`);
+  if (profile.followerCount) headline.push(`Followers: ${profile.followerCount}`);
+  if (profile.connectionCount) headline.push(`Connections: ${formatConnectionCount(profile.connectionCount)}`);
+  headline.push(`LinkedIn URL: ${profile.linkedinUrl}`);
+  add('headline', headline.join('\n'));
+
+  add('about', profile.about || '');
+
+  const current = profile.positions.filter(position => position.isCurrent);
+  const older = profile.positions.filter(position => !position.isCurrent);
+  // Without a current position, the newest one stands in for the current role
+  const currentRoles = current.length > 0 ? current : older.splice(0, 1);
+  add('current_role', currentRoles.map(formatPosition).join('\n\n'));
+  add('older_experience', older.map(formatPosition).join('\n\n'));
+
+  add('education', profile.schools.map(formatSchool).join('\n'));
+  add('skills', profile.skills.join(', '));
+  add('activity', profile.posts.map(post => (post.postedAgo ? `[${post.postedAgo}] ` : '') + post.text).join('\n\n'));
+
+  return sections;
+}
+
+/**
+ * LinkedIn never shows more than "500+" connections
+ */
+export function formatConnectionCount(count: number): string {
+  return count >= 500 ? '500+' : String(count);
+}
+
+function formatPosition(position: ProfilePosition): string {
+  let line = position.title;
+  if (position.company) line += ` at ${position.company}`;
+  if (position.dateRange) line += ` (${position.dateRange})`;
+  if (position.location) line += ` - ${position.location}`;
+  return position.description ? `${line}\n${position.description}` : line;
+}
+
+function formatSchool(school: ProfileSchool): string {
+  let line = school.name;
+  if (school.degree) line += `, ${school.degree}`;
+  if (school.dateRange) line += ` (${school.dateRange})`;
+  return line;
+}
+
+/**
+ * Render sections into prompt text, in profile order
+ */
+export function assembleProfileText(sections: ProfileSection[]): string {
+  const byId = new Map(sections.map(section => [section.id, section]));
+  const lines: string[] = [PROFILE_HEADER];
+
+  const headline = byId.get('headline');
+  if (headline) lines.push(headline.text);
+
+  const about = byId.get('about');
+  if (about) lines.push('\n--- ABOUT ---\n' + about.text);
+
+  const experience = [byId.get('current_role'), byId.get('older_experience')].filter(Boolean);
+  if (experience.length > 0) {
+    lines.push('\n--- WORK EXPERIENCE ---\n' + experience.map(section => section!.text).join('\n\n'));
+  }
+
+  const education = byId.get('education');
+  if (education) lines.push('\n--- EDUCATION ---\n' + education.text);
+
+  const skills = byId.get('skills');
+  if (skills) lines.push('\n--- SKILLS ---\n' + skills.text);
+
+  const activity = byId.get('activity');
+  if (activity) lines.push('\n--- RECENT ACTIVITY & POSTS ---\n' + activity.text);
+
+  lines.push(PROFILE_FOOTER);
+  return lines.join('\n');
+}
+
+export interface BudgetedPrompt {
+  prompt: string;
+  promptTokens: number;
+  droppedSections: ProfileSection[];
+}
+
+/**
+ * Build the prompt, dropping profile sections from lowest priority upwards until it fits.
+ * If even the headline alone is over budget, the smallest prompt is returned and the model
+ * is left to cope with it.
+ * @param buildPrompt Turns profile text into the full prompt
+ * @param countTokens Measures a prompt with the session's tokenizer
+ * @param budget Tokens available for the prompt
+ */
+export async function fitProfileToBudget(
+  sections: ProfileSection[],
+  buildPrompt: (profileText: string) => string,
+  countTokens: (prompt: string) => Promise<number>,
+  budget: number
+): Promise<BudgetedPrompt> {
+  const kept = [...sections];
+  const droppedSections: ProfileSection[] = [];
+
+  let prompt = buildPrompt(assembleProfileText(kept));
+  let promptTokens = await countTokens(prompt);
+
+  const dropOrder = [...SECTION_PRIORITY].reverse().filter(id => id !== 'headline');
+
+  for (const id of dropOrder) {
+    if (promptTokens <= budget) break;
+
+    const index = kept.findIndex(section => section.id === id);
+    if (index === -1) continue;
+
+    droppedSections.push(...kept.splice(index, 1));
+    prompt = buildPrompt(assembleProfileText(kept));
+    promptTokens = await countTokens(prompt);
+  }
+
+  return { prompt, promptTokens, droppedSections };
+}
@@ -2,6 +2,13 @@
  * AI Prompts for Chrome Built-in AI
  */
 
+import type { CommonGround } from './common-ground';
+import type { ThreadMessage } from '../utils/linkedin-thread';
+import { getChannelLimit, MESSAGE_CHANNELS, type LinkedInAccountType, type MessageChannelId } from './channels';
+
+// Subject lines offered for channels that need one
+export const SUBJECT_OPTION_COUNT = 3;
+
 export const MESSAGE_GENERATOR_SYSTEM_PROMPT = `You are an expert at writing personalized cold outreach messages for LinkedIn that get high response rates.
 
 Core Principles:
@@ -17,8 +24,62 @@ export interface MessageGeneratorOptions {
   tone: 'professional' | 'casual' | 'enthusiastic' | 'formal' | 'friendly';
   length: 'short' | 'medium' | 'long';
   purpose: string;
+  angle?: MessageAngle;
+  talkingPoints?: string[]; // Chosen from the profile insight; the message should use these
+  commonGround?: CommonGround[]; // Ranked overlaps between sender and target
+  channel?: MessageChannelId; // Where the message will be sent; sets a hard character limit
+  accountType?: LinkedInAccountType; // Free accounts get shorter connection notes
+}
+
+export interface FollowUpOptions extends Pick<MessageGeneratorOptions, 'tone' | 'length' | 'channel' | 'accountType'> {
+  stepKind: 'follow_up' | 'breakup';
+}
+
+export interface ReplyOptions extends Pick<MessageGeneratorOptions, 'tone' | 'length' | 'channel' | 'accountType'> {
+  purpose?: string; // Why the sender reached out in the first place
+  originalMessage?: string; // The sender's first message, when Colder wrote it
+}
+
+/**
+ * An earlier message in the thread, as the follow-up prompt sees it
+ */
+export interface PreviousMessage {
+  body: string;
+  daysAgo: number;
 }
 
+export interface MessageAngle {
+  id: string;
+  label: string;
+  instruction: string;
+}
+
+/**
+ * Distinct opening hooks used when generating several variants side by side
+ */
+export const MESSAGE_ANGLES: MessageAngle[] = [
+  {
+    id: 'recent_activity',
+    label: 'Recent activity',
+    instruction: 'Open with something specific from their recent posts or activity.'
+  },
+  {
+    id: 'career_path',
+    label: 'Career path',
+    instruction: 'Open with a specific moment or move in their career history.'
+  },
+  {
+    id: 'shared_ground',
+    label: 'Shared ground',
+    instruction: 'Open with what the sender and the recipient have in common.'
+  },
+  {
+    id: 'value_first',
+    label: 'Value first',
+    instruction: 'Open with the concrete value the sender can offer them.'
+  }
+];
+
 export interface UserProfile {
   userName: string;
   userRole: string;
@@ -92,12 +153,12 @@ Role: ${userProfile.userRole || 'Professional'}
 Company: ${userProfile.userCompany || ''}
 Background: ${userProfile.userBackground || ''}
 Value: ${userProfile.userValueProposition || ''}
-
+${formatCommonGround(options.commonGround)}
 ## Parameters:
 Objective: ${options.purpose}
 Tone: ${options.tone} - ${toneGuidelines[options.tone]}
-Length: ${lengthGuide[options.length]}
-
+${options.channel ? `Channel: ${MESSAGE_CHANNELS[options.channel].label} - ${MESSAGE_CHANNELS[options.channel].guidance}\n` : ''}Length: ${formatLengthRequirement(lengthGuide[options.length], options)}
+${options.angle ? `Angle: ${options.angle.instruction}\n` : ''}${formatTalkingPoints(options.talkingPoints)}
 ## Example:
 ${example}
 
@@ -107,15 +168,66 @@ ${example}
 3. Make value obvious within first 2 sentences
 4. Write authentically
 5. End with ONE clear ask
+${formatResponseFormat(options)}`;
+}
 
+function formatLengthRequirement(
+  wordLength: string,
+  options: Pick<MessageGeneratorOptions, 'channel' | 'accountType'>
+): string {
+  if (!options.channel) return wordLength;
+
+  const maxChars = getChannelLimit(options.channel, options.accountType);
+  return MESSAGE_CHANNELS[options.channel].usesWordLength
+    ? `${wordLength}, and never more than ${maxChars} characters`
+    : `at most ${maxChars} characters including spaces. This is a hard limit.`;
+}
+
+function formatResponseFormat(options: Pick<MessageGeneratorOptions, 'channel'>): string {
+  const maxSubjectChars = options.channel && MESSAGE_CHANNELS[options.channel].maxSubjectChars;
+  if (!maxSubjectChars) {
+    return `
 Return ONLY valid JSON (no markdown):
 {"body":"string","wordCount":number}`;
+  }
+
+  return `6. Write ${SUBJECT_OPTION_COUNT} different subject lines, each under ${maxSubjectChars} characters, specific to them and not clickbait
+
+Return ONLY valid JSON (no markdown):
+{"subjects":["string","string","string"],"body":"string","wordCount":number}`;
+}
+
+function formatCommonGround(commonGround?: CommonGround[]): string {
+  if (!commonGround?.length) return '';
+  return `\n## Common Ground (strongest first, mention the top one if it fits):\n${commonGround.slice(0, 5).map(match => `- ${match.detail}`).join('\n')}\n`;
+}
+
+function formatTalkingPoints(talkingPoints?: string[]): string {
+  if (!talkingPoints?.length) return '';
+  return `Talking points (build the message around these, not other details):\n${talkingPoints.map(point => `- ${point}`).join('\n')}\n`;
+}
+
+export function formatProfileAnalysisPrompt(targetProfileText: string): string {
+  return `Read this LinkedIn profile and summarise it for someone about to write them an outreach message.
+
+## Profile:
+${targetProfileText}
+
+## Requirements:
+- careerArc: one or two sentences on how their career has developed
+- currentFocus: one sentence on what they are working on now
+- recentPosts: one short line per recent post or activity, empty if there is none
+- talkingPoints: 3-5 specific, concrete details that would make a good opening or reference point
+- Only use facts from the profile
+
+Return ONLY valid JSON (no markdown):
+{"careerArc":"string","currentFocus":"string","recentPosts":["string"],"talkingPoints":["string"]}`;
 }
 
 export function formatPolishPrompt(
   originalMessage: string,
   userFeedback: string,
-  options: Pick<MessageGeneratorOptions, 'tone' | 'length'>
+  options: Pick<MessageGeneratorOptions, 'tone' | 'length' | 'channel' | 'accountType'>
 ): string {
   const lengthGuide = {
     short: '50-100 words',
@@ -133,10 +245,156 @@ ${userFeedback}
 
 ## Requirements:
 - Tone: ${options.tone}
-- Length: ${lengthGuide[options.length]}
+- Length: ${formatLengthRequirement(lengthGuide[options.length], options)}
 - Keep personalization
 - Apply feedback
 
 Return ONLY valid JSON (no markdown):
 {"body":"string","wordCount":number,"changes":"string"}`;
 }
+
+export function formatFollowUpPrompt(
+  recipientName: string,
+  targetProfileText: string,
+  previousMessages: PreviousMessage[],
+  userProfile: UserProfile,
+  options: FollowUpOptions
+): string {
+  const lengthGuide = {
+    short: '30-60 words',
+    medium: '60-100 words',
+    long: '100-150 words'
+  };
+
+  const stepGuide = {
+    follow_up: 'A follow-up. Add something new - a fresh angle, a relevant detail from their profile, or a smaller ask. Do not apologise for following up.',
+    breakup: 'A final, polite breakup message. Say this is the last note, leave the door open and make replying effortless. No guilt.'
+  };
+
+  const thread = previousMessages
+    .map((message, index) => `### Message ${index + 1} (sent ${message.daysAgo === 0 ? 'today' : `${message.daysAgo} days ago`}):\n${message.body}`)
+    .join('\n\n');
+
+  return `${MESSAGE_GENERATOR_SYSTEM_PROMPT}
+
+Write the next message to ${recipientName}, who has not replied yet.
+
+## Messages already sent (oldest first):
+${thread}
+${targetProfileText ? `\n## Target Profile:\n${targetProfileText}\n` : ''}
+## Sender:
+Name: ${userProfile.userName || 'User'}
+Role: ${userProfile.userRole || 'Professional'}
+Company: ${userProfile.userCompany || ''}
+
+## Parameters:
+Type: ${stepGuide[options.stepKind]}
+Tone: ${options.tone}
+${options.channel ? `Channel: ${MESSAGE_CHANNELS[options.channel].label}\n` : ''}Length: ${formatLengthRequirement(lengthGuide[options.length], options)}
+
+## Requirements:
+1. Do NOT reuse the opening, phrases, compliments or ask from the earlier messages
+2. Refer back to the earlier message briefly, without quoting it
+3. Acknowledge the time that has passed naturally, without guilt-tripping
+4. End with ONE clear, easy ask
+
+Return ONLY valid JSON (no markdown):
+{"body":"string","wordCount":number}`;
+}
+
+export function formatReplyPrompt(
+  recipientName: string,
+  messages: ThreadMessage[],
+  userProfile: UserProfile,
+  options: ReplyOptions
+): string {
+  const lengthGuide = {
+    short: '20-50 words',
+    medium: '50-90 words',
+    long: '90-140 words'
+  };
+
+  const conversation = messages
+    .map(message => {
+      const sender = message.isSelf ? `${userProfile.userName || 'Sender'} (sender)` : message.senderName;
+      return `${message.timestamp ? `[${message.timestamp}] ` : ''}${sender}: ${message.text}`;
+    })
+    .join('\n\n');
+
+  return `You are helping ${userProfile.userName || 'the sender'} reply in a LinkedIn conversation they started with cold outreach. ${recipientName} has written back.
+
+## Conversation (oldest first):
+${conversation}
+
+## Sender:
+Name: ${userProfile.userName || 'User'}
+Role: ${userProfile.userRole || 'Professional'}
+Company: ${userProfile.userCompany || ''}
+Background: ${userProfile.userBackground || 'Not specified'}
+Value Proposition: ${userProfile.userValueProposition || 'Not specified'}
+${options.purpose ? `\n## Original Purpose:\n${options.purpose}\n` : ''}${options.originalMessage ? `\n## First Message Sent:\n${options.originalMessage}\n` : ''}
+## Parameters:
+Tone: ${options.tone}
+Length: ${formatLengthRequirement(lengthGuide[options.length], options)}
+
+## Requirements:
+1. Reply to ${recipientName}'s latest message first: answer every question they asked
+2. Match their energy and formality; if they declined, thank them and close gracefully
+3. Move the conversation one step towards the original purpose, with a concrete next step
+4. Do NOT re-introduce the sender or repeat the first message
+5. Sound like a person mid-conversation, not a template
+
+Return ONLY valid JSON (no markdown):
+{"body":"string","wordCount":number}`;
+}
+
+export function formatAvoidRepetitionPrompt(message: string, repeatedPhrases: string[]): string {
+  return `This follow-up repeats wording from the earlier messages.
+
+## Follow-up:
+${message}
+
+## Repeated phrases:
+${repeatedPhrases.map(phrase => `- "${phrase}"`).join('\n')}
+
+Rewrite it so none of these phrases appear. Keep the meaning, length and ask.
+
+Return ONLY valid JSON (no markdown):
+{"body":"string","wordCount":number}`;
+}
+
+export function formatCompressPrompt(message: string, maxChars: number, channelLabel: string): string {
+  return `This ${channelLabel.toLowerCase()} is ${message.length} characters, but the limit is ${maxChars}.
+
+## Message:
+${message}
+
+## Requirements:
+- Rewrite it in at most ${maxChars} characters including spaces
+- Keep the greeting, the most specific personal reference and the ask
+- Cut filler before cutting specifics
+
+Return ONLY valid JSON (no markdown):
+{"body":"string","wordCount":number}`;
+}
+
+export function formatRepairPrompt(
+  invalidResponse: string,
+  problems: string,
+  schema: object
+): string {
+  return `Your previous response could not be used.
+
+## Previous response:
+${invalidResponse}
+
+## Problems:
+${problems}
+
+## Required JSON schema:
+${JSON.stringify(schema)}
+
+Rewrite the previous response so it matches the schema exactly. Keep the message text unchanged unless it was missing.
+
+Return ONLY valid JSON (no markdown).`;
+}
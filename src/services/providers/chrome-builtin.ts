@@ -0,0 +1,204 @@
+/**
+ * Chrome Built-in AI Provider
+ * Backend for Chrome's Prompt API (Gemini Nano)
+ */
+
+import type { AIProvider, ProviderAvailability, ProviderId, ProviderSessionOptions } from './types';
+
+// Type definitions for Chrome AI API (Chrome 128+)
+declare global {
+  // New API (Chrome 128+)
+  const LanguageModel: {
+    // 'no' was returned by early builds; current builds use 'unavailable'
+    availability: () => Promise<'available' | 'downloadable' | 'downloading' | 'unavailable' | 'no'>;
+    create: (options?: {
+      temperature?: number;
+      topK?: number;
+      signal?: AbortSignal;
+      systemPrompt?: string;
+      outputLanguage?: string;
+      initialPrompts?: Array<{ role: 'system' | 'user' | 'assistant'; content: string }>;
+      monitor?: (monitor: any) => void;
+    }) => Promise<AILanguageModel>;
+  };
+
+  // Legacy API (Chrome 127 and earlier) - kept for backward compatibility
+  interface Window {
+    ai?: {
+      languageModel?: {
+        capabilities: () => Promise<{
+          available: 'readily' | 'after-download' | 'no';
+          defaultTemperature?: number;
+          defaultTopK?: number;
+          maxTopK?: number;
+        }>;
+        create: (options?: {
+          temperature?: number;
+          topK?: number;
+          signal?: AbortSignal;
+          systemPrompt?: string;
+          initialPrompts?: Array<{ role: 'system' | 'user' | 'assistant'; content: string }>;
+          monitor?: (monitor: any) => void;
+        }) => Promise<AILanguageModel>;
+      };
+    };
+  }
+
+  interface AIPromptOptions {
+    signal?: AbortSignal;
+    responseConstraint?: object; // JSON schema (Chrome 137+)
+    omitResponseConstraintInput?: boolean;
+  }
+
+  interface AILanguageModel {
+    prompt: (input: string, options?: AIPromptOptions) => Promise<string>;
+    promptStreaming: (input: string, options?: AIPromptOptions) => ReadableStream<string>;
+    countPromptTokens: (input: string) => Promise<number>;
+    measureInputUsage?: (input: string) => Promise<number>; // Replaces countPromptTokens in Chrome 138+
+    inputQuota?: number; // Context window size in tokens
+    inputUsage?: number; // Tokens used by the session so far
+    maxTokens?: number; // Legacy name for inputQuota
+    clone: (options?: { signal?: AbortSignal }) => Promise<AILanguageModel>;
+    destroy: () => void;
+  }
+}
+
+export type LanguageModelApi = typeof LanguageModel;
+
+export class ChromeBuiltinProvider implements AIProvider {
+  readonly id: ProviderId = 'chrome-builtin';
+  readonly label: string = 'Chrome AI';
+
+  /**
+   * @param languageModel Prompt API implementation to use instead of the global one (tests and demos)
+   */
+  constructor(private readonly languageModel?: LanguageModelApi) {}
+
+  private getLanguageModel(): LanguageModelApi | undefined {
+    if (this.languageModel) return this.languageModel;
+    return typeof LanguageModel !== 'undefined' ? LanguageModel : undefined;
+  }
+
+  /**
+   * Check if Chrome AI is available
+   */
+  async checkAvailability(): Promise<ProviderAvailability> {
+    try {
+      // Try new API first (Chrome 128+)
+      const languageModel = this.getLanguageModel();
+      if (languageModel) {
+        const availability = await languageModel.availability();
+
+        if (availability === 'no' || availability === 'unavailable') {
+          return {
+            available: false,
+            status: 'no',
+            message: 'Chrome AI is not available on this device.'
+          };
+        }
+
+        if (availability === 'downloadable') {
+          return {
+            available: true,
+            status: 'after-download',
+            message: 'Chrome AI model needs to be downloaded (~22GB, 10-30 min). Start the download from Settings or by generating a message.'
+          };
+        }
+
+        if (availability === 'downloading') {
+          return {
+            available: true,
+            status: 'downloading',
+            message: 'Chrome AI model is downloading. You can generate messages once it finishes.'
+          };
+        }
+
+        return {
+          available: true,
+          status: 'readily',
+          message: 'Chrome AI is ready to use!'
+        };
+      }
+
+      // Fallback to legacy API (Chrome 127 and earlier)
+      if (window.ai?.languageModel) {
+        const capabilities = await window.ai.languageModel.capabilities();
+
+        if (capabilities.available === 'no') {
+          return {
+            available: false,
+            status: 'no',
+            message: 'Chrome AI is not available on this device.'
+          };
+        }
+
+        if (capabilities.available === 'after-download') {
+          return {
+            available: true,
+            status: 'after-download',
+            message: 'Chrome AI model needs to be downloaded (~22GB, 10-30 min). Start the download from Settings or by generating a message.'
+          };
+        }
+
+        return {
+          available: true,
+          status: 'readily',
+          message: 'Chrome AI is ready to use!'
+        };
+      }
+
+      // Neither API is available
+      return {
+        available: false,
+        status: 'no',
+        message: 'Chrome AI is not supported. Enable chrome://flags/#prompt-api-for-gemini-nano-multimodal-input and restart Chrome.'
+      };
+    } catch (error) {
+      console.error('Error checking AI availability:', error);
+      return {
+        available: false,
+        status: 'no',
+        message: 'Error checking AI availability. Make sure Chrome AI is enabled in chrome://flags'
+      };
+    }
+  }
+
+  /**
+   * Create a new Prompt API session
+   */
+  async createSession(options: ProviderSessionOptions = {}): Promise<AILanguageModel> {
+    const { temperature = 0.8, topK = 40, signal, onDownloadProgress } = options;
+    const monitor = (m: any) => {
+      m.addEventListener('downloadprogress', (e: any) => {
+        // New API reports a 0-1 fraction; the legacy API reports bytes
+        const progress = e.total && e.total !== 1 ? e.loaded / e.total : e.loaded;
+        console.log(`AI Model downloading: ${Math.round(progress * 100)}%`);
+        onDownloadProgress?.(progress);
+      });
+    };
+
+    // Try new API first (Chrome 128+)
+    const languageModel = this.getLanguageModel();
+    if (languageModel) {
+      return languageModel.create({
+        temperature,
+        topK,
+        outputLanguage: 'en', // Required in new API
+        signal,
+        monitor
+      });
+    }
+
+    // Fallback to legacy API
+    if (window.ai?.languageModel) {
+      return window.ai.languageModel.create({
+        temperature,
+        topK,
+        signal,
+        monitor
+      });
+    }
+
+    throw new Error('Chrome AI is not available');
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * AI Providers
+ * Pick the language model backend from the user's settings
+ */
+
+import type { ExtensionSettings } from '../storage';
+import { ChromeBuiltinProvider } from './chrome-builtin';
+import { OpenAICompatibleProvider } from './openai-compatible';
+import { MockProvider } from './mock';
+import type { AIProvider } from './types';
+
+export { ChromeBuiltinProvider } from './chrome-builtin';
+export { OpenAICompatibleProvider, type OpenAICompatibleConfig } from './openai-compatible';
+export { MockProvider, createMockLanguageModel, type MockResponse, type MockScript } from './mock';
+export type { AIProvider, ProviderAvailability, ProviderId, ProviderSessionOptions } from './types';
+
+/**
+ * The mock provider is only offered outside production builds
+ */
+export const isMockProviderEnabled = process.env.NODE_ENV !== 'production';
+
+/**
+ * Create the provider selected in settings, defaulting to Chrome's built-in AI
+ */
+export function createProvider(settings: ExtensionSettings): AIProvider {
+  if (settings.aiProvider === 'mock' && isMockProviderEnabled) {
+    return new MockProvider();
+  }
+
+  if (settings.aiProvider === 'openai-compatible' && settings.customEndpoint) {
+    return new OpenAICompatibleProvider(settings.customEndpoint);
+  }
+
+  return new ChromeBuiltinProvider();
+}
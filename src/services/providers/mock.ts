@@ -0,0 +1,244 @@
+/**
+ * Mock AI Provider
+ * A scriptable, deterministic stand-in for Chrome's Prompt API.
+ * Used by unit tests and selectable as a provider in development builds.
+ */
+
+import { ChromeBuiltinProvider, type LanguageModelApi } from './chrome-builtin';
+import type { ProviderId } from './types';
+import type { JsonSchema } from '../structured-output';
+
+/**
+ * One scripted model reply:
+ * - a string is returned whole (and streamed in word-sized chunks)
+ * - `chunks` controls exactly how the reply is streamed
+ * - `error` makes the prompt reject
+ */
+export type MockResponse = string | { chunks: string[] } | { error: Error };
+
+export interface MockScript {
+  availability?: Awaited<ReturnType<LanguageModelApi['availability']>>;
+  // Fractions (0-1) reported through `downloadprogress` events when a session is created
+  downloadProgress?: number[];
+  // Replies consumed in order, one per prompt
+  responses?: MockResponse[];
+  // Fallback once `responses` runs out
+  respond?: (input: string, options?: AIPromptOptions) => MockResponse;
+  // Delay before each streamed chunk (and before a non-streamed reply)
+  chunkDelayMs?: number;
+  createError?: Error;
+  inputQuota?: number;
+  // Tokens each session starts with already used
+  inputUsage?: number;
+}
+
+export interface MockLanguageModel extends LanguageModelApi {
+  // Every prompt sent to any session, in order
+  readonly prompts: string[];
+  // Options passed to each prompt call, in order
+  readonly promptOptions: (AIPromptOptions | undefined)[];
+  readonly sessions: MockSession[];
+}
+
+/**
+ * Create a fake `LanguageModel` global driven by a script
+ */
+export function createMockLanguageModel(script: MockScript = {}): MockLanguageModel {
+  const queue = [...(script.responses || [])];
+  const prompts: string[] = [];
+  const promptOptions: (AIPromptOptions | undefined)[] = [];
+  const sessions: MockSession[] = [];
+  let availability = script.availability ?? 'available';
+
+  const nextResponse = (input: string, options?: AIPromptOptions): MockResponse => {
+    prompts.push(input);
+    const response = queue.shift() ?? script.respond?.(input, options);
+    if (response === undefined) {
+      return { error: new Error('Mock language model has no scripted response') };
+    }
+    return response;
+  };
+
+  const createSession = (): MockSession => {
+    const session = new MockSession(script, nextResponse, promptOptions, createSession);
+    sessions.push(session);
+    return session;
+  };
+
+  return {
+    prompts,
+    promptOptions,
+    sessions,
+
+    availability: async () => availability,
+
+    create: async (options = {}) => {
+      options.signal?.throwIfAborted();
+      if (script.createError) throw script.createError;
+      if (availability === 'no') throw new DOMException('Model is unavailable', 'NotSupportedError');
+
+      if (script.downloadProgress?.length) {
+        const monitor = new EventTarget();
+        options.monitor?.(monitor);
+        for (const loaded of script.downloadProgress) {
+          await delay(script.chunkDelayMs, options.signal);
+          monitor.dispatchEvent(Object.assign(new Event('downloadprogress'), { loaded, total: 1 }));
+        }
+      }
+
+      availability = 'available';
+      return createSession();
+    }
+  };
+}
+
+class MockSession implements AILanguageModel {
+  readonly inputQuota: number;
+  readonly inputUsage: number;
+  destroyed = false;
+
+  constructor(
+    private readonly script: MockScript,
+    private readonly nextResponse: (input: string, options?: AIPromptOptions) => MockResponse,
+    private readonly promptOptions: (AIPromptOptions | undefined)[],
+    private readonly createSession: () => MockSession
+  ) {
+    this.inputQuota = script.inputQuota ?? 6144;
+    this.inputUsage = script.inputUsage ?? 0;
+  }
+
+  async prompt(input: string, options?: AIPromptOptions): Promise<string> {
+    this.assertUsable(options?.signal);
+    this.promptOptions.push(options);
+    const response = this.nextResponse(input, options);
+    await delay(this.script.chunkDelayMs, options?.signal);
+
+    if (typeof response === 'string') return response;
+    if ('error' in response) throw response.error;
+    return response.chunks.join('');
+  }
+
+  promptStreaming(input: string, options?: AIPromptOptions): ReadableStream<string> {
+    this.assertUsable(options?.signal);
+    this.promptOptions.push(options);
+    const response = this.nextResponse(input, options);
+    const { chunkDelayMs } = this.script;
+
+    return new ReadableStream<string>({
+      async start(controller) {
+        try {
+          if (typeof response !== 'string' && 'error' in response) throw response.error;
+
+          const chunks = typeof response === 'string' ? response.match(/\S+\s*|\s+/g) || [] : response.chunks;
+          for (const chunk of chunks) {
+            await delay(chunkDelayMs, options?.signal);
+            controller.enqueue(chunk);
+          }
+          controller.close();
+        } catch (error) {
+          controller.error(error);
+        }
+      }
+    });
+  }
+
+  async countPromptTokens(input: string): Promise<number> {
+    return Math.ceil(input.length / 4);
+  }
+
+  async clone(options?: { signal?: AbortSignal }): Promise<AILanguageModel> {
+    this.assertUsable(options?.signal);
+    return this.createSession();
+  }
+
+  destroy(): void {
+    this.destroyed = true;
+  }
+
+  private assertUsable(signal?: AbortSignal): void {
+    signal?.throwIfAborted();
+    if (this.destroyed) throw new DOMException('Session has been destroyed', 'InvalidStateError');
+  }
+}
+
+/**
+ * Wait, rejecting with an AbortError if the signal fires first
+ */
+function delay(ms: number | undefined, signal?: AbortSignal): Promise<void> {
+  signal?.throwIfAborted();
+  if (!ms) return Promise.resolve();
+
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Demo values for the fields our response schemas ask for, given the profile's first name
+ */
+const DEMO_FIELDS: Record<string, (name: string) => unknown> = {
+  body: name => `Hi ${name},\n\nI came across your profile and really liked the work you've been sharing. ` +
+    `I'm exploring similar problems and would love to swap notes sometime.\n\nWould you be open to connecting?`,
+  subjects: name => [`Swapping notes, ${name}?`, 'Loved your recent work', 'A quick hello'],
+  changes: () => 'Demo polish',
+  careerArc: name => `${name} moved from hands-on engineering into leading the teams that build it.`,
+  currentFocus: () => 'Shipping their team\'s next release and writing about what they learn',
+  recentPosts: () => ['Lessons from a recent launch'],
+  talkingPoints: () => ['Their recent launch', 'How their team works', 'What they are writing about next']
+};
+
+/**
+ * A stand-in for any field the demo doesn't know, by its type
+ */
+function placeholderFor(schema: JsonSchema): unknown {
+  switch (schema.type) {
+    case 'string': return 'Demo';
+    case 'number':
+    case 'integer': return 0;
+    case 'boolean': return false;
+    case 'array': return Array.from({ length: schema.minItems ?? 0 }, () => schema.items ? placeholderFor(schema.items) : null);
+    case 'object': return {};
+  }
+}
+
+/**
+ * Demo replies: a plausible response for the requested schema that names whoever is on the profile.
+ * Without a schema, a message draft.
+ */
+const DEMO_SCRIPT: MockScript = {
+  chunkDelayMs: 40,
+  respond: (input, options) => {
+    const name = /Name: (.+)/.exec(input)?.[1]?.split(' ')[0] || 'there';
+    const schema = options?.responseConstraint as JsonSchema | undefined;
+    const keys = schema?.properties ? Object.keys(schema.properties) : ['body', 'wordCount', 'changes'];
+
+    const body = DEMO_FIELDS.body(name) as string;
+    const response = Object.fromEntries(keys.map(key => [
+      key,
+      key === 'wordCount'
+        ? body.split(/\s+/).length
+        : DEMO_FIELDS[key]?.(name) ?? placeholderFor(schema!.properties![key])
+    ]));
+    return JSON.stringify(response);
+  }
+};
+
+/**
+ * Provider backed by the mock Prompt API, for demos and local development
+ */
+export class MockProvider extends ChromeBuiltinProvider {
+  readonly id: ProviderId = 'mock';
+  readonly label: string = 'Mock AI';
+
+  constructor(readonly languageModelMock: MockLanguageModel = createMockLanguageModel(DEMO_SCRIPT)) {
+    super(languageModelMock);
+  }
+}
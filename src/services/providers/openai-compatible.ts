@@ -0,0 +1,274 @@
+/**
+ * OpenAI-Compatible Provider
+ * Backend for any HTTP endpoint speaking the OpenAI chat completions API,
+ * e.g. a local Ollama (http://localhost:11434/v1) or llama.cpp server
+ */
+
+import { ApiError, NetworkError, isAbortError } from '../../utils/error-handlers';
+import type { AIProvider, ProviderAvailability, ProviderSessionOptions } from './types';
+
+export interface OpenAICompatibleConfig {
+  baseUrl: string; // Including the version prefix, e.g. http://localhost:11434/v1
+  model: string;
+  apiKey?: string;
+  contextWindow?: number; // Tokens; most local models default to 4096-8192
+}
+
+type ChatMessage = { role: 'system' | 'user' | 'assistant'; content: string };
+
+const DEFAULT_CONTEXT_WINDOW = 8192;
+// Earlier turns are dropped once the history would take more of the context window than this
+const MAX_HISTORY_SHARE = 0.25;
+
+/**
+ * No standard tokenizer endpoint exists, so estimate at ~4 characters per token
+ */
+const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+export class OpenAICompatibleProvider implements AIProvider {
+  readonly id = 'openai-compatible' as const;
+  readonly label: string;
+
+  constructor(private readonly config: OpenAICompatibleConfig) {
+    this.label = config.model || 'Custom endpoint';
+  }
+
+  /**
+   * Check that the endpoint is reachable and serves the configured model
+   */
+  async checkAvailability(): Promise<ProviderAvailability> {
+    if (!this.config.baseUrl || !this.config.model) {
+      return {
+        available: false,
+        status: 'no',
+        message: 'Set the endpoint URL and model name in Settings.'
+      };
+    }
+
+    try {
+      const response = await request(this.config, '/models', { method: 'GET' });
+      const data = await response.json().catch(() => null);
+      const models: string[] = Array.isArray(data?.data) ? data.data.map((m: any) => m.id) : [];
+
+      if (models.length > 0 && !models.includes(this.config.model)) {
+        return {
+          available: false,
+          status: 'no',
+          message: `Model "${this.config.model}" was not found. Available: ${models.slice(0, 5).join(', ')}`
+        };
+      }
+
+      return {
+        available: true,
+        status: 'readily',
+        message: `Connected to ${this.config.model} at ${this.config.baseUrl}`
+      };
+    } catch (error) {
+      console.error('Error checking endpoint availability:', error);
+      return {
+        available: false,
+        status: 'no',
+        message: error instanceof Error ? error.message : 'Could not reach the AI endpoint.'
+      };
+    }
+  }
+
+  async createSession(options: ProviderSessionOptions = {}): Promise<AILanguageModel> {
+    options.signal?.throwIfAborted();
+    return new OpenAICompatibleSession(this.config, options.temperature ?? 0.8, []);
+  }
+}
+
+/**
+ * A chat session that keeps its own message history, mirroring Prompt API sessions.
+ * The history is resent with every prompt, so it is capped and counted in `inputUsage`.
+ */
+class OpenAICompatibleSession implements AILanguageModel {
+  readonly inputQuota: number;
+
+  constructor(
+    private readonly config: OpenAICompatibleConfig,
+    private readonly temperature: number,
+    private history: ChatMessage[]
+  ) {
+    this.inputQuota = config.contextWindow || DEFAULT_CONTEXT_WINDOW;
+  }
+
+  async prompt(input: string, options: AIPromptOptions = {}): Promise<string> {
+    const response = await this.complete(input, options, false);
+
+    const data = await response.json();
+    const content: string = data?.choices?.[0]?.message?.content ?? '';
+    this.remember(input, content);
+    return content;
+  }
+
+  promptStreaming(input: string, options: AIPromptOptions = {}): ReadableStream<string> {
+    const session = this;
+    let reply = '';
+
+    return new ReadableStream<string>({
+      async start(controller) {
+        try {
+          const response = await session.complete(input, options, true);
+
+          for await (const delta of readServerSentDeltas(response)) {
+            reply += delta;
+            controller.enqueue(delta);
+          }
+
+          session.remember(input, reply);
+          controller.close();
+        } catch (error) {
+          controller.error(error);
+        }
+      }
+    });
+  }
+
+  /**
+   * Tokens the history sent with each prompt takes up
+   */
+  get inputUsage(): number {
+    return this.history.reduce((total, message) => total + estimateTokens(message.content), 0);
+  }
+
+  async countPromptTokens(input: string): Promise<number> {
+    return estimateTokens(input);
+  }
+
+  async clone(): Promise<AILanguageModel> {
+    return new OpenAICompatibleSession(this.config, this.temperature, [...this.history]);
+  }
+
+  destroy(): void {
+    this.history = [];
+  }
+
+  private async complete(input: string, options: AIPromptOptions, stream: boolean): Promise<Response> {
+    try {
+      return await request(this.config, '/chat/completions', {
+        method: 'POST',
+        body: JSON.stringify(this.buildBody(input, options, stream)),
+        signal: options.signal
+      });
+    } catch (error) {
+      // Report a server without structured output the way the Prompt API does, so callers retry without it
+      if (options.responseConstraint && isUnsupportedResponseFormat(error)) {
+        throw new DOMException(error.message, 'NotSupportedError');
+      }
+      throw error;
+    }
+  }
+
+  private buildBody(input: string, options: AIPromptOptions, stream: boolean) {
+    return {
+      model: this.config.model,
+      messages: [...this.history, { role: 'user', content: input }],
+      temperature: this.temperature,
+      stream,
+      ...(options.responseConstraint && {
+        response_format: {
+          type: 'json_schema',
+          json_schema: { name: 'response', schema: options.responseConstraint }
+        }
+      })
+    };
+  }
+
+  private remember(input: string, reply: string): void {
+    this.history.push({ role: 'user', content: input }, { role: 'assistant', content: reply });
+    // Drop the oldest exchanges, keeping the prompt and reply paired
+    while (this.history.length > 0 && this.inputUsage > this.inputQuota * MAX_HISTORY_SHARE) {
+      this.history.splice(0, 2);
+    }
+  }
+}
+
+/**
+ * Whether the endpoint rejected the request's response_format
+ */
+function isUnsupportedResponseFormat(error: unknown): error is ApiError {
+  return (
+    error instanceof ApiError &&
+    (error.statusCode === 400 || error.statusCode === 422) &&
+    /response_format|json_schema/i.test(`${error.message} ${JSON.stringify(error.details ?? '')}`)
+  );
+}
+
+/**
+ * Call the endpoint, mapping failures to ApiError / NetworkError
+ */
+async function request(config: OpenAICompatibleConfig, path: string, init: RequestInit): Promise<Response> {
+  const url = config.baseUrl.replace(/\/+$/, '') + path;
+  let response: Response;
+
+  try {
+    response = await fetch(url, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.apiKey && { Authorization: `Bearer ${config.apiKey}` })
+      }
+    });
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    throw new NetworkError(
+      `Cannot connect to ${config.baseUrl}. Is the server running?`,
+      typeof navigator !== 'undefined' && !navigator.onLine,
+      true
+    );
+  }
+
+  if (!response.ok) {
+    const details = await response.json().catch(() => null);
+    throw new ApiError(
+      details?.error?.message || `AI endpoint error: ${response.status}`,
+      response.status,
+      'openai-compatible',
+      details
+    );
+  }
+
+  return response;
+}
+
+/**
+ * Yield content deltas from an OpenAI-style server-sent event stream.
+ * Lines that aren't JSON events, such as keep-alive comments, are skipped.
+ */
+async function* readServerSentDeltas(response: Response): AsyncGenerator<string> {
+  if (!response.body) return;
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += value;
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+
+      for (const line of lines) {
+        const data = line.trim().replace(/^data:\s*/, '');
+        if (!data || !line.trim().startsWith('data:')) continue;
+        if (data === '[DONE]') return;
+
+        let event: any;
+        try {
+          event = JSON.parse(data);
+        } catch {
+          console.warn('Skipping unreadable stream event:', data);
+          continue;
+        }
+        const delta = event?.choices?.[0]?.delta?.content;
+        if (typeof delta === 'string' && delta) yield delta;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
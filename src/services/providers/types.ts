@@ -0,0 +1,32 @@
+/**
+ * AI Provider Types
+ * Shared contract for the language model backends behind ChromeAIService
+ */
+
+export type ProviderId = 'chrome-builtin' | 'openai-compatible' | 'mock';
+
+export interface ProviderAvailability {
+  available: boolean;
+  status: 'readily' | 'after-download' | 'downloading' | 'no';
+  message: string;
+}
+
+export interface ProviderSessionOptions {
+  temperature?: number;
+  topK?: number;
+  signal?: AbortSignal;
+  // Fraction (0-1) of the on-device model downloaded so far
+  onDownloadProgress?: (progress: number) => void;
+}
+
+/**
+ * A language model backend.
+ * Sessions follow the Prompt API's AILanguageModel shape so the service
+ * can treat every backend the same way.
+ */
+export interface AIProvider {
+  readonly id: ProviderId;
+  readonly label: string;
+  checkAvailability(): Promise<ProviderAvailability>;
+  createSession(options?: ProviderSessionOptions): Promise<AILanguageModel>;
+}
@@ -0,0 +1,174 @@
+/**
+ * Outreach Sequences
+ * A template of timed touches (first note, follow-ups, breakup message) and each contact's progress through it
+ */
+
+import type { MessageChannelId } from './channels';
+
+export type SequenceStepKind = 'initial' | 'follow_up' | 'breakup';
+
+export interface SequenceStep {
+  id: string;
+  day: number; // Days after the first message
+  kind: SequenceStepKind;
+  channel?: MessageChannelId;
+}
+
+export interface SequenceTemplate {
+  steps: SequenceStep[]; // Sorted by day; the first step is the initial message
+}
+
+/**
+ * Where one contact is in the sequence
+ */
+export interface ContactSequence {
+  profileUrl: string;
+  profileName: string;
+  startedAt: string; // ISO string, when the first message was saved
+  completedStepIds: string[];
+  messageIds: string[]; // Stored messages written for this sequence, oldest first
+  snoozedUntil?: string; // ISO string; no reminder before this
+  dismissedStepId?: string; // No reminder for this step
+}
+
+export type SequenceStepStatus = 'done' | 'due' | 'upcoming';
+
+export const STEP_KIND_LABELS: Record<SequenceStepKind, string> = {
+  initial: 'First message',
+  follow_up: 'Follow-up',
+  breakup: 'Breakup message'
+};
+
+export const DEFAULT_SEQUENCE_TEMPLATE: SequenceTemplate = {
+  steps: [
+    { id: 'step_initial', day: 0, kind: 'initial', channel: 'connection_note' },
+    { id: 'step_follow_up', day: 4, kind: 'follow_up', channel: 'direct_message' },
+    { id: 'step_breakup', day: 10, kind: 'breakup', channel: 'direct_message' }
+  ]
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Whole days between two dates, rounded down
+ */
+export function daysBetween(from: Date | string, to: Date | string): number {
+  return Math.floor((new Date(to).getTime() - new Date(from).getTime()) / DAY_MS);
+}
+
+/**
+ * Start tracking a contact from their first message
+ */
+export function startContactSequence(
+  template: SequenceTemplate,
+  contact: { profileUrl: string; profileName: string },
+  messageId: string,
+  startedAt: string = new Date().toISOString()
+): ContactSequence {
+  return {
+    ...contact,
+    startedAt,
+    completedStepIds: template.steps.length > 0 ? [template.steps[0].id] : [],
+    messageIds: [messageId]
+  };
+}
+
+/**
+ * Record a message written for a step.
+ * Writing the latest step again (e.g. regenerating it) replaces its message instead of adding one.
+ */
+export function completeStep(progress: ContactSequence, stepId: string, messageId: string): ContactSequence {
+  const lastStepId = progress.completedStepIds[progress.completedStepIds.length - 1];
+  if (stepId === lastStepId) {
+    return { ...progress, messageIds: [...progress.messageIds.slice(0, -1), messageId] };
+  }
+
+  return {
+    ...progress,
+    completedStepIds: [...progress.completedStepIds.filter(id => id !== stepId), stepId],
+    messageIds: [...progress.messageIds, messageId]
+  };
+}
+
+/**
+ * The first step not done yet, or null once the sequence is finished
+ */
+export function getNextStep(template: SequenceTemplate, progress: ContactSequence): SequenceStep | null {
+  return template.steps.find(step => !progress.completedStepIds.includes(step.id)) ?? null;
+}
+
+/**
+ * When a step is due for this contact
+ */
+export function getStepDueDate(step: SequenceStep, progress: ContactSequence): Date {
+  return new Date(new Date(progress.startedAt).getTime() + step.day * DAY_MS);
+}
+
+/**
+ * When to remind the user about the next step, or null when there is nothing to remind about
+ */
+export function getReminderTime(template: SequenceTemplate, progress: ContactSequence): Date | null {
+  const nextStep = getNextStep(template, progress);
+  if (!nextStep || nextStep.id === progress.dismissedStepId) return null;
+
+  const due = getStepDueDate(nextStep, progress);
+  const snoozedUntil = progress.snoozedUntil ? new Date(progress.snoozedUntil) : null;
+  return snoozedUntil && snoozedUntil > due ? snoozedUntil : due;
+}
+
+export function snoozeReminder(progress: ContactSequence, days: number, now: Date = new Date()): ContactSequence {
+  return { ...progress, snoozedUntil: new Date(now.getTime() + days * DAY_MS).toISOString() };
+}
+
+/**
+ * Stop reminding about the next step. Later steps still get reminders.
+ */
+export function dismissReminder(template: SequenceTemplate, progress: ContactSequence): ContactSequence {
+  const nextStep = getNextStep(template, progress);
+  return nextStep ? { ...progress, dismissedStepId: nextStep.id } : progress;
+}
+
+export function getStepStatus(
+  step: SequenceStep,
+  progress: ContactSequence,
+  now: Date = new Date()
+): SequenceStepStatus {
+  if (progress.completedStepIds.includes(step.id)) return 'done';
+  return getStepDueDate(step, progress).getTime() <= now.getTime() ? 'due' : 'upcoming';
+}
+
+/**
+ * Phrases of `size` words or more that `text` repeats from earlier messages.
+ * Overlapping matches are merged into one phrase. Used to catch follow-ups that recycle the first message.
+ */
+export function findRepeatedPhrases(text: string, previousTexts: string[], size = 6): string[] {
+  const words = (value: string) => value.toLowerCase().match(/[\p{L}\p{N}']+/gu) || [];
+  const previous = new Set<string>();
+
+  for (const previousText of previousTexts) {
+    const previousWords = words(previousText);
+    for (let i = 0; i + size <= previousWords.length; i++) {
+      previous.add(previousWords.slice(i, i + size).join(' '));
+    }
+  }
+
+  const textWords = words(text);
+  const repeated: string[] = [];
+  let runStart = -1;
+  let runEnd = -1;
+
+  for (let i = 0; i + size <= textWords.length; i++) {
+    if (!previous.has(textWords.slice(i, i + size).join(' '))) continue;
+
+    if (runStart >= 0 && i <= runEnd) {
+      runEnd = i + size;
+    } else {
+      if (runStart >= 0) repeated.push(textWords.slice(runStart, runEnd).join(' '));
+      runStart = i;
+      runEnd = i + size;
+    }
+  }
+  if (runStart >= 0) repeated.push(textWords.slice(runStart, runEnd).join(' '));
+
+  return repeated;
+}
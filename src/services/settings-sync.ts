@@ -0,0 +1,254 @@
+/**
+ * Settings Sync
+ * Optionally mirrors settings to chrome.storage.sync so the sender profile and preferences
+ * follow the user to their other browsers. History, contacts and the AI provider stay on
+ * each device.
+ *
+ * Each setting is its own sync item stamped with when it changed, so devices editing
+ * different settings don't overwrite each other. When two devices changed the same setting,
+ * the later change wins. A setting too big for one item is split across numbered chunks.
+ */
+
+import type { ExtensionSettings } from './storage';
+
+export const SYNC_ENABLED_KEY = 'colder_sync_enabled';
+// Per setting, what this device last changed or synced and whether the sync area has it yet
+const SYNC_STATE_KEY = 'colder_sync_state';
+const ITEM_PREFIX = 'colder_sync:';
+const CHUNK_SEPARATOR = '#';
+
+// chrome.storage.sync limits. Each sync makes at most two writes, well inside the per-minute cap.
+export const SYNC_QUOTA_BYTES = 102400;
+export const SYNC_QUOTA_BYTES_PER_ITEM = 8192;
+export const SYNC_MAX_ITEMS = 512;
+
+// Which provider works depends on the device, and an endpoint's API key shouldn't leave it
+const LOCAL_ONLY_FIELDS: string[] = ['aiProvider', 'customEndpoint'];
+
+interface FieldState {
+  updatedAt: string; // ISO string
+  hash: string;
+  synced: boolean;
+}
+
+type SyncState = Record<string, FieldState>;
+
+// The setting as JSON, or `parts` chunk items holding it
+interface SyncedItem {
+  updatedAt: string; // ISO string
+  json?: string;
+  parts?: number;
+}
+
+export interface SyncResult {
+  settings: ExtensionSettings; // Local settings with newer synced values applied
+  changed: boolean; // Whether `settings` differs from what was passed in
+  quotaExceeded: boolean; // Local changes that didn't fit were left unsynced
+}
+
+const itemKey = (field: string) => `${ITEM_PREFIX}${field}`;
+const chunkKey = (field: string, index: number) => `${ITEM_PREFIX}${field}${CHUNK_SEPARATOR}${index}`;
+
+/**
+ * Bytes an item counts against the quota: its key plus its value as JSON
+ */
+export const itemBytes = (key: string, value: unknown): number =>
+  new TextEncoder().encode(key + JSON.stringify(value)).length;
+
+// Cheap fingerprint to spot changes without keeping a copy of every setting
+function hashJson(json: string): string {
+  let hash = 5381;
+  for (let i = 0; i < json.length; i++) {
+    hash = ((hash << 5) + hash + json.charCodeAt(i)) | 0;
+  }
+  return `${json.length}:${(hash >>> 0).toString(36)}`;
+}
+
+// Unset settings sync as null so other devices clear them too. Blank counts as unset,
+// so a fresh install's empty defaults never override a profile set up elsewhere.
+const toJson = (settings: ExtensionSettings, field: string): string => {
+  const value = (settings as Record<string, unknown>)[field];
+  return JSON.stringify(value === '' || value === undefined ? null : value);
+};
+
+const isSynced = (field: string) => !LOCAL_ONLY_FIELDS.includes(field);
+
+/**
+ * Split `text` into as few chunks as fit in one item each
+ */
+function splitToFit(field: string, text: string): string[] {
+  const chunks: string[] = [];
+  let rest = text;
+  while (rest) {
+    let size = Math.min(rest.length, SYNC_QUOTA_BYTES_PER_ITEM);
+    while (itemBytes(chunkKey(field, chunks.length), rest.slice(0, size)) > SYNC_QUOTA_BYTES_PER_ITEM) {
+      size = Math.floor(size * 0.9);
+    }
+    // Keep surrogate pairs together
+    if (/[\ud800-\udbff]/.test(rest.charAt(size - 1))) size--;
+    chunks.push(rest.slice(0, size));
+    rest = rest.slice(size);
+  }
+  return chunks;
+}
+
+/**
+ * The sync items for one setting: a single item when it fits, otherwise a header and chunks
+ */
+export function encodeSetting(field: string, json: string, updatedAt: string): Record<string, unknown> {
+  const item: SyncedItem = { updatedAt, json };
+  if (itemBytes(itemKey(field), item) <= SYNC_QUOTA_BYTES_PER_ITEM) {
+    return { [itemKey(field)]: item };
+  }
+  const chunks = splitToFit(field, json);
+  return {
+    [itemKey(field)]: { updatedAt, parts: chunks.length } satisfies SyncedItem,
+    ...Object.fromEntries(chunks.map((chunk, index) => [chunkKey(field, index), chunk]))
+  };
+}
+
+/**
+ * Read settings back out of the sync area's items. A setting whose chunks haven't all
+ * arrived yet is left out until they have.
+ */
+export function decodeSettings(items: Record<string, unknown>): Record<string, { updatedAt: string; json: string }> {
+  const settings: Record<string, { updatedAt: string; json: string }> = {};
+  for (const [key, value] of Object.entries(items)) {
+    if (!key.startsWith(ITEM_PREFIX) || key.includes(CHUNK_SEPARATOR)) continue;
+    const field = key.slice(ITEM_PREFIX.length);
+    const item = value as SyncedItem;
+
+    let json = item.json;
+    if (item.parts !== undefined) {
+      const chunks = Array.from({ length: item.parts }, (_, index) => items[chunkKey(field, index)]);
+      if (chunks.some(chunk => typeof chunk !== 'string')) continue;
+      json = chunks.join('');
+    }
+    try {
+      if (json !== undefined) {
+        JSON.parse(json);
+        settings[field] = { updatedAt: item.updatedAt, json };
+      }
+    } catch {
+      console.warn(`[Colder] Ignoring unreadable synced setting "${field}"`);
+    }
+  }
+  return settings;
+}
+
+async function getState(local: chrome.storage.StorageArea): Promise<SyncState> {
+  const result = await local.get(SYNC_STATE_KEY);
+  return result[SYNC_STATE_KEY] || {};
+}
+
+export async function isSyncEnabled(local: chrome.storage.StorageArea = chrome.storage.local): Promise<boolean> {
+  const result = await local.get(SYNC_ENABLED_KEY);
+  return result[SYNC_ENABLED_KEY] === true;
+}
+
+/**
+ * Turn sync on or off for this device. Either way this device starts over: turning it on
+ * takes whatever is already synced, turning it off leaves synced settings for other devices.
+ */
+export async function setSyncEnabled(enabled: boolean, local: chrome.storage.StorageArea = chrome.storage.local): Promise<void> {
+  await local.set({ [SYNC_ENABLED_KEY]: enabled, [SYNC_STATE_KEY]: {} });
+}
+
+/**
+ * Note which settings were just changed on this device, so reconcileSettings sends them
+ */
+export async function recordLocalChanges(
+  settings: ExtensionSettings,
+  local: chrome.storage.StorageArea = chrome.storage.local
+): Promise<void> {
+  const state = await getState(local);
+  const updatedAt = new Date().toISOString();
+  const fields = new Set([...Object.keys(settings), ...Object.keys(state)].filter(isSynced));
+
+  const next = { ...state };
+  for (const field of fields) {
+    const hash = hashJson(toJson(settings, field));
+    if (state[field]?.hash !== hash) next[field] = { updatedAt, hash, synced: false };
+  }
+  await local.set({ [SYNC_STATE_KEY]: next });
+}
+
+/**
+ * Bring local and synced settings together, setting by setting:
+ * - a setting changed only on one side takes that side's value
+ * - a setting changed on both takes whichever change is later
+ * - a setting this device has never synced takes the synced value, so a new device
+ *   picks up the profile already set up elsewhere
+ * Local changes are written in one go, and only if they fit the sync quota.
+ */
+export async function reconcileSettings(
+  settings: ExtensionSettings,
+  sync: chrome.storage.StorageArea = chrome.storage.sync,
+  local: chrome.storage.StorageArea = chrome.storage.local
+): Promise<SyncResult> {
+  const existing: Record<string, unknown> = await sync.get(null);
+  const remote = decodeSettings(existing);
+  const state = await getState(local);
+  const merged: Record<string, unknown> = { ...settings };
+  const nextState = { ...state };
+  const outgoing: Record<string, unknown> = {};
+  let changed = false;
+
+  const fields = new Set([...Object.keys(settings), ...Object.keys(state), ...Object.keys(remote)].filter(isSynced));
+  for (const field of fields) {
+    const json = toJson(settings, field);
+    const hash = hashJson(json);
+    const mine = state[field];
+    const theirs = remote[field];
+
+    if (theirs && hashJson(theirs.json) === hash) {
+      nextState[field] = { updatedAt: theirs.updatedAt, hash, synced: true };
+      continue;
+    }
+
+    const takeTheirs =
+      theirs && (!mine || mine.synced || mine.hash !== hash || theirs.updatedAt > mine.updatedAt);
+    if (takeTheirs) {
+      const value = JSON.parse(theirs.json);
+      if (value === null) delete merged[field];
+      else merged[field] = value;
+      nextState[field] = { updatedAt: theirs.updatedAt, hash: hashJson(theirs.json), synced: true };
+      changed = true;
+    } else if (json !== 'null' || theirs) {
+      const updatedAt = mine?.updatedAt || new Date().toISOString();
+      Object.assign(outgoing, encodeSetting(field, json, updatedAt));
+      nextState[field] = { updatedAt, hash, synced: true };
+    }
+  }
+
+  // Chunks of settings being rewritten that the new version no longer needs
+  const outgoingFields = new Set(Object.keys(outgoing).map(key => key.slice(ITEM_PREFIX.length).split(CHUNK_SEPARATOR)[0]));
+  const stale = Object.keys(existing).filter(
+    key =>
+      key.includes(CHUNK_SEPARATOR) &&
+      outgoingFields.has(key.slice(ITEM_PREFIX.length).split(CHUNK_SEPARATOR)[0]) &&
+      !(key in outgoing)
+  );
+
+  const kept = Object.entries(existing).filter(([key]) => !(key in outgoing) && !stale.includes(key));
+  const all = [...kept, ...Object.entries(outgoing)];
+  const totalBytes = all.reduce((total, [key, value]) => total + itemBytes(key, value), 0);
+  const quotaExceeded = totalBytes > SYNC_QUOTA_BYTES || all.length > SYNC_MAX_ITEMS;
+
+  if (Object.keys(outgoing).length > 0 && !quotaExceeded) {
+    await sync.set(outgoing);
+    if (stale.length > 0) await sync.remove(stale);
+  } else if (quotaExceeded) {
+    // Leave them marked unsynced so they go out once they fit
+    for (const field of outgoingFields) nextState[field] = { ...nextState[field], synced: false };
+  }
+  await local.set({ [SYNC_STATE_KEY]: nextState });
+
+  return { settings: merged as ExtensionSettings, changed, quotaExceeded };
+}
+
+/**
+ * Whether a chrome.storage change touched synced settings
+ */
+export const isSettingsSyncChange = (changes: Record<string, chrome.storage.StorageChange>): boolean =>
+  Object.keys(changes).some(key => key.startsWith(ITEM_PREFIX));
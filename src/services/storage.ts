@@ -1,14 +1,43 @@
 /**
  * Chrome Storage Service
- * Manages user settings and message history using Chrome Storage API
+ * Manages user settings and message history using Chrome Storage API.
+ * Messages and contacts live in IndexedDB through the message store.
  */
 
+import type { ModelDownloadState } from './chrome-ai';
+import type { OpenAICompatibleConfig, ProviderId } from './providers';
+import type { SenderProfile } from './common-ground';
+import type { LinkedInAccountType, MessageChannelId } from './channels';
+import type { ContactSequence, SequenceTemplate } from './sequences';
+import { hasContactProfile, linkMessage, type Contact, type ContactSnapshot } from './contacts';
+import { messageStore, type MessageGroupPage, type MessagePage, type MessageQuery } from './message-store';
+import { CURRENT_SCHEMA_VERSION, markSchemaCurrent } from './migrations';
+import { BACKUP_FORMAT, getMessageKey, validateSettings, type BackupData, type ImportMode, type ImportPreview, type ImportResult } from './backup';
+import { isSyncEnabled, recordLocalChanges, reconcileSettings, setSyncEnabled } from './settings-sync';
+import { StorageError } from '../utils/error-handlers';
+import { getDoNotContactKey, type DoNotContactEntry, type NewDoNotContactEntry } from './do-not-contact';
+
 export interface ExtensionSettings {
   userName?: string;
   userRole?: string;
   userCompany?: string;
   userBackground?: string;
   userValueProposition?: string;
+  senderProfile?: SenderProfile; // Structured history used to find common ground
+  linkedinAccountType?: LinkedInAccountType; // Defaults to 'free', which has shorter connection notes
+  sequenceTemplate?: SequenceTemplate; // Defaults to DEFAULT_SEQUENCE_TEMPLATE
+  aiProvider?: ProviderId; // Defaults to 'chrome-builtin'
+  customEndpoint?: OpenAICompatibleConfig;
+  generationDefaults?: GenerationDefaults;
+}
+
+/**
+ * What the Generate view starts with
+ */
+export interface GenerationDefaults {
+  tone?: string;
+  length?: string;
+  purpose?: string;
 }
 
 export interface StoredMessage {
@@ -17,10 +46,30 @@ export interface StoredMessage {
   wordCount: number;
   targetProfileUrl: string;
   targetProfileName: string;
+  targetJobTitle?: string;
+  targetCompany?: string;
   tone: string;
   length: string;
   purpose: string;
+  channel?: MessageChannelId;
+  subject?: string; // Chosen subject line (InMail, email)
+  subjectOptions?: string[];
+  sequenceStepId?: string; // The sequence step this message was written for
+  replyToThreadUrl?: string; // Set for replies drafted in a messaging thread
+  contactId?: string; // The contact this message was written to
   generatedAt: string; // ISO string
+  variantIndex?: number; // Which of the generated variants was chosen (0-based)
+  variantCount?: number;
+  variantAngle?: string;
+}
+
+/**
+ * A follow-up the side panel should write as soon as it shows this profile,
+ * left by a reminder notification
+ */
+export interface PendingFollowUp {
+  profileUrl: string;
+  requestedAt: string; // ISO string
 }
 
 export interface OnboardingStatus {
@@ -29,21 +78,14 @@ export interface OnboardingStatus {
   completedAt?: string; // ISO string
 }
 
-interface StorageData {
-  settings: ExtensionSettings;
-  messages: StoredMessage[];
-  dailyUsage: {
-    date: string; // YYYY-MM-DD
-    count: number;
-  };
-}
-
 class ChromeStorageService {
   private readonly SETTINGS_KEY = 'colder_settings';
-  private readonly MESSAGES_KEY = 'colder_messages';
   private readonly USAGE_KEY = 'colder_usage';
   private readonly ONBOARDING_KEY = 'colder_onboarding';
-  private readonly MAX_MESSAGES = 100; // Keep last 100 messages
+  private readonly MODEL_DOWNLOAD_KEY = 'colder_model_download';
+  private readonly SEQUENCES_KEY = 'colder_sequences';
+  private readonly PENDING_FOLLOW_UP_KEY = 'colder_pending_follow_up';
+  private readonly DO_NOT_CONTACT_KEY = 'colder_do_not_contact';
 
   /**
    * Get user settings
@@ -59,10 +101,14 @@ class ChromeStorageService {
   }
 
   /**
-   * Save user settings
+   * Save user settings, and send them to other devices when sync is on
+   * @throws StorageError when they saved here but could not be synced
    */
   async saveSettings(settings: ExtensionSettings): Promise<void> {
+    let syncing = false;
     try {
+      syncing = await isSyncEnabled();
+      if (syncing) await recordLocalChanges(settings);
       await chrome.storage.local.set({
         [this.SETTINGS_KEY]: settings
       });
@@ -70,6 +116,75 @@ class ChromeStorageService {
       console.error('Error saving settings:', error);
       throw new Error('Failed to save settings');
     }
+
+    if (syncing) await this.syncSettings(settings);
+  }
+
+  /**
+   * Exchange settings with chrome.storage.sync, keeping whichever change to each is newer.
+   * Does nothing while sync is off.
+   * @returns The settings now saved on this device
+   * @throws StorageError when local changes are too large to sync; they stay saved here
+   */
+  async syncSettings(settings?: ExtensionSettings): Promise<ExtensionSettings> {
+    const current = settings || (await this.getSettings());
+    if (!(await isSyncEnabled())) return current;
+
+    let result;
+    try {
+      result = await reconcileSettings(current);
+      if (result.changed) {
+        await chrome.storage.local.set({ [this.SETTINGS_KEY]: result.settings });
+      }
+    } catch (error) {
+      console.error('Error syncing settings:', error);
+      throw new StorageError('Failed to sync settings', false, 'sync');
+    }
+
+    if (result.quotaExceeded) {
+      throw new StorageError('Settings are saved on this device but are too large to sync', true, 'sync');
+    }
+    return result.settings;
+  }
+
+  async isSettingsSyncEnabled(): Promise<boolean> {
+    try {
+      return await isSyncEnabled();
+    } catch (error) {
+      console.error('Error reading sync setting:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Turn settings sync on or off for this device. Turning it on takes settings
+   * already synced from other devices and sends the rest.
+   * @returns The settings now saved on this device
+   */
+  async setSettingsSyncEnabled(enabled: boolean): Promise<ExtensionSettings> {
+    try {
+      await setSyncEnabled(enabled);
+    } catch (error) {
+      console.error('Error saving sync setting:', error);
+      throw new Error('Failed to save sync setting');
+    }
+    return this.syncSettings();
+  }
+
+  /**
+   * Call `listener` with the new and previously saved settings whenever they change,
+   * including from another device
+   * @returns A function that removes the listener
+   */
+  onSettingsChange(listener: (settings: ExtensionSettings, previous: ExtensionSettings) => void): () => void {
+    const handleChange = (changes: Record<string, chrome.storage.StorageChange>, areaName: string) => {
+      const change = changes[this.SETTINGS_KEY];
+      if (areaName === 'local' && change?.newValue) {
+        listener(change.newValue, change.oldValue || this.getDefaultSettings());
+      }
+    };
+    chrome.storage.onChanged.addListener(handleChange);
+    return () => chrome.storage.onChanged.removeListener(handleChange);
   }
 
   /**
@@ -86,27 +201,37 @@ class ChromeStorageService {
   }
 
   /**
-   * Save generated message
+   * Save generated message and link it to the recipient's contact, creating the contact if needed.
+   * Replies with no profile to file them under are saved without a contact.
+   * @param profile Extra profile details for the contact's snapshot
    */
-  async saveMessage(message: Omit<StoredMessage, 'id' | 'generatedAt'>): Promise<void> {
+  async saveMessage(
+    message: Omit<StoredMessage, 'id' | 'generatedAt' | 'contactId'>,
+    profile: Partial<ContactSnapshot> = {}
+  ): Promise<StoredMessage> {
     try {
-      const messages = await this.getMessages();
+      const generatedAt = new Date().toISOString();
+      // The id is the record's key, so two saves in the same millisecond must not share one
+      const id = `msg_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+
+      if (!hasContactProfile(message)) {
+        const newMessage: StoredMessage = { ...message, id, generatedAt };
+        await messageStore.putMessage(newMessage);
+        return newMessage;
+      }
+
+      const existing = await messageStore.getContactByProfileUrl(message.targetProfileUrl);
+      const contact = linkMessage(existing, { ...message, id, generatedAt }, profile);
 
       const newMessage: StoredMessage = {
         ...message,
-        id: `msg_${Date.now()}`,
-        generatedAt: new Date().toISOString()
+        id,
+        generatedAt,
+        contactId: contact.id
       };
+      await messageStore.putMessageWithContact(newMessage, contact);
 
-      // Add new message to the beginning of the array
-      messages.unshift(newMessage);
-
-      // Keep only the last MAX_MESSAGES messages
-      const trimmedMessages = messages.slice(0, this.MAX_MESSAGES);
-
-      await chrome.storage.local.set({
-        [this.MESSAGES_KEY]: trimmedMessages
-      });
+      return newMessage;
     } catch (error) {
       console.error('Error saving message:', error);
       throw new Error('Failed to save message');
@@ -114,29 +239,73 @@ class ChromeStorageService {
   }
 
   /**
-   * Get all saved messages
+   * Update fields of a saved message
+   */
+  async updateMessage(messageId: string, patch: Partial<Omit<StoredMessage, 'id'>>): Promise<void> {
+    try {
+      const message = await messageStore.getMessage(messageId);
+      if (message) await messageStore.putMessage({ ...message, ...patch });
+    } catch (error) {
+      console.error('Error updating message:', error);
+      throw new Error('Failed to update message');
+    }
+  }
+
+  /**
+   * Get all saved messages, newest first
    */
   async getMessages(): Promise<StoredMessage[]> {
     try {
-      const result = await chrome.storage.local.get(this.MESSAGES_KEY);
-      return result[this.MESSAGES_KEY] || [];
+      const { messages } = await messageStore.queryMessages();
+      return messages;
     } catch (error) {
       console.error('Error reading messages:', error);
       return [];
     }
   }
 
+  /**
+   * Get one page of saved messages matching the query, newest first unless asked otherwise
+   */
+  async queryMessages(query: MessageQuery): Promise<MessagePage> {
+    try {
+      return await messageStore.queryMessages(query);
+    } catch (error) {
+      console.error('Error querying messages:', error);
+      throw new Error('Failed to load messages');
+    }
+  }
+
+  /**
+   * Get one page of saved messages matching the query, grouped by recipient
+   */
+  async queryMessageGroups(query: MessageQuery): Promise<MessageGroupPage> {
+    try {
+      return await messageStore.queryMessageGroups(query);
+    } catch (error) {
+      console.error('Error querying messages:', error);
+      throw new Error('Failed to load messages');
+    }
+  }
+
+  /**
+   * Count all saved messages
+   */
+  async countMessages(): Promise<number> {
+    try {
+      return await messageStore.countMessages();
+    } catch (error) {
+      console.error('Error counting messages:', error);
+      return 0;
+    }
+  }
+
   /**
    * Delete a specific message
    */
   async deleteMessage(messageId: string): Promise<void> {
     try {
-      const messages = await this.getMessages();
-      const filtered = messages.filter(msg => msg.id !== messageId);
-
-      await chrome.storage.local.set({
-        [this.MESSAGES_KEY]: filtered
-      });
+      await messageStore.deleteMessage(messageId);
     } catch (error) {
       console.error('Error deleting message:', error);
       throw new Error('Failed to delete message');
@@ -144,12 +313,14 @@ class ChromeStorageService {
   }
 
   /**
-   * Clear all messages
+   * Clear all messages, along with the sequence progress that points at them.
+   * Contacts keep their stage, tags and notes.
    */
   async clearMessages(): Promise<void> {
     try {
+      await messageStore.clearMessages();
       await chrome.storage.local.set({
-        [this.MESSAGES_KEY]: []
+        [this.SEQUENCES_KEY]: {}
       });
     } catch (error) {
       console.error('Error clearing messages:', error);
@@ -157,6 +328,179 @@ class ChromeStorageService {
     }
   }
 
+  /**
+   * Get all contacts, most recently added first
+   */
+  async getContacts(): Promise<Contact[]> {
+    try {
+      return await messageStore.getContacts();
+    } catch (error) {
+      console.error('Error reading contacts:', error);
+      return [];
+    }
+  }
+
+  async getContactByProfileUrl(profileUrl: string): Promise<Contact | null> {
+    try {
+      return await messageStore.getContactByProfileUrl(profileUrl);
+    } catch (error) {
+      console.error('Error reading contact:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Update a contact's stage, tags or notes
+   */
+  async updateContact(contactId: string, patch: Partial<Omit<Contact, 'id' | 'profileUrl'>>): Promise<Contact> {
+    try {
+      const existing = await messageStore.getContact(contactId);
+      if (!existing) throw new Error('Contact not found');
+
+      const updated: Contact = {
+        ...existing,
+        ...patch,
+        ...(patch.stage && patch.stage !== existing.stage && { stageUpdatedAt: new Date().toISOString() })
+      };
+      await messageStore.putContact(updated);
+      return updated;
+    } catch (error) {
+      console.error('Error updating contact:', error);
+      throw new Error('Failed to update contact');
+    }
+  }
+
+  /**
+   * Get every contact's sequence progress, keyed by profile URL
+   */
+  async getContactSequences(): Promise<Record<string, ContactSequence>> {
+    try {
+      const result = await chrome.storage.local.get(this.SEQUENCES_KEY);
+      return result[this.SEQUENCES_KEY] || {};
+    } catch (error) {
+      console.error('Error reading sequences:', error);
+      return {};
+    }
+  }
+
+  /**
+   * Get one contact's sequence progress
+   */
+  async getContactSequence(profileUrl: string): Promise<ContactSequence | null> {
+    const sequences = await this.getContactSequences();
+    return sequences[profileUrl] || null;
+  }
+
+  /**
+   * Save one contact's sequence progress
+   */
+  async saveContactSequence(sequence: ContactSequence): Promise<void> {
+    try {
+      const sequences = await this.getContactSequences();
+      await chrome.storage.local.set({
+        [this.SEQUENCES_KEY]: { ...sequences, [sequence.profileUrl]: sequence }
+      });
+    } catch (error) {
+      console.error('Error saving sequence:', error);
+      throw new Error('Failed to save sequence');
+    }
+  }
+
+  /**
+   * Call `listener` whenever sequence progress or the sequence template may have changed
+   * @returns A function that removes the listener
+   */
+  onSequencesChange(listener: () => void): () => void {
+    const handleChange = (changes: Record<string, chrome.storage.StorageChange>, areaName: string) => {
+      if (areaName === 'local' && (this.SEQUENCES_KEY in changes || this.SETTINGS_KEY in changes)) {
+        listener();
+      }
+    };
+    chrome.storage.onChanged.addListener(handleChange);
+    return () => chrome.storage.onChanged.removeListener(handleChange);
+  }
+
+  async setPendingFollowUp(profileUrl: string): Promise<void> {
+    const pending: PendingFollowUp = { profileUrl, requestedAt: new Date().toISOString() };
+    await chrome.storage.local.set({ [this.PENDING_FOLLOW_UP_KEY]: pending });
+  }
+
+  /**
+   * Read the pending follow-up and clear it, so it is only written once
+   */
+  async takePendingFollowUp(): Promise<PendingFollowUp | null> {
+    try {
+      const result = await chrome.storage.local.get(this.PENDING_FOLLOW_UP_KEY);
+      const pending: PendingFollowUp | undefined = result[this.PENDING_FOLLOW_UP_KEY];
+      if (pending) await chrome.storage.local.remove(this.PENDING_FOLLOW_UP_KEY);
+      return pending || null;
+    } catch (error) {
+      console.error('Error reading pending follow-up:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Call `listener` when a reminder leaves a new pending follow-up
+   * @returns A function that removes the listener
+   */
+  onPendingFollowUp(listener: (pending: PendingFollowUp) => void): () => void {
+    const handleChange = (changes: Record<string, chrome.storage.StorageChange>, areaName: string) => {
+      const pending = changes[this.PENDING_FOLLOW_UP_KEY]?.newValue;
+      if (areaName === 'local' && pending) listener(pending);
+    };
+    chrome.storage.onChanged.addListener(handleChange);
+    return () => chrome.storage.onChanged.removeListener(handleChange);
+  }
+
+  async getDoNotContactList(): Promise<DoNotContactEntry[]> {
+    try {
+      const result = await chrome.storage.local.get(this.DO_NOT_CONTACT_KEY);
+      return result[this.DO_NOT_CONTACT_KEY] || [];
+    } catch (error) {
+      console.error('Error reading do-not-contact list:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Add entries to the do-not-contact list, skipping any already on it
+   * @returns How many were added and how many were already listed
+   */
+  async addDoNotContactEntries(entries: NewDoNotContactEntry[]): Promise<{ added: number; duplicates: number }> {
+    try {
+      const list = await this.getDoNotContactList();
+      const keys = new Set(list.map(getDoNotContactKey));
+      const addedAt = new Date().toISOString();
+      const added: DoNotContactEntry[] = [];
+
+      entries.forEach((entry, index) => {
+        const key = getDoNotContactKey(entry);
+        if (keys.has(key)) return;
+        keys.add(key);
+        added.push({ ...entry, id: `dnc_${Date.now()}_${index}`, addedAt });
+      });
+
+      await chrome.storage.local.set({ [this.DO_NOT_CONTACT_KEY]: [...list, ...added] });
+      return { added: added.length, duplicates: entries.length - added.length };
+    } catch (error) {
+      console.error('Error saving do-not-contact list:', error);
+      throw new Error('Failed to save do-not-contact list');
+    }
+  }
+
+  async removeDoNotContactEntry(entryId: string): Promise<void> {
+    try {
+      const list = await this.getDoNotContactList();
+      await chrome.storage.local.set({
+        [this.DO_NOT_CONTACT_KEY]: list.filter(entry => entry.id !== entryId)
+      });
+    } catch (error) {
+      console.error('Error saving do-not-contact list:', error);
+      throw new Error('Failed to save do-not-contact list');
+    }
+  }
+
   /**
    * Get daily usage count
    */
@@ -235,12 +579,12 @@ class ChromeStorageService {
   }> {
     try {
       const bytesInUse = await chrome.storage.local.getBytesInUse();
-      const messages = await this.getMessages();
+      const messagesCount = await messageStore.countMessages();
       const settings = await this.getSettings();
 
       return {
         bytesInUse,
-        messagesCount: messages.length,
+        messagesCount,
         hasSettings: !!(settings.userName || settings.userRole)
       };
     } catch (error) {
@@ -259,6 +603,9 @@ class ChromeStorageService {
   async clearAllData(): Promise<void> {
     try {
       await chrome.storage.local.clear();
+      await messageStore.clear();
+      // Nothing is left to migrate
+      await markSchemaCurrent();
     } catch (error) {
       console.error('Error clearing data:', error);
       throw new Error('Failed to clear data');
@@ -266,17 +613,29 @@ class ChromeStorageService {
   }
 
   /**
-   * Export all data
+   * Export everything a backup restores
    */
-  async exportData(): Promise<StorageData> {
+  async exportData(): Promise<BackupData> {
     try {
       const settings = await this.getSettings();
       const messages = await this.getMessages();
+      const contacts = await messageStore.getContacts();
+      const sequences = await this.getContactSequences();
+      const doNotContact = await this.getDoNotContactList();
       const result = await chrome.storage.local.get(this.USAGE_KEY);
 
       return {
-        settings,
+        format: BACKUP_FORMAT,
+        schemaVersion: CURRENT_SCHEMA_VERSION,
+        exportedAt: new Date().toISOString(),
+        // Backup files get copied around, so the endpoint's API key stays on this device
+        settings: settings.customEndpoint
+          ? { ...settings, customEndpoint: { ...settings.customEndpoint, apiKey: undefined } }
+          : settings,
         messages,
+        contacts,
+        sequences,
+        doNotContact,
         dailyUsage: result[this.USAGE_KEY] || { date: '', count: 0 }
       };
     } catch (error) {
@@ -286,25 +645,93 @@ class ChromeStorageService {
   }
 
   /**
-   * Import data
+   * Import a file already checked by parseBackupJson or parseBackupCsv.
+   * Merging skips messages already stored, matched by id or content, and folds each imported
+   * contact into the stored one with the same profile URL, keeping the stored stage and notes.
+   * Replacing swaps history, contacts and sequences for the file's, and restores its settings,
+   * do-not-contact list and usage when it has them. Backups carry no API key, so the saved one is kept.
    */
-  async importData(data: Partial<StorageData>): Promise<void> {
+  async importData(data: ImportPreview, mode: ImportMode = 'merge'): Promise<ImportResult> {
     try {
-      if (data.settings) {
-        await this.saveSettings(data.settings);
+      const storedMessages = mode === 'merge' ? await this.getMessages() : [];
+      const storedContacts = mode === 'merge' ? await messageStore.getContacts() : [];
+
+      const seen = new Set(storedMessages.flatMap(message => [message.id, getMessageKey(message)]));
+      const added: StoredMessage[] = [];
+      for (const message of data.messages) {
+        const key = getMessageKey(message);
+        if (seen.has(message.id) || seen.has(key)) continue;
+        seen.add(message.id);
+        seen.add(key);
+        added.push(message);
       }
-
-      if (data.messages) {
-        await chrome.storage.local.set({
-          [this.MESSAGES_KEY]: data.messages
-        });
+      // Imported contacts may list messages that were skipped as copies under another id
+      const messageIds = new Set([...storedMessages, ...added].map(message => message.id));
+
+      const contacts = new Map(storedContacts.map(contact => [contact.profileUrl, contact]));
+      const changed = new Map<string, Contact>();
+      for (const imported of data.contacts) {
+        const stored = contacts.get(imported.profileUrl);
+        const importedIds = imported.messageIds.filter(id => messageIds.has(id));
+        const contact: Contact = stored
+          ? {
+              ...stored,
+              tags: [
+                ...stored.tags,
+                ...imported.tags.filter(tag => !stored.tags.some(other => other.toLowerCase() === tag.toLowerCase()))
+              ],
+              notes: stored.notes || imported.notes,
+              messageIds: [...new Set([...stored.messageIds, ...importedIds])]
+            }
+          : { ...imported, messageIds: importedIds };
+        contacts.set(contact.profileUrl, contact);
+        changed.set(contact.profileUrl, contact);
       }
 
-      if (data.dailyUsage) {
-        await chrome.storage.local.set({
-          [this.USAGE_KEY]: data.dailyUsage
+      // Oldest first, so a contact created here lists its messages in order
+      const linked = [...added]
+        .sort((a, b) => a.generatedAt.localeCompare(b.generatedAt))
+        .map(message => {
+          if (!hasContactProfile(message)) return message;
+          const existing = contacts.get(message.targetProfileUrl) || null;
+          const contact = !existing
+            ? linkMessage(null, message)
+            : existing.messageIds.includes(message.id)
+              ? existing
+              : { ...existing, messageIds: [...existing.messageIds, message.id] };
+          contacts.set(contact.profileUrl, contact);
+          changed.set(contact.profileUrl, contact);
+          return { ...message, contactId: contact.id };
         });
+
+      await messageStore.putRecords(linked, [...changed.values()], mode === 'replace');
+
+      const sequences = mode === 'replace' ? {} : await this.getContactSequences();
+      await chrome.storage.local.set({ [this.SEQUENCES_KEY]: { ...data.sequences, ...sequences } });
+
+      if (mode === 'replace') {
+        if (data.settings) {
+          const settings = validateSettings(data.settings);
+          const apiKey = (await this.getSettings()).customEndpoint?.apiKey;
+          const endpoint = settings.customEndpoint;
+          await this.saveSettings(
+            endpoint && !endpoint.apiKey && apiKey ? { ...settings, customEndpoint: { ...endpoint, apiKey } } : settings
+          );
+        }
+        if (data.doNotContact) await chrome.storage.local.set({ [this.DO_NOT_CONTACT_KEY]: data.doNotContact });
+        if (data.dailyUsage) await chrome.storage.local.set({ [this.USAGE_KEY]: data.dailyUsage });
+      } else if (data.doNotContact?.length) {
+        await this.addDoNotContactEntries(data.doNotContact);
       }
+
+      const storedUrls = new Set(storedContacts.map(contact => contact.profileUrl));
+      const contactsAdded = [...changed.keys()].filter(url => !storedUrls.has(url)).length;
+      return {
+        messagesAdded: added.length,
+        messagesSkipped: data.messages.length - added.length,
+        contactsAdded,
+        contactsUpdated: changed.size - contactsAdded
+      };
     } catch (error) {
       console.error('Error importing data:', error);
       throw new Error('Failed to import data');
@@ -346,6 +773,32 @@ class ChromeStorageService {
     }
   }
 
+  /**
+   * Get the last known model download state, so a download can be resumed after the panel reopens
+   */
+  async getModelDownloadState(): Promise<ModelDownloadState | null> {
+    try {
+      const result = await chrome.storage.local.get(this.MODEL_DOWNLOAD_KEY);
+      return result[this.MODEL_DOWNLOAD_KEY] || null;
+    } catch (error) {
+      console.error('Error reading model download state:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Save model download state
+   */
+  async saveModelDownloadState(state: ModelDownloadState): Promise<void> {
+    try {
+      await chrome.storage.local.set({
+        [this.MODEL_DOWNLOAD_KEY]: state
+      });
+    } catch (error) {
+      console.error('Error saving model download state:', error);
+    }
+  }
+
   /**
    * Reset onboarding status (for testing)
    */
@@ -0,0 +1,206 @@
+/**
+ * Structured Output
+ * JSON schemas for model responses, plus a tolerant extractor and validator
+ * for when the Prompt API cannot enforce the schema itself
+ */
+
+import { ValidationError } from '../utils/error-handlers';
+
+/**
+ * The subset of JSON Schema we use for response constraints and validation
+ */
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  minLength?: number;
+  minItems?: number;
+  maxItems?: number;
+  additionalProperties?: boolean;
+}
+
+export const MESSAGE_DRAFT_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    body: { type: 'string', minLength: 1 },
+    wordCount: { type: 'integer' }
+  },
+  required: ['body', 'wordCount'],
+  additionalProperties: false
+};
+
+// For channels with a subject line (InMail, email)
+export const MESSAGE_WITH_SUBJECTS_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    subjects: { type: 'array', items: { type: 'string', minLength: 1 }, minItems: 2, maxItems: 5 },
+    body: { type: 'string', minLength: 1 },
+    wordCount: { type: 'integer' }
+  },
+  required: ['subjects', 'body', 'wordCount'],
+  additionalProperties: false
+};
+
+export const POLISHED_MESSAGE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    body: { type: 'string', minLength: 1 },
+    wordCount: { type: 'integer' },
+    changes: { type: 'string' }
+  },
+  required: ['body', 'wordCount'],
+  additionalProperties: false
+};
+
+export const PROFILE_INSIGHT_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    careerArc: { type: 'string', minLength: 1 },
+    currentFocus: { type: 'string', minLength: 1 },
+    recentPosts: { type: 'array', items: { type: 'string' } },
+    talkingPoints: { type: 'array', items: { type: 'string', minLength: 1 }, minItems: 3, maxItems: 5 }
+  },
+  required: ['careerArc', 'currentFocus', 'recentPosts', 'talkingPoints'],
+  additionalProperties: false
+};
+
+/**
+ * Pull the first JSON object out of free-form model output.
+ * Tolerates markdown fences, leading/trailing prose, smart quotes around keys and trailing commas.
+ * @throws ValidationError if no parseable object is found.
+ */
+export function extractJsonObject(text: string): unknown {
+  const candidate = findObjectText(text);
+  if (!candidate) {
+    throw new ValidationError('No JSON object found in the response', 'response', text.slice(0, 200));
+  }
+
+  try {
+    return JSON.parse(candidate);
+  } catch {
+    // Fall through to the lenient pass
+  }
+
+  const repaired = candidate
+    .replace(/[“”]/g, '"')
+    .replace(/,\s*([}\]])/g, '$1');
+
+  try {
+    return JSON.parse(repaired);
+  } catch (error) {
+    throw new ValidationError(`Response is not valid JSON: ${(error as Error).message}`, 'response', candidate.slice(0, 200));
+  }
+}
+
+/**
+ * Find the text of the first balanced {...} block, ignoring braces inside strings
+ */
+function findObjectText(text: string): string | null {
+  const start = text.indexOf('{');
+  if (start === -1) return null;
+
+  let depth = 0;
+  let inString = false;
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+
+    if (inString) {
+      if (char === '\\') i++;
+      else if (char === '"') inString = false;
+      continue;
+    }
+
+    if (char === '"') inString = true;
+    else if (char === '{') depth++;
+    else if (char === '}' && --depth === 0) return text.slice(start, i + 1);
+  }
+
+  // Unterminated object - return the rest and let JSON.parse report it
+  return text.slice(start);
+}
+
+/**
+ * Validate a value against a schema.
+ * @returns A list of human-readable problems; empty when the value is valid.
+ */
+export function validateSchema(value: unknown, schema: JsonSchema, path = 'response'): string[] {
+  switch (schema.type) {
+    case 'string':
+      if (typeof value !== 'string') return [`${path} must be a string`];
+      if (schema.minLength && value.trim().length < schema.minLength) return [`${path} must not be empty`];
+      return [];
+
+    case 'number':
+    case 'integer':
+      if (typeof value !== 'number' || Number.isNaN(value)) return [`${path} must be a number`];
+      return [];
+
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : [`${path} must be a boolean`];
+
+    case 'array': {
+      if (!Array.isArray(value)) return [`${path} must be an array`];
+      const errors: string[] = [];
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        errors.push(`${path} must have at least ${schema.minItems} items`);
+      }
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+        errors.push(`${path} must have at most ${schema.maxItems} items`);
+      }
+      if (schema.items) {
+        value.forEach((item, index) => errors.push(...validateSchema(item, schema.items!, `${path}[${index}]`)));
+      }
+      return errors;
+    }
+
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return [`${path} must be an object`];
+      }
+      const record = value as Record<string, unknown>;
+      const errors: string[] = [];
+      for (const key of schema.required || []) {
+        if (record[key] === undefined) errors.push(`${path}.${key} is missing`);
+      }
+      for (const [key, propertySchema] of Object.entries(schema.properties || {})) {
+        if (record[key] !== undefined) {
+          errors.push(...validateSchema(record[key], propertySchema, `${path}.${key}`));
+        }
+      }
+      return errors;
+    }
+  }
+}
+
+/**
+ * Extract and validate a structured response.
+ * Missing integer fields that can be derived (wordCount) are filled in rather than rejected.
+ * @throws ValidationError describing what was wrong with the response.
+ */
+export function parseStructuredResponse<T>(text: string, schema: JsonSchema): T {
+  const value = extractJsonObject(text);
+
+  if (typeof value === 'object' && value !== null && 'body' in value) {
+    const record = value as Record<string, unknown>;
+    if (typeof record.wordCount !== 'number' && typeof record.body === 'string') {
+      record.wordCount = countWords(record.body);
+    }
+  }
+
+  const errors = validateSchema(value, schema);
+  if (errors.length > 0) {
+    throw new ValidationError(errors.join('; '), 'response', value);
+  }
+
+  return value as T;
+}
+
+/**
+ * Count words the same way for every response
+ */
+export function countWords(text: string): number {
+  const trimmed = text.trim();
+  return trimmed ? trimmed.split(/\s+/).length : 0;
+}
@@ -1,15 +1,95 @@
 import { useState, useEffect, useRef } from "react";
-import type { MessageDraft, ExtensionSettings, TargetProfile } from "./types";
+import type {
+    ConversationThread,
+    MessageDraft,
+    MessageGroup,
+    ExtensionSettings,
+    GenerationDefaults,
+    ModelDownloadState,
+    ProfileInsight,
+    StoredMessage,
+    TargetProfile,
+} from "./types";
 import { chromeAI } from "./services/chrome-ai";
-import { storage } from "./services/storage";
+import { storage, type PendingFollowUp } from "./services/storage";
+import { createProvider } from "./services/providers";
+import {
+    ApiError,
+    NetworkError,
+    getUserFriendlyMessage,
+    isAbortError,
+} from "./utils/error-handlers";
 import { Button } from "./components/ui/button";
 import { Input } from "./components/ui/input";
 import { Label } from "./components/ui/label";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "./components/ui/tabs";
 import { ScrollArea } from "./components/ui/scroll-area";
 import { Separator } from "./components/ui/separator";
+import { Switch } from "./components/ui/switch";
 import { Onboarding } from "./components/Onboarding";
+import { VariantCards } from "./components/VariantCards";
+import { ProviderSettings } from "./components/ProviderSettings";
+import { ModelDownloadProgress } from "./components/ModelDownloadProgress";
+import { ProfileSummary } from "./components/ProfileSummary";
+import { ProfileInsightCard } from "./components/ProfileInsightCard";
+import { SenderProfileFields } from "./components/SenderProfileFields";
+import { CommonGroundList } from "./components/CommonGroundList";
+import { findCommonGround } from "./services/common-ground";
+import {
+    DEFAULT_CHANNEL,
+    MESSAGE_CHANNELS,
+    getChannelLimit,
+    type MessageChannelId,
+} from "./services/channels";
+import { CharacterCounter } from "./components/CharacterCounter";
+import { SubjectPicker } from "./components/SubjectPicker";
+import { ThreadSummary } from "./components/ThreadSummary";
+import { ContactCard } from "./components/ContactCard";
+import { AlreadyContactedBanner } from "./components/AlreadyContactedBanner";
+import {
+    PIPELINE_STAGES,
+    type Contact,
+    type PipelineStage,
+} from "./services/contacts";
+import { DoNotContactBanner } from "./components/DoNotContactBanner";
+import { DoNotContactSettings } from "./components/DoNotContactSettings";
+import { BackupSettings, type ExportKind } from "./components/BackupSettings";
+import { GenerationDefaultsEditor } from "./components/GenerationDefaultsEditor";
+import {
+    contactsToCsv,
+    messagesToCsv,
+    type ImportMode,
+    type ImportPreview,
+    type ImportResult,
+} from "./services/backup";
 import {
+    findDoNotContactMatch,
+    type DoNotContactEntry,
+    type DoNotContactMatch,
+    type NewDoNotContactEntry,
+} from "./services/do-not-contact";
+import {
+    EMPTY_HISTORY_FILTERS,
+    HistoryFilters,
+    hasActiveFilters,
+    toMessageQuery,
+    type HistoryFilterValues,
+} from "./components/HistoryFilters";
+import { SequenceCard } from "./components/SequenceCard";
+import { SequenceTemplateEditor } from "./components/SequenceTemplateEditor";
+import {
+    DEFAULT_SEQUENCE_TEMPLATE,
+    completeStep,
+    getNextStep,
+    startContactSequence,
+    STEP_KIND_LABELS,
+    type ContactSequence,
+    type SequenceStep,
+} from "./services/sequences";
+import { normalizeProfileUrl } from "./utils/linkedin-selectors";
+import { isMessagingThreadUrl } from "./utils/linkedin-thread";
+import {
+    Reply,
     Sparkles,
     Settings,
     Copy,
@@ -17,14 +97,89 @@ import {
     Wand2,
     User,
     Loader2,
+    Square,
     AlertCircle,
     CheckCircle,
     History,
+    Download,
+    Search,
+    ClipboardPaste,
+    Users,
 } from "lucide-react";
 import "./styles/global.css";
 
-type View = "generate" | "profile" | "settings" | "history" | "onboarding";
-type GenerateState = "idle" | "loading" | "message" | "error" | "checking";
+type View =
+    | "generate"
+    | "profile"
+    | "settings"
+    | "history"
+    | "contacts"
+    | "onboarding";
+type GenerateState =
+    | "idle"
+    | "loading"
+    | "message"
+    | "variants"
+    | "error"
+    | "checking";
+
+const PURPOSE_LABELS = {
+    connection: "General Connection",
+    coffee_chat: "Coffee Chat Request",
+    informational_interview: "Informational Interview Request",
+    collaboration: "Collaboration Proposal",
+    job_inquiry: "Job Inquiry",
+    sales: "Sales/Partnership Proposal",
+    custom: "General Connection",
+};
+
+const getPurposeLabel = (purpose: string): string =>
+    PURPOSE_LABELS[purpose as keyof typeof PURPOSE_LABELS] ?? purpose;
+
+const TONES = [
+    "professional",
+    "casual",
+    "enthusiastic",
+    "formal",
+    "friendly",
+] as const;
+const LENGTHS = ["short", "medium", "long"] as const;
+
+// What Generate starts with until the user saves their own defaults
+const FALLBACK_GENERATION_DEFAULTS: Required<GenerationDefaults> = {
+    tone: "professional",
+    length: "medium",
+    purpose: "connection",
+};
+
+const HISTORY_PAGE_SIZE = 20;
+
+/**
+ * Apply settings saved elsewhere to the ones being edited, keeping any field
+ * edited here since `previous` was saved
+ */
+const mergeSavedSettings = (
+    current: ExtensionSettings,
+    previous: ExtensionSettings,
+    saved: ExtensionSettings
+): ExtensionSettings => {
+    const merged: Record<string, unknown> = { ...current };
+    const fields = new Set([...Object.keys(previous), ...Object.keys(saved)]);
+    for (const field of fields) {
+        const key = field as keyof ExtensionSettings;
+        if (JSON.stringify(current[key]) === JSON.stringify(previous[key])) {
+            merged[field] = saved[key];
+        }
+    }
+    return merged as ExtensionSettings;
+};
+
+interface HistoryResults {
+    messages: StoredMessage[]; // Filled when not grouped
+    groups: MessageGroup[]; // Filled when grouped by contact
+    total: number;
+    nextOffset: number | null;
+}
 
 function IndexSidePanel() {
     const [activeView, setActiveView] = useState<View>("generate");
@@ -43,10 +198,26 @@ function IndexSidePanel() {
     });
     const [messageDraft, setMessageDraft] = useState<MessageDraft | null>(null);
     const [isOnLinkedIn, setIsOnLinkedIn] = useState(false);
+    const [isOnThread, setIsOnThread] = useState(false);
+    const [conversationThread, setConversationThread] =
+        useState<ConversationThread | null>(null);
     const [isSaving, setIsSaving] = useState(false);
     const [copied, setCopied] = useState(false);
+    const [insertStatus, setInsertStatus] = useState<
+        "idle" | "inserting" | "inserted"
+    >("idle");
+    const [insertError, setInsertError] = useState("");
+    // History entry for the draft on screen, so later choices can be saved to it
+    const [savedMessageId, setSavedMessageId] = useState<string | null>(null);
     const [aiAvailable, setAiAvailable] = useState(false);
     const [aiStatus, setAiStatus] = useState("");
+    const [availabilityStatus, setAvailabilityStatus] = useState<
+        "readily" | "after-download" | "downloading" | "no"
+    >("no");
+    const [downloadState, setDownloadState] =
+        useState<ModelDownloadState | null>(null);
+    const [providerLabel, setProviderLabel] = useState("Chrome AI");
+    const [isApplyingProvider, setIsApplyingProvider] = useState(false);
     const [messageTone, setMessageTone] = useState<
         "professional" | "casual" | "enthusiastic" | "formal" | "friendly"
     >("professional");
@@ -60,15 +231,84 @@ function IndexSidePanel() {
         | "custom"
     >("connection");
     const [customPurpose, setCustomPurpose] = useState("");
+    const [isSyncEnabled, setIsSyncEnabled] = useState(false);
+    const [syncError, setSyncError] = useState("");
     const [messageLength, setMessageLength] = useState<
         "short" | "medium" | "long"
     >("medium");
+    const [messageChannel, setMessageChannel] =
+        useState<MessageChannelId>(DEFAULT_CHANNEL);
     const [lastGenerateParams, setLastGenerateParams] = useState<any>(null);
+    // The channel of the draft being streamed, for its character counter
+    const [streamingChannel, setStreamingChannel] =
+        useState<MessageChannelId>();
+    const [activeProfile, setActiveProfile] = useState<TargetProfile | null>(
+        null
+    );
+    const [profileInsight, setProfileInsight] =
+        useState<ProfileInsight | null>(null);
+    const [selectedTalkingPoints, setSelectedTalkingPoints] = useState<
+        string[]
+    >([]);
+    const [senderFieldsKey, setSenderFieldsKey] = useState(0);
+    const [isImportingSender, setIsImportingSender] = useState(false);
+    const [senderImportError, setSenderImportError] = useState("");
     const [showPolishInput, setShowPolishInput] = useState(false);
     const [polishFeedback, setPolishFeedback] = useState("");
     const [isPolished, setIsPolished] = useState(false);
-    const [messageHistory, setMessageHistory] = useState<any[]>([]);
+    const [messageCount, setMessageCount] = useState(0);
+    // Bumped whenever saved messages change, so views querying them reload
+    const [historyVersion, setHistoryVersion] = useState(0);
+    // Earlier outreach to the open profile, newest first, once loaded
+    const [currentOutreach, setCurrentOutreach] = useState<{
+        profileUrl: string;
+        messages: StoredMessage[];
+    } | null>(null);
+    // The outreach the open conversation started from
+    const [originalMessage, setOriginalMessage] = useState<StoredMessage>();
+    // Each shown contact's latest message, by contact id
+    const [latestMessages, setLatestMessages] = useState<
+        Record<string, StoredMessage>
+    >({});
+    const [contacts, setContacts] = useState<Contact[]>([]);
+    const [contactStageFilter, setContactStageFilter] = useState<
+        PipelineStage | "all"
+    >("all");
+    const [historyFilters, setHistoryFilters] = useState<HistoryFilterValues>(
+        EMPTY_HISTORY_FILTERS
+    );
+    const [historyResults, setHistoryResults] = useState<HistoryResults>({
+        messages: [],
+        groups: [],
+        total: 0,
+        nextOffset: null,
+    });
+    const [streamingBody, setStreamingBody] = useState("");
+    const [variantCount, setVariantCount] = useState(1);
+    const [variants, setVariants] = useState<MessageDraft[]>([]);
+    const [selectedVariant, setSelectedVariant] = useState<number | null>(
+        null
+    );
+    const [currentProfileUrl, setCurrentProfileUrl] = useState<
+        string | null
+    >(null);
+    const [contactSequences, setContactSequences] = useState<
+        Record<string, ContactSequence>
+    >({});
+    const [pendingFollowUp, setPendingFollowUp] =
+        useState<PendingFollowUp | null>(null);
+    const [doNotContactList, setDoNotContactList] = useState<
+        DoNotContactEntry[]
+    >([]);
+    // Set when generating stopped at a profile on the do-not-contact list
+    const [blockedProfile, setBlockedProfile] = useState<{
+        profileUrl: string;
+        name: string;
+        match: DoNotContactMatch;
+        followUpStep?: SequenceStep; // The follow-up that was stopped, if any
+    } | null>(null);
     const currentProfileUrlRef = useRef<string | null>(null);
+    const abortControllerRef = useRef<AbortController | null>(null);
 
     useEffect(() => {
         const initialize = async () => {
@@ -80,22 +320,20 @@ function IndexSidePanel() {
                 return;
             }
 
-            const availability = await chromeAI.checkAvailability();
-            setAiAvailable(availability.available);
-            setAiStatus(availability.message);
-
-            if (availability.available) {
-                setGenerateState("idle");
-            } else {
-                setGenerateState("error");
-                setError(availability.message);
-            }
-
-            const savedSettings = await storage.getSettings();
+            // Pick up anything changed on another device; a failed sync still leaves local settings
+            const savedSettings = await storage
+                .syncSettings()
+                .catch(() => storage.getSettings());
             setSettings(savedSettings);
+            applyGenerationDefaults(savedSettings.generationDefaults);
+            setIsSyncEnabled(await storage.isSettingsSyncEnabled());
 
-            const messages = await storage.getMessages();
-            setMessageHistory(messages);
+            await applyProvider(savedSettings);
+
+            await refreshMessages();
+            setContactSequences(await storage.getContactSequences());
+            setPendingFollowUp(await storage.takePendingFollowUp());
+            setDoNotContactList(await storage.getDoNotContactList());
 
             const [tab] = await chrome.tabs.query({
                 active: true,
@@ -107,6 +345,7 @@ function IndexSidePanel() {
             } else {
                 setIsOnLinkedIn(false);
             }
+            setIsOnThread(isMessagingThreadUrl(tab?.url));
         };
 
         initialize();
@@ -123,15 +362,29 @@ function IndexSidePanel() {
 
                 if (newUrl?.includes("linkedin.com/in/")) {
                     setIsOnLinkedIn(true);
+                    setCurrentProfileUrl(normalizeProfileUrl(newUrl));
                     if (currentProfileUrlRef.current !== newUrl) {
                         console.log(
                             "New LinkedIn profile detected. Resetting state."
                         );
                         setGenerateState("idle");
                         setMessageDraft(null);
+                        setVariants([]);
+                        setProfileInsight(null);
+                        setBlockedProfile(null);
                     }
                 } else {
                     setIsOnLinkedIn(false);
+                    setCurrentProfileUrl(null);
+                }
+
+                const onThread = isMessagingThreadUrl(newUrl);
+                setIsOnThread(onThread);
+                if (onThread && currentProfileUrlRef.current !== newUrl) {
+                    // A different conversation: drop the last one's draft
+                    setGenerateState("idle");
+                    setMessageDraft(null);
+                    setConversationThread(null);
                 }
                 currentProfileUrlRef.current = newUrl || null;
             } catch (error) {
@@ -167,6 +420,246 @@ function IndexSidePanel() {
         };
     }, []);
 
+    // Settings can change while the panel is open, e.g. synced from another device.
+    // Unsaved edits in the Settings forms are kept.
+    useEffect(() => {
+        return storage.onSettingsChange((saved, previous) => {
+            setSettings((current) =>
+                mergeSavedSettings(current, previous, saved)
+            );
+        });
+    }, []);
+
+    // Reminder notifications leave a pending follow-up, even while the panel is open
+    useEffect(() => {
+        return storage.onPendingFollowUp(async () => {
+            setContactSequences(await storage.getContactSequences());
+            setPendingFollowUp(await storage.takePendingFollowUp());
+        });
+    }, []);
+
+    // Write the reminded follow-up once its profile is open and loaded
+    useEffect(() => {
+        if (
+            !pendingFollowUp ||
+            !aiAvailable ||
+            generateState !== "idle" ||
+            pendingFollowUp.profileUrl !== currentProfileUrl
+        ) {
+            return;
+        }
+
+        const progress = contactSequences[pendingFollowUp.profileUrl];
+        const step = progress && getNextStep(sequenceTemplate, progress);
+        setPendingFollowUp(null);
+        if (!step) return;
+
+        waitForActiveTabLoaded().then(() => handleGenerateFollowUp(step));
+    }, [pendingFollowUp, aiAvailable, generateState, currentProfileUrl]);
+
+    // Query History again when its filters change or messages are saved or deleted
+    useEffect(() => {
+        if (activeView !== "history") return;
+
+        let cancelled = false;
+        // Wait for a pause in typing before searching
+        const timer = setTimeout(
+            async () => {
+                try {
+                    const page = await loadHistoryPage(0);
+                    if (!cancelled) setHistoryResults(page);
+                } catch (e: any) {
+                    if (!cancelled) setError(e.message);
+                }
+            },
+            historyFilters.search ? 250 : 0
+        );
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [activeView, historyFilters, historyVersion]);
+
+    useEffect(() => {
+        if (!currentProfileUrl) {
+            setCurrentOutreach(null);
+            return;
+        }
+
+        let cancelled = false;
+        getOutreachHistory(currentProfileUrl)
+            .then(
+                (messages) =>
+                    !cancelled &&
+                    setCurrentOutreach({
+                        profileUrl: currentProfileUrl,
+                        messages,
+                    })
+            )
+            .catch((e) => !cancelled && setError(e.message));
+        return () => {
+            cancelled = true;
+        };
+    }, [currentProfileUrl, historyVersion]);
+
+    useEffect(() => {
+        let cancelled = false;
+        findOriginalMessage(conversationThread)
+            .then((message) => !cancelled && setOriginalMessage(message))
+            .catch((e) => !cancelled && setError(e.message));
+        return () => {
+            cancelled = true;
+        };
+    }, [conversationThread, historyVersion]);
+
+    // Load the latest message of each contact shown, through the by-contact index
+    useEffect(() => {
+        if (activeView !== "contacts") return;
+
+        let cancelled = false;
+        const shown = contacts.filter(
+            (contact) =>
+                contact.messageIds.length > 0 &&
+                (contactStageFilter === "all" ||
+                    contact.stage === contactStageFilter)
+        );
+        Promise.all(
+            shown.map(async (contact) => {
+                const { messages } = await storage.queryMessages({
+                    contactId: contact.id,
+                    limit: 1,
+                });
+                return [contact.id, messages[0]] as const;
+            })
+        )
+            .then((entries) => {
+                if (cancelled) return;
+                setLatestMessages(
+                    Object.fromEntries(
+                        entries.filter(([, message]) => message)
+                    )
+                );
+            })
+            .catch((e) => !cancelled && setError(e.message));
+        return () => {
+            cancelled = true;
+        };
+    }, [activeView, contacts, contactStageFilter]);
+
+    useEffect(() => {
+        return chromeAI.onDownloadStateChange((state) => {
+            setDownloadState(state);
+            storage.saveModelDownloadState(state);
+            chrome.runtime
+                .sendMessage({ type: "MODEL_DOWNLOAD_PROGRESS", payload: state })
+                .catch(() => {
+                    // Background worker may be restarting; the badge is cosmetic
+                });
+        });
+    }, []);
+
+    const applyProvider = async (providerSettings: ExtensionSettings) => {
+        await chromeAI.setProvider(createProvider(providerSettings));
+        setProviderLabel(chromeAI.getProvider().label);
+        await refreshAvailability();
+    };
+
+    const refreshAvailability = async () => {
+        const availability = await chromeAI.checkAvailability();
+        setAiAvailable(availability.available);
+        setAiStatus(availability.message);
+        setAvailabilityStatus(availability.status);
+
+        // Re-attach to a download that was running when the panel was closed
+        const savedDownload = await storage.getModelDownloadState();
+        if (
+            availability.status === "downloading" ||
+            (availability.status === "after-download" &&
+                savedDownload?.status === "downloading")
+        ) {
+            if (savedDownload) setDownloadState(savedDownload);
+            handleDownloadModel();
+        }
+
+        if (availability.available) {
+            setGenerateState("idle");
+            setError("");
+        } else {
+            setGenerateState("error");
+            setError(availability.message);
+        }
+    };
+
+    const handleDownloadModel = async () => {
+        if (chromeAI.getDownloadState().status === "downloading") return;
+        try {
+            await chromeAI.downloadModel();
+            await refreshAvailability();
+        } catch (e: any) {
+            setAiStatus(e.message);
+        }
+    };
+
+    const handleApplyProvider = async () => {
+        setIsApplyingProvider(true);
+        try {
+            const baseUrl = settings.customEndpoint?.baseUrl;
+            if (settings.aiProvider === "openai-compatible" && baseUrl) {
+                // Endpoints other than localhost need an explicit host permission
+                const origin = new URL(baseUrl).origin;
+                const granted = await chrome.permissions.request({
+                    origins: [`${origin}/*`],
+                });
+                if (!granted) {
+                    throw new Error(
+                        `Permission to access ${origin} was not granted.`
+                    );
+                }
+            }
+
+            await storage.saveSettings(settings);
+            await applyProvider(settings);
+        } catch (e: any) {
+            setAiAvailable(false);
+            setAiStatus(e.message);
+        } finally {
+            setIsApplyingProvider(false);
+        }
+    };
+
+    const applyGenerationDefaults = (defaults: GenerationDefaults = {}) => {
+        const { tone, length, purpose } = {
+            ...FALLBACK_GENERATION_DEFAULTS,
+            ...defaults,
+        };
+        const tones: readonly string[] = TONES;
+        const lengths: readonly string[] = LENGTHS;
+        if (tones.includes(tone)) setMessageTone(tone as (typeof TONES)[number]);
+        if (lengths.includes(length)) {
+            setMessageLength(length as (typeof LENGTHS)[number]);
+        }
+        if (purpose in PURPOSE_LABELS) {
+            setMessagePurpose(purpose as keyof typeof PURPOSE_LABELS);
+        }
+    };
+
+    const handleSaveGenerationDefaults = async () => {
+        await handleSaveSettings();
+        applyGenerationDefaults(settings.generationDefaults);
+    };
+
+    const handleToggleSync = async (enabled: boolean) => {
+        setIsSyncEnabled(enabled);
+        setSyncError("");
+        try {
+            const synced = await storage.setSettingsSyncEnabled(enabled);
+            setSettings(synced);
+            applyGenerationDefaults(synced.generationDefaults);
+        } catch (e: any) {
+            setSyncError(e.message);
+        }
+    };
+
     const handleSaveSettings = async () => {
         setIsSaving(true);
         try {
@@ -178,54 +671,251 @@ function IndexSidePanel() {
         }
     };
 
-    const handleGenerate = async () => {
+    /**
+     * Fill the structured sender profile from the LinkedIn profile open in the tab
+     */
+    const handleImportSenderProfile = async () => {
+        setIsImportingSender(true);
+        setSenderImportError("");
+        try {
+            const [tab] = await chrome.tabs.query({
+                active: true,
+                currentWindow: true,
+            });
+            if (!tab?.id || !tab.url?.includes("linkedin.com/in/")) {
+                throw new Error("Open your own LinkedIn profile first.");
+            }
+
+            const response = await chrome.tabs.sendMessage(tab.id, {
+                type: "EXTRACT_PROFILE",
+            });
+            if (!response?.success) throw new Error(response?.error);
+
+            const profile: TargetProfile = response.data;
+            setSettings({
+                ...settings,
+                senderProfile: {
+                    location: profile.location,
+                    employers: profile.positions
+                        .filter((position) => position.company)
+                        .map((position) => ({
+                            name: position.company!,
+                            startYear: position.startYear,
+                            endYear: position.endYear,
+                        })),
+                    schools: profile.schools.map((school) => ({
+                        name: school.name,
+                        startYear: school.startYear,
+                        endYear: school.endYear,
+                    })),
+                    skills: profile.skills,
+                    industries: settings.senderProfile?.industries || [],
+                },
+            });
+            // Remount the fields so they show the imported values
+            setSenderFieldsKey((key) => key + 1);
+        } catch (e: any) {
+            setSenderImportError(
+                e.message ||
+                    "Could not read the profile. Please refresh the page and try again."
+            );
+        } finally {
+            setIsImportingSender(false);
+        }
+    };
+
+    const beginRequest = () => {
+        abortControllerRef.current?.abort();
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
+        return controller.signal;
+    };
+
+    const endRequest = (signal: AbortSignal) => {
+        if (abortControllerRef.current?.signal === signal) {
+            abortControllerRef.current = null;
+        }
+    };
+
+    const handleRequestError = (e: any) => {
+        if (isAbortError(e)) {
+            // Cancelled by the user - go back to where they were
+            setGenerateState(messageDraft ? "message" : "idle");
+            return;
+        }
+        setError(
+            e instanceof ApiError || e instanceof NetworkError
+                ? getUserFriendlyMessage(e).message
+                : e.message
+        );
+        setGenerateState("error");
+    };
+
+    const handleStop = () => {
+        abortControllerRef.current?.abort();
+        abortControllerRef.current = null;
+    };
+
+    /**
+     * Resolve once the active tab has finished loading, e.g. a profile a reminder just opened
+     */
+    const waitForActiveTabLoaded = async () => {
+        const [tab] = await chrome.tabs.query({
+            active: true,
+            currentWindow: true,
+        });
+        if (!tab?.id || tab.status === "complete") return;
+
+        await new Promise<void>((resolve) => {
+            const handleUpdate = (
+                tabId: number,
+                changeInfo: chrome.tabs.TabChangeInfo
+            ) => {
+                if (tabId === tab.id && changeInfo.status === "complete") {
+                    chrome.tabs.onUpdated.removeListener(handleUpdate);
+                    resolve();
+                }
+            };
+            chrome.tabs.onUpdated.addListener(handleUpdate);
+        });
+    };
+
+    /**
+     * Make sure the content script on the active tab is listening
+     * @returns The tab's id
+     */
+    const connectToActiveTab = async (): Promise<number> => {
+        const [tab] = await chrome.tabs.query({
+            active: true,
+            currentWindow: true,
+        });
+        if (!tab?.id) throw new Error("No active tab found.");
+
+        setLoadingMessage("Connecting to page...");
+        try {
+            await chrome.tabs.sendMessage(tab.id, { type: "PING" });
+        } catch (e) {
+            throw new Error(
+                "Could not connect to LinkedIn page. Please refresh the page (F5 or Cmd+R) and try again."
+            );
+        }
+        return tab.id;
+    };
+
+    /**
+     * Ask the content script for the profile on the active tab
+     */
+    const extractTargetProfile = async (): Promise<TargetProfile> => {
+        const tabId = await connectToActiveTab();
+
+        setLoadingMessage("Extracting profile...");
+        const extractResponse = await chrome.tabs.sendMessage(tabId, {
+            type: "EXTRACT_PROFILE",
+        });
+        if (!extractResponse.success) {
+            throw new Error(
+                extractResponse.error +
+                    " Please refresh the page (F5 or Cmd+R) and try again."
+            );
+        }
+
+        const targetProfile: TargetProfile = extractResponse.data;
+        setActiveProfile(targetProfile);
+        return targetProfile;
+    };
+
+    const handleAnalyze = async () => {
         if (!aiAvailable) {
-            setError("Chrome AI is not available. " + aiStatus);
+            setError(`${providerLabel} is not available. ${aiStatus}`);
             return;
         }
 
         setGenerateState("loading");
+        setStreamingBody("");
         setError("");
+        const signal = beginRequest();
 
         try {
-            const [tab] = await chrome.tabs.query({
-                active: true,
-                currentWindow: true,
+            const targetProfile = await extractTargetProfile();
+
+            setLoadingMessage("Reading the profile...");
+            const insight = await chromeAI.analyzeProfile(targetProfile, {
+                signal,
             });
-            if (!tab?.id) throw new Error("No active tab found.");
+            signal.throwIfAborted();
 
-            setLoadingMessage("Connecting to page...");
-            try {
-                await chrome.tabs.sendMessage(tab.id, { type: "PING" });
-            } catch (e) {
-                throw new Error(
-                    "Could not connect to LinkedIn page. Please refresh the page (F5 or Cmd+R) and try again."
-                );
-            }
+            setProfileInsight(insight);
+            setSelectedTalkingPoints(insight.talkingPoints);
+            setGenerateState("idle");
+        } catch (e: any) {
+            handleRequestError(e);
+        } finally {
+            endRequest(signal);
+        }
+    };
 
-            setLoadingMessage("Extracting profile...");
-            const extractResponse = await chrome.tabs.sendMessage(tab.id, {
-                type: "EXTRACT_PROFILE",
-            });
-            if (!extractResponse.success) {
-                throw new Error(
-                    extractResponse.error +
-                        " Please refresh the page (F5 or Cmd+R) and try again."
-                );
-            }
+    const handleToggleTalkingPoint = (point: string) => {
+        setSelectedTalkingPoints((points) =>
+            points.includes(point)
+                ? points.filter((p) => p !== point)
+                : [...points, point]
+        );
+    };
+
+    /**
+     * Stop at a profile on the do-not-contact list and offer to generate anyway
+     * @param followUpStep The follow-up being written, to retry on override
+     * @returns Whether the profile is on the list
+     */
+    const stopIfDoNotContact = async (
+        targetProfile: TargetProfile,
+        followUpStep?: SequenceStep
+    ) => {
+        // Read the list fresh: it may have changed since the panel loaded
+        const match = findDoNotContactMatch(
+            await storage.getDoNotContactList(),
+            targetProfile
+        );
+        if (!match) return false;
+
+        setBlockedProfile({
+            profileUrl: normalizeProfileUrl(targetProfile.linkedinUrl),
+            name: targetProfile.name,
+            match,
+            followUpStep,
+        });
+        setGenerateState("idle");
+        return true;
+    };
+
+    /**
+     * @param override Generate even if the profile is on the do-not-contact list
+     */
+    const handleGenerate = async (override = false) => {
+        if (!aiAvailable) {
+            setError(`${providerLabel} is not available. ${aiStatus}`);
+            return;
+        }
+
+        setGenerateState("loading");
+        setStreamingBody("");
+        setStreamingChannel(messageChannel);
+        setError("");
+        setInsertError("");
+        setBlockedProfile(null);
+        const signal = beginRequest();
 
-            const targetProfile: TargetProfile = extractResponse.data;
+        try {
+            const targetProfile = await extractTargetProfile();
+            if (!override && (await stopIfDoNotContact(targetProfile))) {
+                return;
+            }
 
             setLoadingMessage("AI is generating your message...");
 
             const purposeMapping = {
-                connection: "General Connection",
-                coffee_chat: "Coffee Chat Request",
-                informational_interview: "Informational Interview Request",
-                collaboration: "Collaboration Proposal",
-                job_inquiry: "Job Inquiry",
-                sales: "Sales/Partnership Proposal",
-                custom: customPurpose || "General Connection",
+                ...PURPOSE_LABELS,
+                custom: customPurpose || PURPOSE_LABELS.custom,
             };
 
             const userProfile = {
@@ -240,6 +930,17 @@ function IndexSidePanel() {
                 tone: messageTone,
                 length: messageLength,
                 purpose: purposeMapping[messagePurpose],
+                // Only honour talking points picked for this profile
+                talkingPoints:
+                    profileInsight?.profileUrl === targetProfile.linkedinUrl
+                        ? selectedTalkingPoints
+                        : undefined,
+                commonGround: findCommonGround(
+                    settings.senderProfile,
+                    targetProfile
+                ),
+                channel: messageChannel,
+                accountType: settings.linkedinAccountType,
             };
 
             setLastGenerateParams({
@@ -248,26 +949,270 @@ function IndexSidePanel() {
                 options: generateOptions,
             });
 
+            if (variantCount > 1) {
+                setLoadingMessage(`Writing variant 1 of ${variantCount}...`);
+                const drafts = await chromeAI.generateVariants(
+                    targetProfile,
+                    userProfile,
+                    generateOptions,
+                    variantCount,
+                    {
+                        signal,
+                        onPartial: setStreamingBody,
+                        onVariant: (_draft, index) => {
+                            setStreamingBody("");
+                            setLoadingMessage(
+                                `Writing variant ${index + 2} of ${variantCount}...`
+                            );
+                        },
+                    }
+                );
+
+                signal.throwIfAborted();
+
+                // Nothing is saved until the user picks a variant
+                setVariants(drafts);
+                setSelectedVariant(null);
+                setGenerateState("variants");
+                return;
+            }
+
             const draft = await chromeAI.generateMessage(
                 targetProfile,
                 userProfile,
-                generateOptions
+                generateOptions,
+                { signal, onPartial: setStreamingBody }
             );
 
-            await storage.saveMessage({
+            // Never save a draft the user stopped at the last moment
+            signal.throwIfAborted();
+
+            await saveDraftToHistory(draft, targetProfile);
+
+            setMessageDraft(draft);
+            setGenerateState("message");
+            setIsPolished(false);
+        } catch (e: any) {
+            handleRequestError(e);
+        } finally {
+            endRequest(signal);
+        }
+    };
+
+    const saveDraftToHistory = async (
+        draft: MessageDraft,
+        targetProfile: TargetProfile,
+        variant?: { index: number; count: number },
+        sequenceStepId?: string
+    ) => {
+        const saved = await storage.saveMessage(
+            {
                 body: draft.body,
                 wordCount: draft.wordCount,
                 targetProfileUrl: targetProfile.linkedinUrl,
                 targetProfileName: targetProfile.name,
+                targetJobTitle: targetProfile.currentJobTitle,
+                targetCompany: targetProfile.currentCompany,
                 tone: messageTone,
                 length: messageLength,
                 purpose: messagePurpose,
+                channel: draft.channel,
+                subject: draft.subject,
+                subjectOptions: draft.subjects,
+                sequenceStepId,
+                ...(variant && {
+                    variantIndex: variant.index,
+                    variantCount: variant.count,
+                    variantAngle: draft.angle,
+                }),
+            },
+            {
+                headline: targetProfile.headline,
+                location: targetProfile.location,
+            }
+        );
+        setSavedMessageId(saved.id);
+        await trackSequence(targetProfile, saved.id, sequenceStepId);
+        await refreshMessages();
+    };
+
+    /**
+     * Reload what depends on saved messages after they change
+     */
+    const refreshMessages = async () => {
+        setMessageCount(await storage.countMessages());
+        setContacts(await storage.getContacts());
+        setHistoryVersion((version) => version + 1);
+    };
+
+    /**
+     * Outreach already saved for a profile, newest first. Replies don't count.
+     */
+    const getOutreachHistory = async (profileUrl: string) => {
+        const { messages } = await storage.queryMessages({ profileUrl });
+        return messages.filter((msg) => !msg.replyToThreadUrl);
+    };
+
+    /**
+     * Start the contact's sequence with their first message, or mark a step as written.
+     * Until a follow-up goes out, a newer first draft replaces the earlier one.
+     */
+    const trackSequence = async (
+        targetProfile: TargetProfile,
+        messageId: string,
+        sequenceStepId?: string
+    ) => {
+        const template = sequenceTemplate;
+        const progress = contactSequences[targetProfile.linkedinUrl];
+        const firstStepId = template.steps[0]?.id;
+        const earlier = (
+            await getOutreachHistory(targetProfile.linkedinUrl)
+        ).filter((msg) => msg.id !== messageId);
+
+        let next: ContactSequence | null = null;
+        if (!progress && sequenceStepId && earlier.length > 0) {
+            // A follow-up to someone contacted before sequences were tracked
+            const first = earlier[earlier.length - 1];
+            next = completeStep(
+                startContactSequence(
+                    template,
+                    {
+                        profileUrl: targetProfile.linkedinUrl,
+                        profileName: targetProfile.name,
+                    },
+                    first.id,
+                    first.generatedAt
+                ),
+                sequenceStepId,
+                messageId
+            );
+        } else if (!progress) {
+            next = startContactSequence(
+                template,
+                {
+                    profileUrl: targetProfile.linkedinUrl,
+                    profileName: targetProfile.name,
+                },
+                messageId
+            );
+        } else if (sequenceStepId) {
+            next = completeStep(progress, sequenceStepId, messageId);
+        } else if (firstStepId && progress.completedStepIds.length <= 1) {
+            next = completeStep(progress, firstStepId, messageId);
+        }
+        if (!next) return;
+
+        const updated = next;
+        await storage.saveContactSequence(updated);
+        setContactSequences((sequences) => ({
+            ...sequences,
+            [updated.profileUrl]: updated,
+        }));
+    };
+
+    /**
+     * @param override Write it even if the profile is on the do-not-contact list
+     */
+    const handleGenerateFollowUp = async (
+        step: SequenceStep,
+        override = false
+    ) => {
+        if (!aiAvailable) {
+            setError(`${providerLabel} is not available. ${aiStatus}`);
+            return;
+        }
+
+        setGenerateState("loading");
+        setStreamingBody("");
+        setError("");
+        setInsertError("");
+        setBlockedProfile(null);
+        const signal = beginRequest();
+
+        try {
+            const targetProfile = await extractTargetProfile();
+            if (!override && (await stopIfDoNotContact(targetProfile, step))) {
+                return;
+            }
+            const progress = contactSequences[targetProfile.linkedinUrl];
+            const outreach = await getOutreachHistory(
+                targetProfile.linkedinUrl
+            );
+            const sequenceMessages = outreach.filter((msg) =>
+                progress?.messageIds.includes(msg.id)
+            );
+            const previousMessages =
+                sequenceMessages.length > 0 ? sequenceMessages : outreach;
+
+            setLoadingMessage(
+                `Writing ${STEP_KIND_LABELS[step.kind].toLowerCase()}...`
+            );
+
+            const userProfile = {
+                userName: settings.userName || "User",
+                userRole: settings.userRole || "",
+                userCompany: settings.userCompany || "",
+                userBackground: settings.userBackground || "",
+                userValueProposition: settings.userValueProposition || "",
+            };
+            const channel = step.channel || messageChannel;
+
+            const draft = await chromeAI.generateFollowUp(
+                targetProfile,
+                userProfile,
+                previousMessages,
+                {
+                    stepKind: step.kind === "breakup" ? "breakup" : "follow_up",
+                    tone: messageTone,
+                    length: messageLength,
+                    channel,
+                    accountType: settings.linkedinAccountType,
+                },
+                { signal }
+            );
+
+            signal.throwIfAborted();
+
+            setLastGenerateParams({
+                targetProfile,
+                userProfile,
+                followUpStep: step,
             });
+            await saveDraftToHistory(draft, targetProfile, undefined, step.id);
+
+            setMessageDraft(draft);
+            setGenerateState("message");
+            setIsPolished(false);
+        } catch (e: any) {
+            handleRequestError(e);
+        } finally {
+            endRequest(signal);
+        }
+    };
 
-            const messages = await storage.getMessages();
-            setMessageHistory(messages);
+    const handleSelectSubject = async (subject: string) => {
+        if (!messageDraft) return;
+        setMessageDraft({ ...messageDraft, subject });
+
+        if (savedMessageId) {
+            await storage.updateMessage(savedMessageId, { subject });
+            await refreshMessages();
+        }
+    };
+
+    const handleUseVariant = async () => {
+        if (selectedVariant === null || !lastGenerateParams) return;
+        const draft = variants[selectedVariant];
+
+        try {
+            await saveDraftToHistory(draft, lastGenerateParams.targetProfile, {
+                index: selectedVariant,
+                count: variants.length,
+            });
 
             setMessageDraft(draft);
+            setVariants([]);
+            setSelectedVariant(null);
             setGenerateState("message");
             setIsPolished(false);
         } catch (e: any) {
@@ -283,12 +1228,188 @@ function IndexSidePanel() {
         setTimeout(() => setCopied(false), 2000);
     };
 
+    /**
+     * Fill the LinkedIn composer with the draft. The user still presses Send on LinkedIn.
+     */
+    const handleInsert = async () => {
+        if (!messageDraft?.body) return;
+
+        setInsertStatus("inserting");
+        setInsertError("");
+        try {
+            const [tab] = await chrome.tabs.query({
+                active: true,
+                currentWindow: true,
+            });
+            if (!tab?.id) throw new Error("No active tab found.");
+
+            const response = await chrome.tabs.sendMessage(tab.id, {
+                type: "INSERT_DRAFT",
+                payload: {
+                    text: messageDraft.body,
+                    subject: messageDraft.subject,
+                    composer: messageDraft.channel
+                        ? MESSAGE_CHANNELS[messageDraft.channel].composer
+                        : undefined,
+                },
+            });
+            if (!response?.success) throw new Error(response?.error);
+
+            setInsertStatus("inserted");
+            setTimeout(() => setInsertStatus("idle"), 2000);
+        } catch (e: any) {
+            setInsertError(
+                e.message ||
+                    "Could not reach the LinkedIn page. Please refresh the page and try again."
+            );
+            setInsertStatus("idle");
+        }
+    };
+
+    /**
+     * Ask the content script for the conversation open on the active tab
+     */
+    const extractConversation = async (): Promise<ConversationThread> => {
+        const tabId = await connectToActiveTab();
+
+        setLoadingMessage("Reading the conversation...");
+        const extractResponse = await chrome.tabs.sendMessage(tabId, {
+            type: "EXTRACT_THREAD",
+        });
+        if (!extractResponse.success) {
+            throw new Error(extractResponse.error);
+        }
+
+        const thread: ConversationThread = extractResponse.data;
+        setConversationThread(thread);
+        return thread;
+    };
+
+    /**
+     * The first outreach message Colder saved for someone in the thread, if any.
+     * Looked up by profile URL, or by name when the thread doesn't link the profile.
+     */
+    const findOriginalMessage = async (
+        thread: ConversationThread | null
+    ): Promise<StoredMessage | undefined> => {
+        if (!thread) return undefined;
+
+        const matches: StoredMessage[] = [];
+        for (const participant of thread.participants) {
+            const name = participant.name.toLowerCase();
+            const byUrl = participant.profileUrl
+                ? await getOutreachHistory(participant.profileUrl)
+                : [];
+            const { messages: byName } = byUrl.length
+                ? { messages: [] }
+                : await storage.queryMessages({ search: participant.name });
+            matches.push(
+                ...byUrl,
+                ...byName.filter(
+                    (msg) =>
+                        !msg.replyToThreadUrl &&
+                        msg.targetProfileName.toLowerCase() === name
+                )
+            );
+        }
+        return matches.sort((a, b) =>
+            a.generatedAt.localeCompare(b.generatedAt)
+        )[0];
+    };
+
+    const handleGenerateReply = async () => {
+        if (!aiAvailable) {
+            setError(`${providerLabel} is not available. ${aiStatus}`);
+            return;
+        }
+
+        setGenerateState("loading");
+        setStreamingBody("");
+        setError("");
+        setInsertError("");
+        const signal = beginRequest();
+
+        try {
+            const thread = await extractConversation();
+            const originalMessage = await findOriginalMessage(thread);
+
+            setLoadingMessage("AI is drafting your reply...");
+
+            const userProfile = {
+                userName: settings.userName || "User",
+                userRole: settings.userRole || "",
+                userCompany: settings.userCompany || "",
+                userBackground: settings.userBackground || "",
+                userValueProposition: settings.userValueProposition || "",
+            };
+
+            const draft = await chromeAI.generateReply(
+                thread,
+                userProfile,
+                {
+                    tone: messageTone,
+                    length: messageLength,
+                    channel: "direct_message",
+                    purpose:
+                        originalMessage &&
+                        getPurposeLabel(originalMessage.purpose),
+                    originalMessage: originalMessage?.body,
+                },
+                { signal }
+            );
+
+            signal.throwIfAborted();
+
+            setLastGenerateParams({ reply: true });
+            const participant = thread.participants[0];
+            const saved = await storage.saveMessage({
+                body: draft.body,
+                wordCount: draft.wordCount,
+                // Without a profile, the thread stands in and no contact is made
+                targetProfileUrl: participant?.profileUrl || thread.threadUrl,
+                targetProfileName:
+                    participant?.name ||
+                    thread.messages.find((m) => !m.isSelf)?.senderName ||
+                    "",
+                tone: messageTone,
+                length: messageLength,
+                purpose: originalMessage?.purpose || "reply",
+                channel: draft.channel,
+                replyToThreadUrl: thread.threadUrl,
+            });
+            setSavedMessageId(saved.id);
+            await refreshMessages();
+
+            setActiveProfile(null);
+            setMessageDraft(draft);
+            setGenerateState("message");
+            setIsPolished(false);
+        } catch (e: any) {
+            handleRequestError(e);
+        } finally {
+            endRequest(signal);
+        }
+    };
+
     const handleRegenerate = async () => {
         if (!lastGenerateParams) return;
+        if (lastGenerateParams.reply) {
+            return handleGenerateReply();
+        }
+        // The profile was already checked against the do-not-contact list, or overridden
+        if (lastGenerateParams.followUpStep) {
+            return handleGenerateFollowUp(
+                lastGenerateParams.followUpStep,
+                true
+            );
+        }
 
         setGenerateState("loading");
         setLoadingMessage("Regenerating message...");
+        setStreamingBody("");
+        setStreamingChannel(lastGenerateParams.options?.channel);
         setError("");
+        const signal = beginRequest();
 
         setShowPolishInput(false);
         setPolishFeedback("");
@@ -297,28 +1418,21 @@ function IndexSidePanel() {
             const draft = await chromeAI.regenerateMessage(
                 lastGenerateParams.targetProfile,
                 lastGenerateParams.userProfile,
-                lastGenerateParams.options
+                lastGenerateParams.options,
+                { signal, onPartial: setStreamingBody }
             );
 
-            await storage.saveMessage({
-                body: draft.body,
-                wordCount: draft.wordCount,
-                targetProfileUrl: lastGenerateParams.targetProfile.linkedinUrl,
-                targetProfileName: lastGenerateParams.targetProfile.name,
-                tone: messageTone,
-                length: messageLength,
-                purpose: messagePurpose,
-            });
+            signal.throwIfAborted();
 
-            const messages = await storage.getMessages();
-            setMessageHistory(messages);
+            await saveDraftToHistory(draft, lastGenerateParams.targetProfile);
 
             setMessageDraft(draft);
             setGenerateState("message");
             setIsPolished(false);
         } catch (e: any) {
-            setError(e.message);
-            setGenerateState("error");
+            handleRequestError(e);
+        } finally {
+            endRequest(signal);
         }
     };
 
@@ -327,7 +1441,10 @@ function IndexSidePanel() {
 
         setGenerateState("loading");
         setLoadingMessage("Polishing message...");
+        setStreamingBody("");
+        setStreamingChannel(messageDraft.channel);
         setError("");
+        const signal = beginRequest();
 
         try {
             const polished = await chromeAI.polishMessage(
@@ -336,29 +1453,122 @@ function IndexSidePanel() {
                 {
                     tone: messageTone,
                     length: messageLength,
-                }
+                    channel: messageDraft.channel,
+                    accountType: settings.linkedinAccountType,
+                },
+                { signal, onPartial: setStreamingBody }
             );
 
+            signal.throwIfAborted();
+
             setMessageDraft({
                 ...messageDraft,
                 body: polished.body,
                 wordCount: polished.wordCount,
+                truncated: polished.truncated,
             });
             setShowPolishInput(false);
             setPolishFeedback("");
             setGenerateState("message");
             setIsPolished(true);
         } catch (e: any) {
-            setError(e.message);
-            setGenerateState("error");
+            handleRequestError(e);
+        } finally {
+            endRequest(signal);
         }
     };
 
     const handleClearHistory = async () => {
         if (confirm("Are you sure you want to clear all message history?")) {
             await storage.clearMessages();
-            setMessageHistory([]);
+            await refreshMessages();
+            setContactSequences({});
+        }
+    };
+
+    const loadHistoryPage = async (offset: number): Promise<HistoryResults> => {
+        const query = {
+            ...toMessageQuery(historyFilters),
+            offset,
+            limit: HISTORY_PAGE_SIZE,
+        };
+        if (historyFilters.groupByContact) {
+            const page = await storage.queryMessageGroups(query);
+            return { ...page, messages: [] };
         }
+        const page = await storage.queryMessages(query);
+        return { ...page, groups: [] };
+    };
+
+    const handleLoadMoreHistory = async () => {
+        if (historyResults.nextOffset === null) return;
+        try {
+            const page = await loadHistoryPage(historyResults.nextOffset);
+            setHistoryResults((results) => ({
+                messages: [...results.messages, ...page.messages],
+                groups: [...results.groups, ...page.groups],
+                total: page.total,
+                nextOffset: page.nextOffset,
+            }));
+        } catch (e: any) {
+            setError(e.message);
+        }
+    };
+
+    const handleUpdateContact = async (
+        contactId: string,
+        patch: Partial<Pick<Contact, "stage" | "tags" | "notes">>
+    ) => {
+        try {
+            const updated = await storage.updateContact(contactId, patch);
+            setContacts((list) =>
+                list.map((contact) =>
+                    contact.id === contactId ? updated : contact
+                )
+            );
+        } catch (e: any) {
+            setError(e.message);
+        }
+    };
+
+    const handleAddDoNotContact = async (
+        entries: NewDoNotContactEntry[]
+    ) => {
+        const result = await storage.addDoNotContactEntries(entries);
+        setDoNotContactList(await storage.getDoNotContactList());
+        return result;
+    };
+
+    const handleRemoveDoNotContact = async (entryId: string) => {
+        try {
+            await storage.removeDoNotContactEntry(entryId);
+            setDoNotContactList(await storage.getDoNotContactList());
+        } catch (e: any) {
+            setError(e.message);
+        }
+    };
+
+    const handleExportData = async (kind: ExportKind): Promise<string> => {
+        const data = await storage.exportData();
+        if (kind === "messages_csv") return messagesToCsv(data.messages);
+        if (kind === "contacts_csv") return contactsToCsv(data.contacts);
+        return JSON.stringify(data, null, 2);
+    };
+
+    const handleImportData = async (
+        preview: ImportPreview,
+        mode: ImportMode
+    ): Promise<ImportResult> => {
+        const result = await storage.importData(preview, mode);
+        if (mode === "replace" && preview.settings) {
+            const savedSettings = await storage.getSettings();
+            setSettings(savedSettings);
+            await applyProvider(savedSettings);
+        }
+        await refreshMessages();
+        setContactSequences(await storage.getContactSequences());
+        setDoNotContactList(await storage.getDoNotContactList());
+        return result;
     };
 
     const handleRestoreMessage = (msg: any) => {
@@ -369,7 +1579,13 @@ function IndexSidePanel() {
             generatedAt: new Date(msg.generatedAt),
             tone: msg.tone,
             length: msg.length,
+            angle: msg.variantAngle,
+            channel: msg.channel,
+            subjects: msg.subjectOptions,
+            subject: msg.subject,
         });
+        setSavedMessageId(msg.id);
+        setActiveProfile(null);
         setActiveView("generate");
         setGenerateState("message");
     };
@@ -378,48 +1594,22 @@ function IndexSidePanel() {
         await storage.markOnboardingComplete();
         setActiveView("generate");
 
-        // Initialize AI after onboarding
-        const availability = await chromeAI.checkAvailability();
-        setAiAvailable(availability.available);
-        setAiStatus(availability.message);
-
-        if (availability.available) {
-            setGenerateState("idle");
-        } else {
-            setGenerateState("error");
-            setError(availability.message);
-        }
-
-        // Load other data
+        // Load settings, then initialize the configured AI provider
         const savedSettings = await storage.getSettings();
         setSettings(savedSettings);
-
-        const messages = await storage.getMessages();
-        setMessageHistory(messages);
+        await applyProvider(savedSettings);
+        await refreshMessages();
     };
 
     const handleSkipToProfile = async () => {
         await storage.markOnboardingComplete();
         setActiveView("profile");
 
-        // Initialize AI in background
-        const availability = await chromeAI.checkAvailability();
-        setAiAvailable(availability.available);
-        setAiStatus(availability.message);
-
-        if (availability.available) {
-            setGenerateState("idle");
-        } else {
-            setGenerateState("error");
-            setError(availability.message);
-        }
-
-        // Load other data
+        // Load settings, then initialize the configured AI provider
         const savedSettings = await storage.getSettings();
         setSettings(savedSettings);
-
-        const messages = await storage.getMessages();
-        setMessageHistory(messages);
+        await applyProvider(savedSettings);
+        await refreshMessages();
     };
 
     const handleRefreshPage = async () => {
@@ -538,6 +1728,77 @@ function IndexSidePanel() {
                     </div>
                 </div>
 
+                <div className="space-y-2">
+                    <Label>LinkedIn Account</Label>
+                    <div className="grid grid-cols-2 gap-2">
+                        {(["free", "premium"] as const).map((accountType) => (
+                            <Button
+                                key={accountType}
+                                variant={
+                                    (settings.linkedinAccountType || "free") ===
+                                    accountType
+                                        ? "default"
+                                        : "outline"
+                                }
+                                size="sm"
+                                onClick={() =>
+                                    setSettings({
+                                        ...settings,
+                                        linkedinAccountType: accountType,
+                                    })
+                                }
+                                className="capitalize"
+                            >
+                                {accountType}
+                            </Button>
+                        ))}
+                    </div>
+                    <p className="text-xs text-gray-500">
+                        Free accounts can send 200-character connection notes,
+                        Premium 300
+                    </p>
+                </div>
+
+                <Separator />
+
+                <div className="space-y-4">
+                    <div>
+                        <h3 className="text-sm font-semibold text-gray-900">
+                            Background Details
+                        </h3>
+                        <p className="text-xs text-gray-500 mt-1">
+                            Used to find common ground with the people you
+                            message
+                        </p>
+                    </div>
+
+                    <Button
+                        onClick={handleImportSenderProfile}
+                        disabled={isImportingSender}
+                        variant="outline"
+                        size="sm"
+                        className="w-full"
+                    >
+                        <Download className="mr-2 h-4 w-4" />
+                        {isImportingSender
+                            ? "Reading profile..."
+                            : "Fill from My LinkedIn Profile"}
+                    </Button>
+                    {senderImportError && (
+                        <p className="text-xs text-red-600">
+                            {senderImportError}
+                        </p>
+                    )}
+
+                    <SenderProfileFields
+                        key={senderFieldsKey}
+                        senderProfile={settings.senderProfile}
+                        onChange={(senderProfile) =>
+                            setSettings({ ...settings, senderProfile })
+                        }
+                    />
+                </div>
+
                 <Separator />
 
                 <Button
@@ -559,7 +1820,7 @@ function IndexSidePanel() {
                         Settings
                     </h2>
                     <p className="text-sm text-gray-500 mt-1">
-                        Chrome AI status and data management
+                        AI provider, status and data management
                     </p>
                 </div>
 
@@ -567,7 +1828,21 @@ function IndexSidePanel() {
 
                 <div className="space-y-3">
                     <Label className="text-base font-semibold">
-                        Chrome AI Status
+                        AI Provider
+                    </Label>
+                    <ProviderSettings
+                        settings={settings}
+                        onChange={setSettings}
+                        onApply={handleApplyProvider}
+                        isApplying={isApplyingProvider}
+                    />
+                </div>
+
+                <Separator />
+
+                <div className="space-y-3">
+                    <Label className="text-base font-semibold">
+                        {providerLabel} Status
                     </Label>
                     <div
                         className={`border rounded-lg p-4 space-y-2 ${
@@ -594,7 +1869,24 @@ function IndexSidePanel() {
                             )}
                         </div>
                         <p className="text-xs text-gray-600">{aiStatus}</p>
-                        {!aiAvailable && (
+                        {downloadState &&
+                            (downloadState.status === "downloading" ||
+                                downloadState.status === "error") && (
+                                <ModelDownloadProgress state={downloadState} />
+                            )}
+                        {availabilityStatus === "after-download" &&
+                            downloadState?.status !== "downloading" && (
+                                <Button
+                                    onClick={handleDownloadModel}
+                                    variant="outline"
+                                    size="sm"
+                                    className="w-full bg-white"
+                                >
+                                    <Download className="mr-2 h-4 w-4" />
+                                    Download Model Now
+                                </Button>
+                            )}
+                        {!aiAvailable && settings.aiProvider !== "openai-compatible" && (
                             <p className="text-xs text-gray-600 mt-2">
                                 Enable Chrome AI in{" "}
                                 <code className="bg-white px-1 py-0.5 rounded">
@@ -607,14 +1899,127 @@ function IndexSidePanel() {
 
                 <Separator />
 
+                <div className="space-y-3">
+                    <div>
+                        <Label className="text-base font-semibold">
+                            Message Defaults
+                        </Label>
+                        <p className="text-xs text-gray-500 mt-1">
+                            The tone, length and purpose Generate starts with
+                        </p>
+                    </div>
+                    <GenerationDefaultsEditor
+                        defaults={settings.generationDefaults || {}}
+                        fallback={FALLBACK_GENERATION_DEFAULTS}
+                        onChange={(generationDefaults) =>
+                            setSettings({ ...settings, generationDefaults })
+                        }
+                        purposes={Object.entries(PURPOSE_LABELS)
+                            .filter(([id]) => id !== "custom")
+                            .map(([id, label]) => ({ id, label }))}
+                        tones={TONES}
+                        lengths={LENGTHS}
+                    />
+                    <Button
+                        onClick={handleSaveGenerationDefaults}
+                        disabled={isSaving}
+                        size="sm"
+                        className="w-full"
+                    >
+                        {isSaving ? "Saved!" : "Save Defaults"}
+                    </Button>
+                </div>
+
+                <Separator />
+
+                <div className="space-y-3">
+                    <div>
+                        <Label className="text-base font-semibold">
+                            Follow-up Sequence
+                        </Label>
+                        <p className="text-xs text-gray-500 mt-1">
+                            When to follow up after the first message, counted
+                            in days
+                        </p>
+                    </div>
+                    <SequenceTemplateEditor
+                        template={sequenceTemplate}
+                        onChange={(template) =>
+                            setSettings({
+                                ...settings,
+                                sequenceTemplate: template,
+                            })
+                        }
+                    />
+                    <Button
+                        onClick={handleSaveSettings}
+                        disabled={isSaving}
+                        size="sm"
+                        className="w-full"
+                    >
+                        {isSaving ? "Saved!" : "Save Sequence"}
+                    </Button>
+                </div>
+
+                <Separator />
+
+                <div className="space-y-3">
+                    <div>
+                        <Label className="text-base font-semibold">
+                            Do Not Contact
+                        </Label>
+                        <p className="text-xs text-gray-500 mt-1">
+                            People and companies to skip. Generate stops when
+                            a profile matches.
+                        </p>
+                    </div>
+                    <DoNotContactSettings
+                        entries={doNotContactList}
+                        onAdd={handleAddDoNotContact}
+                        onRemove={handleRemoveDoNotContact}
+                    />
+                </div>
+
+                <Separator />
+
+                <div className="space-y-3">
+                    <div className="flex items-center justify-between gap-2">
+                        <Label
+                            htmlFor="settings-sync"
+                            className="text-base font-semibold"
+                        >
+                            Sync Across Devices
+                        </Label>
+                        <Switch
+                            id="settings-sync"
+                            checked={isSyncEnabled}
+                            onCheckedChange={handleToggleSync}
+                        />
+                    </div>
+                    <p className="text-xs text-gray-500">
+                        Your sender profile, message defaults and follow-up
+                        sequence follow your Chrome account. History, contacts
+                        and the AI provider stay on this device.
+                    </p>
+                    {syncError && (
+                        <p className="text-xs text-red-600">{syncError}</p>
+                    )}
+                </div>
+
+                <Separator />
+
                 <div className="space-y-3">
                     <Label className="text-base font-semibold">
                         Data Management
                     </Label>
                     <div className="space-y-2">
                         <p className="text-xs text-gray-500">
-                            All data is stored locally on your device
+                            History and contacts are stored only on this device
                         </p>
+                        <BackupSettings
+                            onExport={handleExportData}
+                            onImport={handleImportData}
+                        />
                         <Button
                             onClick={handleClearHistory}
                             variant="outline"
@@ -646,88 +2051,384 @@ function IndexSidePanel() {
         </ScrollArea>
     );
 
-    const renderHistory = () => (
-        <ScrollArea className="h-full">
-            <div className="p-6 space-y-6">
-                <div className="flex items-center justify-between">
-                    <div>
-                        <h2 className="text-2xl font-bold text-gray-900">
-                            History
-                        </h2>
-                        <p className="text-sm text-gray-500 mt-1">
-                            {messageHistory.length} messages
+    const renderHistoryMessage = (msg: StoredMessage) => (
+        <div
+            key={msg.id}
+            className="border border-gray-200 rounded-lg p-4 space-y-2 hover:border-gray-300 transition-colors"
+        >
+            <div className="flex items-start justify-between">
+                <div>
+                    <p className="font-medium text-sm">
+                        {msg.targetProfileName}
+                    </p>
+                    {(msg.targetJobTitle || msg.targetCompany) && (
+                        <p className="text-xs text-gray-600">
+                            {[msg.targetJobTitle, msg.targetCompany]
+                                .filter(Boolean)
+                                .join(" · ")}
                         </p>
+                    )}
+                    <p className="text-xs text-gray-500">
+                        {new Date(msg.generatedAt).toLocaleDateString()} ·{" "}
+                        {msg.wordCount} words
+                    </p>
+                </div>
+                <Button
+                    onClick={() => handleRestoreMessage(msg)}
+                    size="sm"
+                    variant="outline"
+                >
+                    View
+                </Button>
+            </div>
+            {msg.subject && (
+                <p className="text-xs font-medium text-gray-700 truncate">
+                    Subject: {msg.subject}
+                </p>
+            )}
+            <p className="text-xs text-gray-600 line-clamp-2">{msg.body}</p>
+            <div className="flex gap-2">
+                <span className="inline-flex items-center px-2 py-0.5 rounded text-xs bg-gray-100 text-gray-700">
+                    {msg.tone}
+                </span>
+                <span className="inline-flex items-center px-2 py-0.5 rounded text-xs bg-gray-100 text-gray-700">
+                    {msg.length}
+                </span>
+                {msg.variantCount !== undefined && msg.variantCount > 1 && (
+                    <span className="inline-flex items-center px-2 py-0.5 rounded text-xs bg-gray-100 text-gray-700">
+                        Variant {(msg.variantIndex ?? 0) + 1}/{msg.variantCount}
+                    </span>
+                )}
+            </div>
+        </div>
+    );
+
+    const renderHistory = () => {
+        const isFiltered = hasActiveFilters(historyFilters);
+        const isEmpty = historyFilters.groupByContact
+            ? historyResults.groups.length === 0
+            : historyResults.messages.length === 0;
+
+        return (
+            <ScrollArea className="h-full">
+                <div className="p-6 space-y-6">
+                    <div className="flex items-center justify-between">
+                        <div>
+                            <h2 className="text-2xl font-bold text-gray-900">
+                                History
+                            </h2>
+                            <p className="text-sm text-gray-500 mt-1">
+                                {historyFilters.groupByContact
+                                    ? `${historyResults.total} ${historyResults.total === 1 ? "contact" : "contacts"}`
+                                    : isFiltered
+                                      ? `${historyResults.total} of ${messageCount} messages`
+                                      : `${messageCount} messages`}
+                            </p>
+                        </div>
+                        {messageCount > 0 && (
+                            <Button
+                                onClick={handleClearHistory}
+                                variant="outline"
+                                size="sm"
+                            >
+                                Clear All
+                            </Button>
+                        )}
                     </div>
-                    {messageHistory.length > 0 && (
+
+                    {messageCount > 0 && (
+                        <HistoryFilters
+                            filters={historyFilters}
+                            onChange={setHistoryFilters}
+                            purposes={Object.entries(PURPOSE_LABELS)
+                                .filter(([id]) => id !== "custom")
+                                .map(([id, label]) => ({ id, label }))}
+                            tones={TONES}
+                            lengths={LENGTHS}
+                        />
+                    )}
+
+                    <Separator />
+
+                    {messageCount === 0 ? (
+                        <div className="text-center py-12">
+                            <History className="h-12 w-12 text-gray-300 mx-auto mb-3" />
+                            <p className="text-sm text-gray-500">
+                                No messages generated yet
+                            </p>
+                        </div>
+                    ) : isEmpty ? (
+                        <div className="text-center py-12">
+                            <Search className="h-12 w-12 text-gray-300 mx-auto mb-3" />
+                            <p className="text-sm text-gray-500">
+                                No messages match these filters
+                            </p>
+                        </div>
+                    ) : historyFilters.groupByContact ? (
+                        <div className="space-y-6">
+                            {historyResults.groups.map((group) => (
+                                <div key={group.profileUrl} className="space-y-3">
+                                    <div className="flex items-baseline justify-between">
+                                        <p className="font-semibold text-sm text-gray-900">
+                                            {group.name}
+                                        </p>
+                                        <p className="text-xs text-gray-500">
+                                            {group.messages.length}{" "}
+                                            {group.messages.length === 1
+                                                ? "message"
+                                                : "messages"}
+                                        </p>
+                                    </div>
+                                    {group.messages.map(renderHistoryMessage)}
+                                </div>
+                            ))}
+                        </div>
+                    ) : (
+                        <div className="space-y-4">
+                            {historyResults.messages.map(renderHistoryMessage)}
+                        </div>
+                    )}
+
+                    {historyResults.nextOffset !== null && (
                         <Button
-                            onClick={handleClearHistory}
+                            onClick={handleLoadMoreHistory}
                             variant="outline"
                             size="sm"
+                            className="w-full"
                         >
-                            Clear All
+                            Load More
                         </Button>
                     )}
                 </div>
+            </ScrollArea>
+        );
+    };
 
-                <Separator />
+    const renderContacts = () => {
+        const visibleContacts = contacts
+            .filter(
+                (contact) =>
+                    contactStageFilter === "all" ||
+                    contact.stage === contactStageFilter
+            )
+            .sort((a, b) =>
+                b.snapshot.capturedAt.localeCompare(a.snapshot.capturedAt)
+            );
 
-                {messageHistory.length === 0 ? (
-                    <div className="text-center py-12">
-                        <History className="h-12 w-12 text-gray-300 mx-auto mb-3" />
-                        <p className="text-sm text-gray-500">
-                            No messages generated yet
+        return (
+            <ScrollArea className="h-full">
+                <div className="p-6 space-y-6">
+                    <div>
+                        <h2 className="text-2xl font-bold text-gray-900">
+                            Contacts
+                        </h2>
+                        <p className="text-sm text-gray-500 mt-1">
+                            {contacts.length} people in your pipeline
                         </p>
                     </div>
-                ) : (
-                    <div className="space-y-4">
-                        {messageHistory.map((msg) => (
-                            <div
-                                key={msg.id}
-                                className="border border-gray-200 rounded-lg p-4 space-y-2 hover:border-gray-300 transition-colors"
+
+                    <div className="flex flex-wrap gap-2">
+                        {[
+                            { id: "all" as const, label: "All" },
+                            ...PIPELINE_STAGES,
+                        ].map((stage) => (
+                            <Button
+                                key={stage.id}
+                                variant={
+                                    contactStageFilter === stage.id
+                                        ? "default"
+                                        : "outline"
+                                }
+                                size="sm"
+                                onClick={() => setContactStageFilter(stage.id)}
                             >
-                                <div className="flex items-start justify-between">
-                                    <div>
-                                        <p className="font-medium text-sm">
-                                            {msg.targetProfileName}
-                                        </p>
-                                        <p className="text-xs text-gray-500">
-                                            {new Date(
-                                                msg.generatedAt
-                                            ).toLocaleDateString()}{" "}
-                                            · {msg.wordCount} words
-                                        </p>
-                                    </div>
-                                    <Button
-                                        onClick={() =>
-                                            handleRestoreMessage(msg)
-                                        }
-                                        size="sm"
-                                        variant="outline"
-                                    >
-                                        View
-                                    </Button>
-                                </div>
-                                <p className="text-xs text-gray-600 line-clamp-2">
-                                    {msg.body}
-                                </p>
-                                <div className="flex gap-2">
-                                    <span className="inline-flex items-center px-2 py-0.5 rounded text-xs bg-gray-100 text-gray-700">
-                                        {msg.tone}
-                                    </span>
-                                    <span className="inline-flex items-center px-2 py-0.5 rounded text-xs bg-gray-100 text-gray-700">
-                                        {msg.length}
-                                    </span>
-                                </div>
-                            </div>
+                                {stage.label}
+                                {stage.id !== "all" &&
+                                    ` (${contacts.filter((c) => c.stage === stage.id).length})`}
+                            </Button>
                         ))}
                     </div>
-                )}
+
+                    <Separator />
+
+                    {visibleContacts.length === 0 ? (
+                        <div className="text-center py-12">
+                            <Users className="h-12 w-12 text-gray-300 mx-auto mb-3" />
+                            <p className="text-sm text-gray-500">
+                                {contacts.length === 0
+                                    ? "Contacts appear here once you generate a message"
+                                    : "No contacts at this stage"}
+                            </p>
+                        </div>
+                    ) : (
+                        <div className="space-y-4">
+                            {visibleContacts.map((contact) => (
+                                <ContactCard
+                                    key={contact.id}
+                                    contact={contact}
+                                    latestMessage={latestMessages[contact.id]}
+                                    onUpdate={(patch) =>
+                                        handleUpdateContact(contact.id, patch)
+                                    }
+                                    onViewMessage={handleRestoreMessage}
+                                />
+                            ))}
+                        </div>
+                    )}
+                </div>
+            </ScrollArea>
+        );
+    };
+
+    const renderCharacterCounter = (
+        text: string,
+        channel: MessageChannelId | undefined
+    ) =>
+        channel && (
+            <CharacterCounter
+                count={text.length}
+                limit={getChannelLimit(channel, settings.linkedinAccountType)}
+                label={MESSAGE_CHANNELS[channel].label}
+            />
+        );
+
+    const renderToneOptions = () => (
+        <div>
+            <Label>Tone</Label>
+            <div className="grid grid-cols-2 gap-2 mt-2">
+                {TONES.map((tone) => (
+                    <Button
+                        key={tone}
+                        variant={messageTone === tone ? "default" : "outline"}
+                        size="sm"
+                        onClick={() => setMessageTone(tone)}
+                        className="capitalize"
+                    >
+                        {tone}
+                    </Button>
+                ))}
             </div>
-        </ScrollArea>
+        </div>
+    );
+
+    const renderLengthOptions = () => (
+        <div>
+            <Label>Length</Label>
+            <div className="grid grid-cols-3 gap-2 mt-2">
+                {LENGTHS.map((length) => (
+                    <Button
+                        key={length}
+                        variant={
+                            messageLength === length ? "default" : "outline"
+                        }
+                        size="sm"
+                        onClick={() => setMessageLength(length)}
+                        className="capitalize"
+                    >
+                        {length}
+                    </Button>
+                ))}
+            </div>
+        </div>
     );
 
+    const renderReply = () => {
+        return (
+            <ScrollArea className="h-full">
+                <div className="p-6 space-y-6">
+                    <div>
+                        <h2 className="text-2xl font-bold text-gray-900">
+                            Reply
+                        </h2>
+                        <p className="text-sm text-gray-500 mt-1">
+                            Draft a reply that moves the conversation forward
+                        </p>
+                    </div>
+
+                    <Separator />
+
+                    <div className="space-y-4">
+                        {conversationThread ? (
+                            <ThreadSummary
+                                thread={conversationThread}
+                                originalMessage={originalMessage}
+                            />
+                        ) : (
+                            <p className="text-xs text-gray-500">
+                                Colder reads the open conversation and your
+                                original outreach, then drafts a reply.
+                            </p>
+                        )}
+
+                        {originalMessage && (
+                            <p className="text-xs text-gray-500">
+                                Original purpose:{" "}
+                                {getPurposeLabel(originalMessage.purpose)}
+                            </p>
+                        )}
+
+                        {renderToneOptions()}
+
+                        {renderLengthOptions()}
+
+                        <Separator />
+
+                        <Button
+                            onClick={handleGenerateReply}
+                            disabled={!aiAvailable}
+                            className="w-full h-12 text-base"
+                        >
+                            <Reply className="mr-2 h-5 w-5" />
+                            Draft Reply
+                        </Button>
+
+                        {!aiAvailable && (
+                            <p className="text-xs text-center text-red-600">
+                                {providerLabel} is not available. Check
+                                Settings tab.
+                            </p>
+                        )}
+                    </div>
+                </div>
+            </ScrollArea>
+        );
+    };
+
+    const commonGround = activeProfile
+        ? findCommonGround(settings.senderProfile, activeProfile)
+        : [];
+
+    const sequenceTemplate =
+        settings.sequenceTemplate || DEFAULT_SEQUENCE_TEMPLATE;
+    const currentSequence = currentProfileUrl
+        ? contactSequences[currentProfileUrl]
+        : undefined;
+    // Wait for the profile's outreach so the banner doesn't show without it
+    const outreachLoaded =
+        !!currentProfileUrl &&
+        currentOutreach?.profileUrl === currentProfileUrl;
+    const lastOutreach = outreachLoaded
+        ? currentOutreach!.messages[0]
+        : undefined;
+    const currentContact = outreachLoaded
+        ? contacts.find((contact) => contact.profileUrl === currentProfileUrl)
+        : undefined;
+
+    /**
+     * Follow up on the current profile: the sequence's next step when there is one,
+     * otherwise the template's first follow-up
+     */
+    const handleFollowUpInstead = () => {
+        const step =
+            (currentSequence &&
+                getNextStep(sequenceTemplate, currentSequence)) ||
+            sequenceTemplate.steps.find((s) => s.kind === "follow_up") ||
+            DEFAULT_SEQUENCE_TEMPLATE.steps[1];
+        handleGenerateFollowUp(step);
+    };
+
     const renderGenerate = () => {
-        if (!isOnLinkedIn) {
+        if (!isOnLinkedIn && !isOnThread) {
             return (
                 <div className="flex flex-col items-center justify-center h-full p-8 text-center">
                     <div className="text-gray-400 mb-4">
@@ -753,14 +2454,58 @@ function IndexSidePanel() {
         }
 
         switch (generateState) {
-            case "checking":
             case "loading":
+                if (streamingBody) {
+                    return (
+                        <ScrollArea className="h-full">
+                            <div className="p-6 space-y-4">
+                                <div className="flex items-center gap-2 text-sm text-gray-600">
+                                    <Loader2 className="h-4 w-4 animate-spin" />
+                                    {loadingMessage}
+                                </div>
+                                <div className="w-full p-4 border border-gray-200 rounded-lg bg-gray-50 min-h-[200px] text-sm whitespace-pre-wrap">
+                                    {streamingBody}
+                                    <span className="inline-block w-1.5 h-4 ml-0.5 align-text-bottom bg-gray-400 animate-pulse" />
+                                </div>
+                                <p className="text-xs text-gray-500">
+                                    {streamingBody.trim().split(/\s+/).length}{" "}
+                                    words so far
+                                </p>
+                                {renderCharacterCounter(
+                                    streamingBody,
+                                    streamingChannel
+                                )}
+                                <Button
+                                    onClick={handleStop}
+                                    variant="outline"
+                                    className="w-full"
+                                >
+                                    <Square className="mr-2 h-4 w-4" />
+                                    Stop
+                                </Button>
+                            </div>
+                        </ScrollArea>
+                    );
+                }
+            // falls through
+            case "checking":
                 return (
                     <div className="flex flex-col items-center justify-center h-full p-8">
                         <Loader2 className="h-12 w-12 animate-spin text-gray-900 mb-4" />
                         <p className="text-sm text-gray-600">
                             {loadingMessage}
                         </p>
+                        {generateState === "loading" && (
+                            <Button
+                                onClick={handleStop}
+                                variant="outline"
+                                size="sm"
+                                className="mt-4"
+                            >
+                                <Square className="mr-2 h-4 w-4" />
+                                Stop
+                            </Button>
+                        )}
                     </div>
                 );
 
@@ -814,13 +2559,54 @@ function IndexSidePanel() {
 
                             <Separator />
 
+                            {activeProfile && (
+                                <ProfileSummary profile={activeProfile} />
+                            )}
+                            <CommonGroundList matches={commonGround} />
+
+                            {messageDraft?.droppedSections &&
+                                messageDraft.droppedSections.length > 0 && (
+                                    <div className="flex gap-2 p-3 text-xs text-amber-800 bg-amber-50 border border-amber-200 rounded-lg">
+                                        <AlertCircle className="h-4 w-4 flex-shrink-0" />
+                                        <p>
+                                            This profile was too long for the
+                                            model, so these sections were left
+                                            out:{" "}
+                                            {messageDraft.droppedSections.join(
+                                                ", "
+                                            )}
+                                        </p>
+                                    </div>
+                                )}
+
                             <div className="space-y-4">
+                                {messageDraft?.subjects &&
+                                    messageDraft.subjects.length > 0 && (
+                                        <SubjectPicker
+                                            subjects={messageDraft.subjects}
+                                            selected={messageDraft.subject}
+                                            onSelect={handleSelectSubject}
+                                        />
+                                    )}
+
                                 <textarea
                                     readOnly
                                     value={messageDraft?.body || ""}
                                     className="w-full p-4 border border-gray-200 rounded-lg bg-gray-50 min-h-[200px] text-sm focus:outline-none focus:ring-2 focus:ring-gray-900 focus:border-transparent resize-none"
                                 />
 
+                                {renderCharacterCounter(
+                                    messageDraft?.body || "",
+                                    messageDraft?.channel
+                                )}
+                                {messageDraft?.truncated && (
+                                    <p className="text-xs text-amber-700">
+                                        The model kept going over the limit,
+                                        so the message was cut short. Review
+                                        the ending before sending.
+                                    </p>
+                                )}
+
                                 {showPolishInput && (
                                     <div className="space-y-3 p-4 border border-gray-200 rounded-lg bg-gray-50">
                                         <Label>
@@ -871,6 +2657,27 @@ function IndexSidePanel() {
                                         {copied ? "Copied!" : "Copy Message"}
                                     </Button>
 
+                                    {messageDraft?.channel !== "email" && (
+                                        <Button
+                                            onClick={handleInsert}
+                                            disabled={insertStatus === "inserting"}
+                                            className="w-full"
+                                            variant="outline"
+                                        >
+                                            <ClipboardPaste className="mr-2 h-4 w-4" />
+                                            {insertStatus === "inserting"
+                                                ? "Inserting..."
+                                                : insertStatus === "inserted"
+                                                  ? "Inserted - review and send on LinkedIn"
+                                                  : "Insert into LinkedIn"}
+                                        </Button>
+                                    )}
+                                    {insertError && (
+                                        <p className="text-xs text-red-600">
+                                            {insertError}
+                                        </p>
+                                    )}
+
                                     <div className="grid grid-cols-2 gap-2">
                                         <Button
                                             onClick={handleRegenerate}
@@ -909,8 +2716,51 @@ function IndexSidePanel() {
                     </ScrollArea>
                 );
 
+            case "variants":
+                return (
+                    <ScrollArea className="h-full">
+                        <div className="p-6 space-y-6">
+                            <div>
+                                <h2 className="text-xl font-bold text-gray-900">
+                                    Pick a Variant
+                                </h2>
+                                <p className="text-sm text-gray-500 mt-1">
+                                    {variants.length} versions, each with a
+                                    different opening angle
+                                </p>
+                            </div>
+
+                            <Separator />
+
+                            {activeProfile && (
+                                <ProfileSummary profile={activeProfile} />
+                            )}
+                            <CommonGroundList matches={commonGround} />
+
+                            <VariantCards
+                                variants={variants}
+                                selectedIndex={selectedVariant}
+                                onSelect={setSelectedVariant}
+                                onUse={handleUseVariant}
+                            />
+
+                            <Button
+                                onClick={() => {
+                                    setVariants([]);
+                                    setGenerateState("idle");
+                                }}
+                                variant="outline"
+                                className="w-full"
+                            >
+                                Discard All
+                            </Button>
+                        </div>
+                    </ScrollArea>
+                );
+
             case "idle":
             default:
+                if (isOnThread) return renderReply();
                 return (
                     <ScrollArea className="h-full">
                         <div className="p-6 space-y-6">
@@ -925,38 +2775,91 @@ function IndexSidePanel() {
 
                             <Separator />
 
+                            {blockedProfile &&
+                                blockedProfile.profileUrl ===
+                                    currentProfileUrl && (
+                                    <DoNotContactBanner
+                                        name={blockedProfile.name}
+                                        match={blockedProfile.match}
+                                        onOverride={() =>
+                                            blockedProfile.followUpStep
+                                                ? handleGenerateFollowUp(
+                                                      blockedProfile.followUpStep,
+                                                      true
+                                                  )
+                                                : handleGenerate(true)
+                                        }
+                                        disabled={!aiAvailable}
+                                    />
+                                )}
+
+                            {(lastOutreach || currentContact) && (
+                                <AlreadyContactedBanner
+                                    name={
+                                        lastOutreach?.targetProfileName ||
+                                        currentContact!.snapshot.name
+                                    }
+                                    contactedAt={
+                                        lastOutreach?.generatedAt ||
+                                        currentContact!.snapshot.capturedAt
+                                    }
+                                    purpose={
+                                        lastOutreach &&
+                                        getPurposeLabel(lastOutreach.purpose)
+                                    }
+                                    body={lastOutreach?.body}
+                                    onFollowUp={handleFollowUpInstead}
+                                    disabled={!aiAvailable || !lastOutreach}
+                                />
+                            )}
+
+                            {currentSequence && (
+                                <SequenceCard
+                                    template={sequenceTemplate}
+                                    progress={currentSequence}
+                                    onWriteFollowUp={handleGenerateFollowUp}
+                                    disabled={!aiAvailable}
+                                />
+                            )}
+
                             <div className="space-y-4">
                                 <div>
-                                    <Label>Tone</Label>
+                                    <Label>Channel</Label>
                                     <div className="grid grid-cols-2 gap-2 mt-2">
-                                        {(
-                                            [
-                                                "professional",
-                                                "casual",
-                                                "enthusiastic",
-                                                "formal",
-                                                "friendly",
-                                            ] as const
-                                        ).map((tone) => (
-                                            <Button
-                                                key={tone}
-                                                variant={
-                                                    messageTone === tone
-                                                        ? "default"
-                                                        : "outline"
-                                                }
-                                                size="sm"
-                                                onClick={() =>
-                                                    setMessageTone(tone)
-                                                }
-                                                className="capitalize"
-                                            >
-                                                {tone}
-                                            </Button>
-                                        ))}
+                                        {Object.values(MESSAGE_CHANNELS).map(
+                                            (channel) => (
+                                                <Button
+                                                    key={channel.id}
+                                                    variant={
+                                                        messageChannel ===
+                                                        channel.id
+                                                            ? "default"
+                                                            : "outline"
+                                                    }
+                                                    size="sm"
+                                                    onClick={() =>
+                                                        setMessageChannel(
+                                                            channel.id
+                                                        )
+                                                    }
+                                                >
+                                                    {channel.label}
+                                                </Button>
+                                            )
+                                        )}
                                     </div>
+                                    <p className="text-xs text-gray-500 mt-2">
+                                        Up to{" "}
+                                        {getChannelLimit(
+                                            messageChannel,
+                                            settings.linkedinAccountType
+                                        )}{" "}
+                                        characters
+                                    </p>
                                 </div>
 
+                                {renderToneOptions()}
+
                                 <div>
                                     <Label>Purpose</Label>
                                     <select
@@ -1005,45 +2908,89 @@ function IndexSidePanel() {
                                     </div>
                                 )}
 
+                                {MESSAGE_CHANNELS[messageChannel]
+                                    .usesWordLength && renderLengthOptions()}
+
                                 <div>
-                                    <Label>Length</Label>
+                                    <Label>Variants</Label>
                                     <div className="grid grid-cols-3 gap-2 mt-2">
-                                        {(
-                                            ["short", "medium", "long"] as const
-                                        ).map((length) => (
+                                        {[1, 2, 3].map((count) => (
                                             <Button
-                                                key={length}
+                                                key={count}
                                                 variant={
-                                                    messageLength === length
+                                                    variantCount === count
                                                         ? "default"
                                                         : "outline"
                                                 }
                                                 size="sm"
                                                 onClick={() =>
-                                                    setMessageLength(length)
+                                                    setVariantCount(count)
                                                 }
-                                                className="capitalize"
                                             >
-                                                {length}
+                                                {count === 1
+                                                    ? "Single"
+                                                    : `${count} options`}
                                             </Button>
                                         ))}
                                     </div>
                                 </div>
 
+                                <div>
+                                    <Label>Profile Insight</Label>
+                                    <div className="mt-2 space-y-2">
+                                        {profileInsight && (
+                                            <CommonGroundList
+                                                matches={commonGround}
+                                            />
+                                        )}
+                                        {profileInsight ? (
+                                            <ProfileInsightCard
+                                                insight={profileInsight}
+                                                selectedPoints={
+                                                    selectedTalkingPoints
+                                                }
+                                                onTogglePoint={
+                                                    handleToggleTalkingPoint
+                                                }
+                                            />
+                                        ) : (
+                                            <p className="text-xs text-gray-500">
+                                                See what Colder reads from this
+                                                profile and pick the talking
+                                                points to use.
+                                            </p>
+                                        )}
+                                        <Button
+                                            onClick={handleAnalyze}
+                                            disabled={!aiAvailable}
+                                            variant="outline"
+                                            size="sm"
+                                            className="w-full"
+                                        >
+                                            <Search className="mr-2 h-4 w-4" />
+                                            {profileInsight
+                                                ? "Analyze Again"
+                                                : "Analyze Profile"}
+                                        </Button>
+                                    </div>
+                                </div>
+
                                 <Separator />
 
                                 <Button
-                                    onClick={handleGenerate}
+                                    onClick={() => handleGenerate()}
                                     disabled={!aiAvailable}
                                     className="w-full h-12 text-base"
                                 >
                                     <Sparkles className="mr-2 h-5 w-5" />
-                                    Generate Message
+                                    {variantCount > 1
+                                        ? `Generate ${variantCount} Variants`
+                                        : "Generate Message"}
                                 </Button>
 
                                 {!aiAvailable && (
                                     <p className="text-xs text-center text-red-600">
-                                        Chrome AI is not available. Check
+                                        {providerLabel} is not available. Check
                                         Settings tab.
                                     </p>
                                 )}
@@ -1064,7 +3011,8 @@ function IndexSidePanel() {
                                 Colder
                             </h1>
                             <p className="text-xs text-gray-500">
-                                LinkedIn Outreach AI · Powered by Chrome AI
+                                LinkedIn Outreach AI · Powered by{" "}
+                                {providerLabel}
                             </p>
                         </div>
                     </div>
@@ -1097,6 +3045,12 @@ function IndexSidePanel() {
                         )}
                     </div>
                 </div>
+                {downloadState?.status === "downloading" && (
+                    <ModelDownloadProgress
+                        state={downloadState}
+                        className="mt-3"
+                    />
+                )}
             </div>
 
             <Tabs
@@ -1126,6 +3080,13 @@ function IndexSidePanel() {
                         <History className="mr-2 h-4 w-4" />
                         History
                     </TabsTrigger>
+                    <TabsTrigger
+                        value="contacts"
+                        className="flex-1 h-full data-[state=active]:bg-white data-[state=active]:border-b-2 data-[state=active]:border-gray-900 rounded-none"
+                    >
+                        <Users className="mr-2 h-4 w-4" />
+                        Contacts
+                    </TabsTrigger>
                     <TabsTrigger
                         value="settings"
                         className="flex-1 h-full data-[state=active]:bg-white data-[state=active]:border-b-2 data-[state=active]:border-gray-900 rounded-none"
@@ -1156,6 +3117,13 @@ function IndexSidePanel() {
                     {renderHistory()}
                 </TabsContent>
 
+                <TabsContent
+                    value="contacts"
+                    className="flex-1 m-0 overflow-hidden"
+                >
+                    {renderContacts()}
+                </TabsContent>
+
                 <TabsContent
                     value="settings"
                     className="flex-1 m-0 overflow-hidden"
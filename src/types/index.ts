@@ -5,21 +5,75 @@
 
 // Re-export Chrome AI types
 export type {
+  GenerationRequestOptions,
   MessageDraft,
+  ModelDownloadState,
   PolishedMessage,
-  TargetProfile
+  ProfileInsight,
+  ProfilePosition,
+  ProfilePost,
+  ProfileSchool,
+  TargetProfile,
+  VariantRequestOptions
 } from '../services/chrome-ai';
 
 export type {
+  MessageAngle,
   MessageGeneratorOptions,
   UserProfile
 } from '../services/prompts';
 
+export type {
+  CommonGround,
+  SenderProfile
+} from '../services/common-ground';
+
+export type {
+  LinkedInAccountType,
+  MessageChannel,
+  MessageChannelId
+} from '../services/channels';
+
 export type {
   ExtensionSettings,
+  GenerationDefaults,
   StoredMessage
 } from '../services/storage';
 
+export type {
+  MessageGroup,
+  MessageGroupPage,
+  MessagePage,
+  MessageQuery,
+  MessageSort
+} from '../services/message-store';
+
+export type {
+  Contact,
+  ContactSnapshot,
+  PipelineStage
+} from '../services/contacts';
+
+export type {
+  DoNotContactEntry,
+  DoNotContactKind,
+  DoNotContactMatch
+} from '../services/do-not-contact';
+
+export type {
+  ConversationThread,
+  ThreadMessage,
+  ThreadParticipant
+} from '../utils/linkedin-thread';
+
+export type {
+  BackupData,
+  ImportMode,
+  ImportPreview,
+  ImportResult,
+  ImportSource
+} from '../services/backup';
+
 // Import for function implementation
 import type { ExtensionSettings as ExtensionSettingsType } from '../services/storage';
 
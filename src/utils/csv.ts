@@ -0,0 +1,81 @@
+/**
+ * CSV Utility
+ * Minimal RFC 4180 reading and writing: quoted fields, escaped quotes and newlines inside quotes
+ */
+
+/**
+ * Split CSV text into rows of fields. Blank lines are skipped.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.some(value => value.trim() !== '')) rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) endRow();
+
+  return rows;
+}
+
+// Spreadsheets run text starting with these as a formula, so exports prefix it with a quote
+const FORMULA_START = /^[=+\-@\t\r]/;
+const ESCAPED_FORMULA_START = /^'(?=[=+\-@\t\r])/;
+
+/**
+ * Parse CSV with a header row into one object per row, keyed by lower-cased header.
+ * The quote toCsv puts before formula-like text is removed.
+ */
+export function parseCsvRecords(text: string): Record<string, string>[] {
+  const [header, ...rows] = parseCsv(text.replace(/^\uFEFF/, ''));
+  if (!header) return [];
+
+  const keys = header.map(key => key.trim().toLowerCase());
+  return rows.map(row =>
+    Object.fromEntries(keys.map((key, index) => [key, (row[index] ?? '').trim().replace(ESCAPED_FORMULA_START, '')]))
+  );
+}
+
+const escapeField = (value: string | number | null | undefined): string => {
+  let text = value === null || value === undefined ? '' : String(value);
+  if (typeof value === 'string' && FORMULA_START.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Write rows as CSV, quoting only the fields that need it. Text that a spreadsheet
+ * would run as a formula is prefixed with a quote so it opens as plain text.
+ */
+export function toCsv(rows: (string | number | null | undefined)[][]): string {
+  return rows.map(row => row.map(escapeField).join(',')).join('\r\n') + '\r\n';
+}
@@ -21,7 +21,7 @@ export class ApiError extends Error {
   constructor(
     message: string,
     public statusCode?: number,
-    public provider?: 'openrouter' | 'gmail',
+    public provider?: 'openrouter' | 'gmail' | 'openai-compatible',
     public details?: any
   ) {
     super(message);
@@ -147,6 +147,33 @@ export function getUserFriendlyMessage(error: Error): {
       };
     }
 
+    if (error.provider === 'openai-compatible') {
+      if (error.statusCode === 401 || error.statusCode === 403) {
+        return {
+          message: 'The AI endpoint rejected the API key. Please check your settings.',
+          severity: ErrorSeverity.ERROR,
+          actions: ['Go to extension settings', 'Verify the endpoint API key']
+        };
+      }
+
+      if (error.statusCode === 404) {
+        return {
+          message: 'The AI endpoint or model was not found.',
+          severity: ErrorSeverity.ERROR,
+          actions: [
+            'Check the endpoint URL includes the version path (e.g. /v1)',
+            'Check the model name is installed on the server'
+          ]
+        };
+      }
+
+      return {
+        message: `The AI endpoint returned an error: ${error.message}`,
+        severity: ErrorSeverity.ERROR,
+        actions: ['Check the server logs', 'Try again']
+      };
+    }
+
     if (error.provider === 'gmail') {
       if (error.statusCode === 401) {
         return {
@@ -254,34 +281,44 @@ export function logError(error: Error, context?: Record<string, any>): void {
 }
 
 /**
- * Show error notification to user
+ * Show a basic Chrome notification. Chrome shows at most two buttons.
+ * @param id Reusing an id replaces the earlier notification
  */
-export async function showErrorNotification(error: Error): Promise<void> {
-  const { message, actions } = getUserFriendlyMessage(error);
-
+export async function showNotification(
+  id: string,
+  message: string,
+  options: { title?: string; buttons?: string[]; requireInteraction?: boolean } = {}
+): Promise<void> {
   // Use Chrome notifications API if available
   if (chrome?.notifications) {
+    const { title = 'Colder Extension', buttons, requireInteraction } = options;
     const notificationOptions: chrome.notifications.NotificationOptions<true> = {
       type: 'basic',
       iconUrl: '/assets/icon-128.png',
-      title: 'Colder Extension',
+      title,
       message: message,
-      ...(actions && actions.length > 0 && {
-        buttons: actions.slice(0, 2).map(action => ({ title: action }))
-      })
+      ...(buttons && buttons.length > 0 && {
+        buttons: buttons.slice(0, 2).map(button => ({ title: button }))
+      }),
+      ...(requireInteraction && { requireInteraction })
     };
 
     try {
-      await chrome.notifications.create(
-        `error-${Date.now()}`,
-        notificationOptions
-      );
+      await chrome.notifications.create(id, notificationOptions);
     } catch (e) {
       console.error('Failed to show notification:', e);
     }
   }
 }
 
+/**
+ * Show error notification to user
+ */
+export async function showErrorNotification(error: Error): Promise<void> {
+  const { message, actions } = getUserFriendlyMessage(error);
+  await showNotification(`error-${Date.now()}`, message, { buttons: actions });
+}
+
 /**
  * Wrap async function with error handling
  */
@@ -398,6 +435,13 @@ export function handleStorageError(error: any): never {
   throw new StorageError(message);
 }
 
+/**
+ * Check whether an error came from an aborted request (AbortController / AbortSignal)
+ */
+export function isAbortError(error: unknown): boolean {
+  return (error instanceof DOMException || error instanceof Error) && error.name === 'AbortError';
+}
+
 /**
  * Safe JSON parse with error handling
  */
@@ -0,0 +1,174 @@
+/**
+ * LinkedIn Composer Utility
+ * Finds (or opens) a message composer on a LinkedIn profile page and fills in a draft.
+ * Nothing here ever clicks a Send button: the user always reviews and sends the message.
+ * Like the profile selectors, these depend on LinkedIn's markup and may need maintenance.
+ */
+
+export type ComposerKind = 'message' | 'connection_note' | 'inmail';
+
+export interface InsertDraftResult {
+  composer: ComposerKind;
+}
+
+interface ComposerField {
+  kind: ComposerKind;
+  element: HTMLElement;
+  subjectField?: HTMLInputElement; // InMail only
+}
+
+// How long to wait for a composer to appear after clicking a button
+const COMPOSER_TIMEOUT_MS = 3000;
+
+const SELECTORS = {
+  connectionNote: '[role="dialog"] textarea[name="message"], .send-invite textarea, textarea#custom-message',
+  messageForm: '.msg-form, form.msg-form',
+  messageBody: '.msg-form__contenteditable[contenteditable="true"], [role="textbox"][contenteditable="true"]',
+  inmailSubject: 'input[name="subject"], .msg-form__subject',
+  messageButton: [
+    'main section:first-of-type button[aria-label^="Message"]',
+    'main section:first-of-type a[href*="/messaging/compose"]',
+    '.pv-top-card button[aria-label^="Message"]'
+  ],
+  connectButton: [
+    'main section:first-of-type button[aria-label^="Invite"][aria-label*="connect"]',
+    '.pv-top-card button[aria-label^="Invite"]'
+  ],
+  addNoteButton: '[role="dialog"] button[aria-label="Add a note"]'
+};
+
+/**
+ * Find a composer that is already open on the page
+ */
+export function findOpenComposer(): ComposerField | null {
+  const note = document.querySelector<HTMLTextAreaElement>(SELECTORS.connectionNote);
+  if (note) return { kind: 'connection_note', element: note };
+
+  // The newest conversation bubble is last in the DOM
+  const forms = Array.from(document.querySelectorAll(SELECTORS.messageForm)).reverse();
+  for (const form of forms) {
+    const body = form.querySelector<HTMLElement>(SELECTORS.messageBody);
+    if (!body) continue;
+    // InMail is the only composer with a subject line
+    const subjectField = form.querySelector<HTMLInputElement>(SELECTORS.inmailSubject);
+    return subjectField ? { kind: 'inmail', element: body, subjectField } : { kind: 'message', element: body };
+  }
+
+  return null;
+}
+
+/**
+ * Put `text` into the composer for the current profile.
+ * Uses an open composer when there is one; otherwise opens the messaging overlay
+ * (or InMail, which LinkedIn opens from the same button) and falls back to the
+ * "Add a note" connection dialog.
+ * @param preferred Only use this kind of composer
+ * @param subject Filled into the subject line when the composer has one
+ * @throws Error when no composer can be found or opened
+ */
+export async function insertDraft(text: string, preferred?: ComposerKind, subject?: string): Promise<InsertDraftResult> {
+  let composer = findOpenComposer();
+  if (composer && preferred && composer.kind !== preferred) composer = null;
+
+  if (!composer && preferred !== 'connection_note') {
+    composer = await openMessageComposer(preferred);
+  }
+  if (!composer && (!preferred || preferred === 'connection_note')) {
+    composer = await openConnectionNote();
+  }
+
+  if (!composer) {
+    throw new Error(
+      preferred === 'connection_note'
+        ? 'Could not open the "Add a note" dialog. Make sure you are not already connected.'
+        : 'Could not find a message box on this page. Open the conversation on LinkedIn and try again.'
+    );
+  }
+
+  if (subject && composer.subjectField) {
+    fillField(composer.subjectField, subject);
+  }
+  fillField(composer.element, text);
+  return { composer: composer.kind };
+}
+
+async function openMessageComposer(preferred?: ComposerKind): Promise<ComposerField | null> {
+  const button = findFirst(SELECTORS.messageButton);
+  if (!button) return null;
+
+  button.click();
+  const composer = await waitFor(() => {
+    const open = findOpenComposer();
+    return open && open.kind !== 'connection_note' ? open : null;
+  });
+  return composer && (!preferred || composer.kind === preferred) ? composer : null;
+}
+
+async function openConnectionNote(): Promise<ComposerField | null> {
+  const connect = findFirst(SELECTORS.connectButton);
+  if (!connect) return null;
+
+  connect.click();
+  const addNote = await waitFor(() => document.querySelector<HTMLElement>(SELECTORS.addNoteButton));
+  addNote?.click();
+
+  const note = await waitFor(() => document.querySelector<HTMLTextAreaElement>(SELECTORS.connectionNote));
+  return note ? { kind: 'connection_note', element: note } : null;
+}
+
+function findFirst(selectors: string[]): HTMLElement | null {
+  for (const selector of selectors) {
+    const element = document.querySelector<HTMLElement>(selector);
+    if (element) return element;
+  }
+  return null;
+}
+
+/**
+ * Poll until `find` returns something or the timeout passes
+ */
+function waitFor<T>(find: () => T | null, timeoutMs = COMPOSER_TIMEOUT_MS): Promise<T | null> {
+  return new Promise(resolve => {
+    const found = find();
+    if (found) return resolve(found);
+
+    const started = Date.now();
+    const timer = setInterval(() => {
+      const result = find();
+      if (result || Date.now() - started >= timeoutMs) {
+        clearInterval(timer);
+        resolve(result);
+      }
+    }, 100);
+  });
+}
+
+/**
+ * Set the text the way a user would, so LinkedIn's own handlers see the change
+ */
+function fillField(element: HTMLElement, text: string): void {
+  element.focus();
+
+  if (element instanceof HTMLTextAreaElement || element instanceof HTMLInputElement) {
+    // React tracks the value setter, so go through the prototype's
+    const setter = Object.getOwnPropertyDescriptor(Object.getPrototypeOf(element), 'value')?.set;
+    if (setter) {
+      setter.call(element, text);
+    } else {
+      element.value = text;
+    }
+    element.dispatchEvent(new Event('input', { bubbles: true }));
+    return;
+  }
+
+  // Rich text editor: replace the contents with one paragraph per line
+  element.replaceChildren(
+    ...text.split('\n').map(line => {
+      const paragraph = document.createElement('p');
+      if (line) paragraph.textContent = line;
+      else paragraph.appendChild(document.createElement('br'));
+      return paragraph;
+    })
+  );
+  element.dispatchEvent(new InputEvent('input', { bubbles: true, inputType: 'insertText', data: text }));
+}
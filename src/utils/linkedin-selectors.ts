@@ -4,6 +4,8 @@
  * These selectors are subject to change with LinkedIn's UI updates and may need maintenance.
  */
 
+import type { ProfilePosition, ProfilePost, ProfileSchool, TargetProfile } from '../types';
+
 /**
  * A robust function to get all visible text from a given section element.
  * @param sectionId The ID of the section to extract text from (e.g., 'about', 'experience').
@@ -101,9 +103,12 @@ export function extractJobTitle(): string | null {
 }
 
 /**
- * Extracts the current company from the headline.
+ * Extracts the current company, preferring the current position over the headline.
  */
-export function extractCompany(): string | null {
+export function extractCompany(positions: ProfilePosition[] = extractPositions()): string | null {
+  const current = positions.find(position => position.isCurrent && position.company);
+  if (current?.company) return current.company;
+
   const headline = extractJobTitle();
   if (headline && headline.includes(' at ')) {
     const parts = headline.split(' at ');
@@ -113,43 +118,159 @@ export function extractCompany(): string | null {
 }
 
 /**
- * Extracts the entire work experience section as formatted text.
+ * Extracts the location shown under the headline.
+ */
+export function extractLocation(): string | null {
+  const selectors = [
+    '.pv-text-details__left-panel .text-body-small.inline', // Older layout
+    'div[class*="pv-top-card"] .text-body-small.inline', // Top card area
+    'main section:first-of-type span.text-body-small.inline.t-black--light' // Generic selector
+  ];
+
+  for (const selector of selectors) {
+    const text = document.querySelector(selector)?.textContent?.trim();
+    if (text && text.length > 1 && text.length < 120) return text;
+  }
+
+  return null;
+}
+
+/**
+ * Extracts the follower count from the top card, e.g. "1,234 followers".
  */
-export function extractWorkExperience(): string {
-  const expSection = document.querySelector('section:has(#experience)');
-  if (!expSection) return 'No work experience information available.';
+export function extractFollowerCount(): number | null {
+  return findCount(/([\d,.]+K?)\+?\s+followers/i);
+}
 
-  const experienceItems = expSection.querySelectorAll('li');
-  const experienceTexts: string[] = [];
+/**
+ * Extracts the connection count from the top card. LinkedIn caps this at "500+".
+ */
+export function extractConnectionCount(): number | null {
+  return findCount(/([\d,.]+K?)\+?\s+connections/i);
+}
+
+function findCount(pattern: RegExp): number | null {
+  const topCard = document.querySelector('main section:first-of-type') || document.querySelector('main');
+  const match = topCard?.textContent?.replace(/\s+/g, ' ').match(pattern);
+  if (!match) return null;
+
+  const raw = match[1].replace(/,/g, '');
+  const count = raw.endsWith('K') ? parseFloat(raw) * 1000 : parseInt(raw, 10);
+  return Number.isFinite(count) ? Math.round(count) : null;
+}
+
+// Date lines start with an optional month and a year, e.g. "Jan 2020 - Present · 4 yrs" or "2015 - 2019"
+const DATE_LINE_PATTERN = /^(?:[A-Za-z]{3,9}\s+)?\d{4}\b/;
+
+/**
+ * Parses a LinkedIn date range into years.
+ */
+export function parseDateRange(text: string): { startYear?: number; endYear?: number; isCurrent: boolean } {
+  const years = (text.match(/\b(19|20)\d{2}\b/g) || []).map(Number);
+  const isCurrent = /present/i.test(text);
+
+  return {
+    startYear: years[0],
+    endYear: isCurrent ? undefined : years[1] ?? years[0],
+    isCurrent
+  };
+}
 
-  experienceItems.forEach(item => {
-    const textContent = item.textContent?.trim().replace(/\s+/g, ' ').trim();
-    if (textContent && textContent.length > 20) {
-      experienceTexts.push(textContent);
+/**
+ * Visible text lines of a list item, in order, skipping any nested list items.
+ */
+function getItemLines(item: Element): string[] {
+  const lines: string[] = [];
+
+  item.querySelectorAll('span[aria-hidden="true"]').forEach(span => {
+    if (span.closest('li') !== item) return;
+    const text = span.textContent?.trim().replace(/\s+/g, ' ');
+    if (text && text.length > 1 && !lines.includes(text)) {
+      lines.push(text);
     }
   });
 
-  return experienceTexts.length > 0 ? experienceTexts.join('\n\n---\n\n') : 'No work experience information available.';
+  return lines;
 }
 
 /**
- * Extracts the education section as formatted text.
+ * Top-level entries of a profile section's list.
  */
-export function extractEducation(): string {
-  const eduSection = document.querySelector('section:has(#education)');
-  if (!eduSection) return 'No education information available.';
+function getSectionItems(sectionId: string): Element[] {
+  const section = document.querySelector(`section:has(#${sectionId})`);
+  if (!section) return [];
 
-  const educationItems = eduSection.querySelectorAll('li');
-  const educationTexts: string[] = [];
+  return Array.from(section.querySelectorAll('li')).filter(item => !item.parentElement?.closest('li'));
+}
+
+function parsePosition(lines: string[], company?: string): ProfilePosition | null {
+  const dateIndex = lines.findIndex(line => DATE_LINE_PATTERN.test(line));
+  if (!lines[0] || dateIndex === 0) return null;
+
+  // The line under the title reads "Company · Full-time" unless the company is a group heading
+  const companyLine = company ? undefined : lines[1] && dateIndex !== 1 ? lines[1] : undefined;
+  const dateRange = dateIndex > 0 ? lines[dateIndex] : undefined;
+  const rest = dateIndex > 0 ? lines.slice(dateIndex + 1) : lines.slice(companyLine ? 2 : 1);
+  // A short line right after the dates is the location, e.g. "London · Hybrid"
+  const location = rest[0] && rest[0].length <= 50 && !rest[0].endsWith('.') ? rest[0] : undefined;
+  const description = rest.slice(location ? 1 : 0).find(line => line.length > 40);
+
+  return {
+    title: lines[0],
+    company: company || companyLine?.split(' · ')[0],
+    dateRange,
+    ...(dateRange ? parseDateRange(dateRange) : { isCurrent: false }),
+    location,
+    description
+  };
+}
 
-  educationItems.forEach(item => {
-    const textContent = item.textContent?.trim().replace(/\s+/g, ' ').trim();
-    if (textContent && textContent.length > 20) {
-      educationTexts.push(textContent);
+/**
+ * Extracts work experience as positions, newest first as LinkedIn lists them.
+ * Several roles at one company are grouped under the company name on the page.
+ */
+export function extractPositions(): ProfilePosition[] {
+  const positions: ProfilePosition[] = [];
+
+  getSectionItems('experience').forEach(item => {
+    const roles = Array.from(item.querySelectorAll('li'))
+      .map(getItemLines)
+      .filter(lines => lines.some(line => DATE_LINE_PATTERN.test(line)));
+
+    if (roles.length > 0) {
+      const company = getItemLines(item)[0];
+      roles.forEach(lines => {
+        const position = parsePosition(lines, company);
+        if (position) positions.push(position);
+      });
+      return;
     }
+
+    const position = parsePosition(getItemLines(item));
+    if (position) positions.push(position);
+  });
+
+  return positions;
+}
+
+/**
+ * Extracts the schools from the education section.
+ */
+export function extractSchools(): ProfileSchool[] {
+  const schools: ProfileSchool[] = [];
+
+  getSectionItems('education').forEach(item => {
+    const [name, ...rest] = getItemLines(item);
+    if (!name) return;
+
+    const dateRange = rest.find(line => DATE_LINE_PATTERN.test(line));
+    const degree = rest.find(line => line !== dateRange);
+    const { startYear, endYear } = dateRange ? parseDateRange(dateRange) : { startYear: undefined, endYear: undefined };
+
+    schools.push({ name, degree, dateRange, startYear, endYear });
   });
 
-  return educationTexts.length > 0 ? educationTexts.join('\n\n') : 'No education information available.';
+  return schools;
 }
 
 /**
@@ -176,37 +297,44 @@ export function extractSkills(): string[] {
 /**
  * Extracts recent posts and activity.
  */
-export function extractRecentPosts(): string {
+export function extractPosts(): ProfilePost[] {
   const activitySection = document.querySelector('section:has(#activity)');
-  if (!activitySection) return 'No recent activity found.';
+  if (!activitySection) return [];
 
-  const activityItems = activitySection.querySelectorAll('li');
-  const activities: string[] = [];
+  const posts: ProfilePost[] = [];
 
-  activityItems.forEach((item, index) => {
-    if (index >= 5) return; // Limit to 5 activities
-    const textContent = item.textContent?.trim().replace(/\s+/g, ' ').trim();
-    if (textContent) {
-      activities.push(textContent);
-    }
+  activitySection.querySelectorAll('li').forEach(item => {
+    if (posts.length >= 5) return; // Limit to 5 posts
+    const body = item.querySelector('.update-components-text, span[dir="ltr"]') || item;
+    const text = body.textContent?.trim().replace(/\s+/g, ' ');
+    if (!text) return;
+
+    const postedAgo = item.textContent?.match(/\b(\d+(?:mo|yr|[hdwy]))\b/)?.[1];
+    posts.push({ text, postedAgo });
   });
 
-  return activities.length > 0 ? activities.join('\n\n') : 'No recent activity found.';
+  return posts;
 }
 
 /**
  * Extracts the "About" section.
  */
-export function extractAbout(): string {
-  const aboutText = getSectionText('about');
-  return aboutText || 'No about section available.';
+export function extractAbout(): string | null {
+  return getSectionText('about') || null;
 }
 
 /**
  * Gets the canonical LinkedIn profile URL.
  */
 export function getProfileUrl(): string {
-  const url = new URL(window.location.href);
+  return normalizeProfileUrl(window.location.href);
+}
+
+/**
+ * Strips the query, hash and trailing slash so every visit to a profile maps to the same key.
+ */
+export function normalizeProfileUrl(href: string): string {
+  const url = new URL(href);
   url.search = '';
   url.hash = '';
   let cleanUrl = url.toString();
@@ -217,34 +345,33 @@ export function getProfileUrl(): string {
 }
 
 /**
- * Gathers all extracted text into a single string formatted for an AI prompt.
+ * Gathers everything on the profile page into a structured profile.
+ * Returns null when the page doesn't look like a profile (no name found).
  */
-export function formatProfileForPrompt(): string {
-  const profile = {
-    name: extractName(),
-    headline: extractJobTitle(),
-    company: extractCompany(),
-    about: extractAbout(),
-    experience: extractWorkExperience(),
-    education: extractEducation(),
+export function extractProfile(): TargetProfile | null {
+  const name = extractName();
+  if (!name) return null;
+
+  const linkedinUrl = getProfileUrl();
+  const headline = extractJobTitle() ?? undefined;
+  const positions = extractPositions();
+  const currentPosition = positions.find(position => position.isCurrent) ?? positions[0];
+
+  return {
+    id: btoa(linkedinUrl), // Simple ID generation
+    linkedinUrl,
+    name,
+    headline,
+    currentJobTitle: currentPosition?.title ?? headline,
+    currentCompany: extractCompany(positions) ?? undefined,
+    location: extractLocation() ?? undefined,
+    about: extractAbout() ?? undefined,
+    positions,
+    schools: extractSchools(),
     skills: extractSkills(),
-    activity: extractRecentPosts(),
-    profileUrl: getProfileUrl(),
+    posts: extractPosts(),
+    followerCount: extractFollowerCount() ?? undefined,
+    connectionCount: extractConnectionCount() ?? undefined,
+    extractedAt: new Date()
   };
-
-  const sections: string[] = [];
-  sections.push('=== LINKEDIN PROFILE DATA ===\n');
-  if (profile.name) sections.push(`Name: ${profile.name}`);
-  if (profile.headline) sections.push(`Current Role/Headline: ${profile.headline}`);
-  if (profile.company) sections.push(`Current Company: ${profile.company}`);
-  sections.push(`LinkedIn URL: ${profile.profileUrl}`);
-
-  if (profile.about !== 'No about section available.') sections.push('\n--- ABOUT ---\n' + profile.about);
-  if (profile.experience !== 'No work experience information available.') sections.push('\n--- WORK EXPERIENCE ---\n' + profile.experience);
-  if (profile.education !== 'No education information available.') sections.push('\n--- EDUCATION ---\n' + profile.education);
-  if (profile.skills.length > 0) sections.push('\n--- SKILLS ---\n' + profile.skills.join(', '));
-  if (profile.activity !== 'No recent activity found.') sections.push('\n--- RECENT ACTIVITY & POSTS ---\n' + profile.activity);
-
-  sections.push('\n=== END OF PROFILE ===');
-  return sections.join('\n');
 }
@@ -0,0 +1,130 @@
+/**
+ * LinkedIn Thread Utility
+ * Reads a conversation from the LinkedIn messaging thread view.
+ * Like the profile selectors, these depend on LinkedIn's markup and may need maintenance.
+ */
+
+import { normalizeProfileUrl } from './linkedin-selectors';
+
+export interface ThreadParticipant {
+  name: string;
+  profileUrl?: string;
+}
+
+export interface ThreadMessage {
+  senderName: string;
+  isSelf: boolean; // Sent by the extension's user
+  text: string;
+  timestamp?: string; // As LinkedIn shows it, e.g. "Mar 3 · 10:42 AM"
+}
+
+export interface ConversationThread {
+  threadUrl: string;
+  participants: ThreadParticipant[]; // Everyone in the thread except the user
+  messages: ThreadMessage[]; // Oldest first
+  extractedAt: Date;
+}
+
+const SELECTORS = {
+  participantLink: '.msg-title-bar a[href*="/in/"], a.msg-thread__link-to-profile',
+  participantName: '.msg-entity-lockup__entity-title, .msg-thread__link-to-profile h2, #thread-detail-jump-target',
+  listItem: '.msg-s-message-list__event',
+  dayHeading: '.msg-s-message-list__time-heading',
+  senderName: '.msg-s-message-group__name, .msg-s-message-group__profile-link',
+  time: '.msg-s-message-group__timestamp',
+  message: '.msg-s-event-listitem',
+  otherMessage: 'msg-s-event-listitem--other',
+  messageBody: '.msg-s-event-listitem__body'
+};
+
+/**
+ * Whether a URL is a LinkedIn messaging thread.
+ */
+export function isMessagingThreadUrl(url: string | undefined): boolean {
+  return Boolean(url && /linkedin\.com\/messaging\/thread\//.test(url));
+}
+
+/**
+ * Extracts the other people in the thread from its header.
+ */
+export function extractParticipants(): ThreadParticipant[] {
+  const participants: ThreadParticipant[] = [];
+
+  document.querySelectorAll<HTMLAnchorElement>(SELECTORS.participantLink).forEach(link => {
+    const name = link.textContent?.trim();
+    const profileUrl = normalizeProfileUrl(link.href);
+    if (name && !participants.some(participant => participant.profileUrl === profileUrl)) {
+      participants.push({ name, profileUrl });
+    }
+  });
+
+  if (participants.length === 0) {
+    const name = document.querySelector(SELECTORS.participantName)?.textContent?.trim();
+    if (name) participants.push({ name });
+  }
+
+  return participants;
+}
+
+/**
+ * Extracts the messages in the thread, oldest first.
+ * LinkedIn only shows the sender and time on the first message of a group,
+ * so both carry over to the messages that follow.
+ */
+export function extractThreadMessages(participants: ThreadParticipant[] = extractParticipants()): ThreadMessage[] {
+  const messages: ThreadMessage[] = [];
+  const participantNames = participants.map(participant => participant.name.toLowerCase());
+  let day = '';
+  let senderName = '';
+  let time = '';
+
+  document.querySelectorAll(SELECTORS.listItem).forEach(item => {
+    const heading = item.querySelector(SELECTORS.dayHeading)?.textContent?.trim();
+    if (heading) day = heading;
+
+    const name = item.querySelector(SELECTORS.senderName)?.textContent?.trim();
+    const itemTime = item.querySelector(SELECTORS.time)?.textContent?.trim();
+    if (name) {
+      senderName = name;
+      time = itemTime || '';
+    } else if (itemTime) {
+      time = itemTime;
+    }
+
+    item.querySelectorAll(SELECTORS.message).forEach(message => {
+      const text = message.querySelector(SELECTORS.messageBody)?.textContent?.trim();
+      if (!text) return;
+
+      // The "--other" class marks incoming messages; fall back to matching the header name
+      const isSelf = message.classList.contains(SELECTORS.otherMessage)
+        ? false
+        : !participantNames.includes(senderName.toLowerCase());
+
+      messages.push({
+        senderName,
+        isSelf,
+        text,
+        timestamp: [day, time].filter(Boolean).join(' · ') || undefined
+      });
+    });
+  });
+
+  return messages;
+}
+
+/**
+ * Gathers the open conversation into a structured thread.
+ * @returns null when no messages are found on the page
+ */
+export function extractThread(): ConversationThread | null {
+  const participants = extractParticipants();
+  const messages = extractThreadMessages(participants);
+  if (messages.length === 0) return null;
+
+  return {
+    threadUrl: normalizeProfileUrl(window.location.href),
+    participants,
+    messages,
+    extractedAt: new Date()
+  };
+}
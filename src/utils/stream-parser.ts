@@ -0,0 +1,78 @@
+/**
+ * Stream Parser Utility
+ * Helpers for consuming streamed model output and reading partial JSON
+ */
+
+/**
+ * Read a Prompt API text stream to completion, reporting the accumulated text after every chunk.
+ * Older Chrome builds emit the full response so far on each chunk while newer builds emit deltas,
+ * so both shapes are normalised into the accumulated text.
+ * @returns The complete streamed text.
+ */
+export async function readTextStream(
+  stream: ReadableStream<string>,
+  onText?: (accumulated: string) => void
+): Promise<string> {
+  const reader = stream.getReader();
+  let accumulated = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      if (!value) continue;
+
+      accumulated = accumulated && value.startsWith(accumulated) ? value : accumulated + value;
+      onText?.(accumulated);
+    }
+  } finally {
+    reader.releaseLock();
+  }
+
+  return accumulated;
+}
+
+/**
+ * Decode the value of a string field from a JSON document that may still be incomplete.
+ * Used to show the message body while the model is still writing the surrounding JSON.
+ * @param text The (possibly truncated) JSON text.
+ * @param key The field to read, e.g. 'body'.
+ * @returns The decoded string so far, or null if the field has not started yet.
+ */
+export function extractPartialJsonString(text: string, key: string): string | null {
+  const match = new RegExp(`"${key}"\\s*:\\s*"`).exec(text);
+  if (!match) return null;
+
+  let result = '';
+  let i = match.index + match[0].length;
+
+  while (i < text.length) {
+    const char = text[i];
+
+    if (char === '"') break;
+
+    if (char !== '\\') {
+      result += char;
+      i++;
+      continue;
+    }
+
+    // Escape sequence - stop if it is cut off mid-way
+    const next = text[i + 1];
+    if (next === undefined) break;
+
+    if (next === 'u') {
+      const hex = text.slice(i + 2, i + 6);
+      if (!/^[0-9a-fA-F]{4}$/.test(hex)) break;
+      result += String.fromCharCode(parseInt(hex, 16));
+      i += 6;
+      continue;
+    }
+
+    const escapes: Record<string, string> = { n: '\n', t: '\t', r: '\r', b: '\b', f: '\f' };
+    result += escapes[next] ?? next;
+    i += 2;
+  }
+
+  return result;
+}
@@ -0,0 +1,46 @@
+import type { TargetProfile, UserProfile } from '~/types';
+
+export const targetProfile: TargetProfile = {
+  id: 'profile_1',
+  linkedinUrl: 'https://www.linkedin.com/in/ada-lovelace',
+  name: 'Ada Lovelace',
+  headline: 'Head of Engineering at Analytical Engines',
+  currentJobTitle: 'Head of Engineering',
+  currentCompany: 'Analytical Engines',
+  location: 'London, United Kingdom',
+  about: 'I write programs for machines that do not exist yet.',
+  positions: [
+    {
+      title: 'Head of Engineering',
+      company: 'Analytical Engines',
+      dateRange: 'Jan 2020 - Present · 6 yrs',
+      startYear: 2020,
+      isCurrent: true
+    },
+    {
+      title: 'Translator',
+      company: 'Scientific Memoirs',
+      dateRange: '2015 - 2019',
+      startYear: 2015,
+      endYear: 2019,
+      isCurrent: false
+    }
+  ],
+  schools: [],
+  skills: [],
+  posts: [],
+  connectionCount: 500,
+  extractedAt: new Date('2026-01-01T00:00:00Z')
+};
+
+export const userProfile: UserProfile = {
+  userName: 'Charles Babbage',
+  userRole: 'Founder',
+  userCompany: 'Difference Engines',
+  userBackground: 'Mechanical computing',
+  userValueProposition: 'Hardware for your programs'
+};
+
+export function draftJson(body: string, extra: Record<string, unknown> = {}): string {
+  return JSON.stringify({ body, wordCount: body.split(/\s+/).length, ...extra });
+}
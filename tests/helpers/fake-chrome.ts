@@ -0,0 +1,156 @@
+/**
+ * Fake Chrome Extension APIs
+ * In-memory stand-ins for the parts of `chrome.*` the extension uses
+ */
+
+import { vi } from 'vitest';
+
+type Listener = (...args: any[]) => any;
+
+export function createEvent() {
+  const listeners = new Set<Listener>();
+  return {
+    addListener: vi.fn((listener: Listener) => listeners.add(listener)),
+    removeListener: vi.fn((listener: Listener) => listeners.delete(listener)),
+    hasListener: (listener: Listener) => listeners.has(listener),
+    dispatch: (...args: any[]) => [...listeners].map(listener => listener(...args))
+  };
+}
+
+/**
+ * An in-memory chrome.storage area
+ */
+export function createStorageArea(onChanged: ReturnType<typeof createEvent>, areaName: string) {
+  let data: Record<string, any> = {};
+
+  const emit = (changes: Record<string, { oldValue?: any; newValue?: any }>) => {
+    if (Object.keys(changes).length > 0) onChanged.dispatch(changes, areaName);
+  };
+
+  return {
+    get data() {
+      return data;
+    },
+    get: vi.fn(async (keys?: string | string[] | Record<string, any> | null) => {
+      const clone = (value: any) => (value === undefined ? undefined : structuredClone(value));
+      if (keys === undefined || keys === null) return structuredClone(data);
+      if (typeof keys === 'string') return keys in data ? { [keys]: clone(data[keys]) } : {};
+      if (Array.isArray(keys)) {
+        return Object.fromEntries(keys.filter(key => key in data).map(key => [key, clone(data[key])]));
+      }
+      return Object.fromEntries(Object.entries(keys).map(([key, fallback]) => [key, key in data ? clone(data[key]) : fallback]));
+    }),
+    set: vi.fn(async (items: Record<string, any>) => {
+      const changes: Record<string, { oldValue?: any; newValue?: any }> = {};
+      for (const [key, value] of Object.entries(items)) {
+        changes[key] = { oldValue: data[key], newValue: structuredClone(value) };
+        data[key] = structuredClone(value);
+      }
+      emit(changes);
+    }),
+    remove: vi.fn(async (keys: string | string[]) => {
+      const changes: Record<string, { oldValue?: any }> = {};
+      for (const key of Array.isArray(keys) ? keys : [keys]) {
+        if (key in data) changes[key] = { oldValue: data[key] };
+        delete data[key];
+      }
+      emit(changes);
+    }),
+    clear: vi.fn(async () => {
+      const changes = Object.fromEntries(Object.entries(data).map(([key, oldValue]) => [key, { oldValue }]));
+      data = {};
+      emit(changes);
+    }),
+    getBytesInUse: vi.fn(async (keys?: string | string[] | null) => {
+      const selected = keys === undefined || keys === null
+        ? data
+        : Object.fromEntries((Array.isArray(keys) ? keys : [keys]).filter(key => key in data).map(key => [key, data[key]]));
+      return Object.entries(selected).reduce((total, [key, value]) => total + key.length + JSON.stringify(value).length, 0);
+    })
+  };
+}
+
+/**
+ * chrome.alarms that never fire on their own; tests dispatch `onAlarm` themselves
+ */
+export function createAlarms() {
+  const alarms = new Map<string, chrome.alarms.Alarm>();
+
+  return {
+    create: vi.fn(async (name: string, info: chrome.alarms.AlarmCreateInfo) => {
+      alarms.set(name, { name, scheduledTime: info.when ?? Date.now() + (info.delayInMinutes ?? 0) * 60_000 });
+    }),
+    get: vi.fn(async (name: string) => alarms.get(name)),
+    getAll: vi.fn(async () => [...alarms.values()]),
+    clear: vi.fn(async (name: string) => alarms.delete(name)),
+    onAlarm: createEvent()
+  };
+}
+
+export function createFakeChrome() {
+  const storageOnChanged = createEvent();
+
+  return {
+    storage: {
+      local: createStorageArea(storageOnChanged, 'local'),
+      sync: createStorageArea(storageOnChanged, 'sync'),
+      onChanged: storageOnChanged
+    },
+    runtime: {
+      id: 'colder-test',
+      getManifest: () => ({ version: '0.1.0' }),
+      sendMessage: vi.fn(async () => ({ success: true })),
+      onMessage: createEvent(),
+      onInstalled: createEvent(),
+      onStartup: createEvent(),
+      lastError: undefined as chrome.runtime.LastError | undefined
+    },
+    tabs: {
+      query: vi.fn(async () => [] as chrome.tabs.Tab[]),
+      sendMessage: vi.fn(async () => undefined as any),
+      reload: vi.fn(async () => undefined),
+      create: vi.fn(async (props: chrome.tabs.CreateProperties) => ({ id: 1, ...props })),
+      update: vi.fn(async (_id: number, props: chrome.tabs.UpdateProperties) => ({ id: 1, ...props })),
+      onUpdated: createEvent(),
+      onActivated: createEvent(),
+      onRemoved: createEvent()
+    },
+    action: {
+      setBadgeText: vi.fn(async () => undefined),
+      setBadgeBackgroundColor: vi.fn(async () => undefined),
+      onClicked: createEvent()
+    },
+    sidePanel: {
+      open: vi.fn(async () => undefined)
+    },
+    windows: {
+      WINDOW_ID_NONE: -1,
+      WINDOW_ID_CURRENT: -2,
+      getLastFocused: vi.fn(async () => ({ id: 1 }) as chrome.windows.Window),
+      onFocusChanged: createEvent()
+    },
+    permissions: {
+      request: vi.fn(async () => true),
+      contains: vi.fn(async () => true)
+    },
+    alarms: createAlarms(),
+    notifications: {
+      create: vi.fn(async (id: string) => id),
+      clear: vi.fn(async () => true),
+      onClicked: createEvent(),
+      onButtonClicked: createEvent(),
+      onClosed: createEvent()
+    }
+  };
+}
+
+export type FakeChrome = ReturnType<typeof createFakeChrome>;
+
+/**
+ * Replace the global `chrome` with a fresh fake and return it
+ */
+export function installFakeChrome(): FakeChrome {
+  const fake = createFakeChrome();
+  (globalThis as any).chrome = fake;
+  return fake;
+}
@@ -0,0 +1,254 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import IndexSidePanel from '~/sidepanel';
+import { storage } from '~/services/storage';
+import type { FakeChrome } from '../helpers/fake-chrome';
+import { targetProfile } from '../fixtures/profiles';
+
+const PROFILE_URL = 'https://www.linkedin.com/in/ada-lovelace';
+
+function setUpLinkedInTab(fake: FakeChrome) {
+  fake.tabs.query.mockResolvedValue([{ id: 1, url: PROFILE_URL } as chrome.tabs.Tab]);
+  fake.tabs.sendMessage.mockImplementation(async (_tabId: number, message: { type: string }) => {
+    if (message.type === 'PING') return { success: true, status: 'ready' };
+    if (message.type === 'EXTRACT_PROFILE') return { success: true, data: targetProfile };
+    return { success: false, error: 'Unknown message type' };
+  });
+}
+
+describe('Side panel generate flow', () => {
+  let fake: FakeChrome;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    fake = chrome as unknown as FakeChrome;
+    await fake.storage.local.set({
+      colder_onboarding: { hasCompletedOnboarding: true },
+      colder_settings: { userName: 'Charles', aiProvider: 'mock' }
+    });
+    setUpLinkedInTab(fake);
+  });
+
+  it('streams a generated message and saves it to history', async () => {
+    render(<IndexSidePanel />);
+
+    fireEvent.click(await screen.findByRole('button', { name: /Generate Message/ }));
+
+    expect(await screen.findByText(/words so far/)).toBeTruthy();
+    expect(await screen.findByText('Generated Message', {}, { timeout: 5000 })).toBeTruthy();
+    expect((screen.getByRole('textbox') as HTMLTextAreaElement).value).toContain('Hi Ada');
+
+    const messages = await storage.getMessages();
+    expect(messages).toHaveLength(1);
+    expect(messages[0]).toMatchObject({ targetProfileUrl: PROFILE_URL, targetProfileName: 'Ada Lovelace' });
+  });
+
+  it('stops a generation without saving anything', async () => {
+    render(<IndexSidePanel />);
+
+    fireEvent.click(await screen.findByRole('button', { name: /Generate Message/ }));
+    await screen.findByText(/words so far/);
+    fireEvent.click(screen.getByRole('button', { name: /Stop/ }));
+
+    expect(await screen.findByRole('button', { name: /Generate Message/ })).toBeTruthy();
+    expect(await storage.getMessages()).toEqual([]);
+  });
+
+  it('warns about a profile that was already contacted', async () => {
+    await fake.storage.local.set({
+      colder_messages: [{
+        id: 'msg_1',
+        body: 'Hi Ada, loved your notes on the engine.',
+        wordCount: 8,
+        targetProfileUrl: PROFILE_URL,
+        targetProfileName: 'Ada Lovelace',
+        tone: 'professional',
+        length: 'short',
+        purpose: 'coffee_chat',
+        generatedAt: '2026-03-01T09:00:00.000Z'
+      }]
+    });
+
+    render(<IndexSidePanel />);
+
+    expect(await screen.findByText('You have already contacted Ada Lovelace', {}, { timeout: 5000 })).toBeTruthy();
+    expect(screen.getByText(/Coffee Chat Request/)).toBeTruthy();
+    expect(screen.getByText('Hi Ada, loved your notes on the engine.')).toBeTruthy();
+    expect(screen.getByRole('button', { name: /Write a Follow-up Instead/ })).toBeTruthy();
+  });
+
+  it('refuses to generate for a profile on the do-not-contact list until overridden', async () => {
+    await fake.storage.local.set({
+      colder_do_not_contact: [{
+        id: 'dnc_1',
+        kind: 'name_company',
+        name: 'Ada Lovelace',
+        company: 'Analytical Engines',
+        reason: 'Existing customer',
+        addedAt: '2026-03-01T09:00:00.000Z'
+      }]
+    });
+
+    render(<IndexSidePanel />);
+
+    fireEvent.click(await screen.findByRole('button', { name: /Generate Message/ }));
+
+    expect(await screen.findByText('Ada Lovelace is on your do-not-contact list')).toBeTruthy();
+    expect(screen.getByText('Reason: Existing customer')).toBeTruthy();
+    expect(await storage.getMessages()).toEqual([]);
+
+    fireEvent.click(screen.getByRole('button', { name: /Generate Anyway/ }));
+
+    expect(await screen.findByText('Generated Message', {}, { timeout: 5000 })).toBeTruthy();
+    expect(await storage.getMessages()).toHaveLength(1);
+  });
+
+  it('refuses to write a follow-up for a profile on the do-not-contact list until overridden', async () => {
+    await storage.saveMessage({
+      body: 'Hi Ada, loved your notes on the engine.',
+      wordCount: 8,
+      targetProfileUrl: PROFILE_URL,
+      targetProfileName: 'Ada Lovelace',
+      tone: 'professional',
+      length: 'short',
+      purpose: 'coffee_chat'
+    });
+    await storage.addDoNotContactEntries([{ kind: 'profile_url', profileUrl: PROFILE_URL, reason: 'Asked not to' }]);
+
+    render(<IndexSidePanel />);
+
+    fireEvent.click(await screen.findByRole('button', { name: /Write a Follow-up Instead/ }, { timeout: 5000 }));
+
+    expect(await screen.findByText('Ada Lovelace is on your do-not-contact list')).toBeTruthy();
+    expect(await storage.getMessages()).toHaveLength(1);
+
+    fireEvent.click(screen.getByRole('button', { name: /Generate Anyway/ }));
+
+    expect(await screen.findByText('Generated Message', {}, { timeout: 5000 })).toBeTruthy();
+    expect(await storage.getMessages()).toHaveLength(2);
+  });
+
+  it('polishes a drafted reply', async () => {
+    const threadUrl = 'https://www.linkedin.com/messaging/thread/2-abc/';
+    fake.tabs.query.mockResolvedValue([{ id: 1, url: threadUrl } as chrome.tabs.Tab]);
+    fake.tabs.sendMessage.mockImplementation(async (_tabId: number, message: { type: string }) => {
+      if (message.type === 'PING') return { success: true, status: 'ready' };
+      if (message.type === 'EXTRACT_THREAD') {
+        return {
+          success: true,
+          data: {
+            threadUrl,
+            participants: [{ name: 'Ada Lovelace', profileUrl: PROFILE_URL }],
+            messages: [{ senderName: 'Ada Lovelace', isSelf: false, text: 'Happy to chat next week.' }],
+            extractedAt: new Date()
+          }
+        };
+      }
+      return { success: false, error: 'Unknown message type' };
+    });
+
+    render(<IndexSidePanel />);
+
+    fireEvent.click(await screen.findByRole('button', { name: /Draft Reply/ }));
+    fireEvent.click(await screen.findByRole('button', { name: /Polish/ }, { timeout: 5000 }));
+    fireEvent.change(screen.getByPlaceholderText(/Make it shorter/), { target: { value: 'Shorter' } });
+    fireEvent.click(screen.getByRole('button', { name: /Apply Polish/ }));
+
+    expect(await screen.findByText('Polished', {}, { timeout: 5000 })).toBeTruthy();
+  });
+
+  it('searches and filters history in storage', async () => {
+    const base = { wordCount: 4, targetProfileUrl: PROFILE_URL, targetProfileName: 'Ada Lovelace', length: 'short', purpose: 'connection' };
+    await storage.saveMessage({ ...base, body: 'Hi Ada, about the engine', tone: 'professional' });
+    await storage.saveMessage({ ...base, body: 'Coffee next week?', tone: 'casual', purpose: 'coffee_chat' });
+    await storage.saveMessage({
+      ...base,
+      body: 'Hello Charles',
+      tone: 'casual',
+      targetProfileUrl: 'https://www.linkedin.com/in/charles-babbage',
+      targetProfileName: 'Charles Babbage'
+    });
+
+    render(<IndexSidePanel />);
+    fireEvent.mouseDown(await screen.findByRole('tab', { name: /History/ }));
+
+    expect(await screen.findByText('Hello Charles')).toBeTruthy();
+
+    fireEvent.change(screen.getByLabelText('Tone'), { target: { value: 'casual' } });
+    await waitFor(() => expect(screen.queryByText('Hi Ada, about the engine')).toBeNull());
+    expect(screen.getByText('2 of 3 messages')).toBeTruthy();
+
+    fireEvent.change(screen.getByLabelText('Search history'), { target: { value: 'coffee' } });
+    await waitFor(() => expect(screen.queryByText('Hello Charles')).toBeNull());
+    expect(screen.getByText('Coffee next week?')).toBeTruthy();
+  });
+
+  it('counts contacts rather than messages when history is grouped', async () => {
+    const base = { wordCount: 4, targetProfileUrl: PROFILE_URL, targetProfileName: 'Ada Lovelace', tone: 'casual', length: 'short', purpose: 'connection' };
+    await storage.saveMessage({ ...base, body: 'Hi Ada, about the engine' });
+    await storage.saveMessage({ ...base, body: 'Coffee next week?' });
+    await storage.saveMessage({
+      ...base,
+      body: 'Hello Charles',
+      targetProfileUrl: 'https://www.linkedin.com/in/charles-babbage',
+      targetProfileName: 'Charles Babbage'
+    });
+
+    render(<IndexSidePanel />);
+    fireEvent.mouseDown(await screen.findByRole('tab', { name: /History/ }));
+
+    expect(await screen.findByText('3 messages')).toBeTruthy();
+
+    fireEvent.click(screen.getByLabelText('Group by contact'));
+    expect(await screen.findByText('2 contacts')).toBeTruthy();
+  });
+
+  it('previews a backup before merging it into history', async () => {
+    const backup = {
+      format: 'colder-backup',
+      schemaVersion: 1,
+      messages: [
+        {
+          id: 'msg_1',
+          body: 'Hi Ada, restored',
+          wordCount: 3,
+          targetProfileUrl: PROFILE_URL,
+          targetProfileName: 'Ada Lovelace',
+          tone: 'professional',
+          length: 'short',
+          purpose: 'connection',
+          generatedAt: '2026-03-01T09:00:00.000Z'
+        },
+        { id: 'msg_2', body: '' }
+      ]
+    };
+
+    render(<IndexSidePanel />);
+    fireEvent.mouseDown(await screen.findByRole('tab', { name: /Settings/ }));
+    const file = new File([JSON.stringify(backup)], 'colder-backup.json', { type: 'application/json' });
+    file.text = async () => JSON.stringify(backup); // jsdom's File has no text()
+    fireEvent.change(await screen.findByLabelText('Import backup file'), { target: { files: [file] } });
+
+    expect(await screen.findByText('Contains 1 message, 0 contacts')).toBeTruthy();
+    expect(screen.getByText('messages[1]: Missing body')).toBeTruthy();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Merge' }));
+
+    expect(await screen.findByText('Imported 1 message, 1 new contact')).toBeTruthy();
+    expect((await storage.getMessages()).map(message => message.body)).toEqual(['Hi Ada, restored']);
+  });
+
+  it('takes settings changed elsewhere without losing unsaved edits', async () => {
+    render(<IndexSidePanel />);
+    fireEvent.mouseDown(await screen.findByRole('tab', { name: /Profile/ }));
+    const name = (await screen.findByLabelText('Your Name')) as HTMLInputElement;
+    await waitFor(() => expect(name.value).toBe('Charles'));
+    fireEvent.change(name, { target: { value: 'Charles Babbage' } });
+
+    // As if synced from another device
+    await fake.storage.local.set({ colder_settings: { userName: 'Chuck', userRole: 'Inventor', aiProvider: 'mock' } });
+
+    await waitFor(() => expect((screen.getByLabelText('Your Role') as HTMLInputElement).value).toBe('Inventor'));
+    expect(name.value).toBe('Charles Babbage');
+  });
+});
@@ -0,0 +1,29 @@
+/**
+ * Global test setup
+ */
+
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { afterEach, beforeEach } from 'vitest';
+import { cleanup } from '@testing-library/react';
+import { installFakeChrome } from './helpers/fake-chrome';
+import { messageStore } from '~/services/message-store';
+
+// Radix UI measures elements with ResizeObserver, which jsdom lacks
+class ResizeObserverStub {
+  observe() {}
+  unobserve() {}
+  disconnect() {}
+}
+(globalThis as any).ResizeObserver ??= ResizeObserverStub;
+
+beforeEach(() => {
+  installFakeChrome();
+  // A fresh, empty database for every test
+  globalThis.indexedDB = new IDBFactory();
+});
+
+afterEach(async () => {
+  cleanup();
+  await messageStore.close();
+});
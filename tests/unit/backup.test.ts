@@ -0,0 +1,186 @@
+import { describe, expect, it } from 'vitest';
+import { storage, type StoredMessage } from '~/services/storage';
+import { messageStore } from '~/services/message-store';
+import {
+  contactsToCsv,
+  messagesToCsv,
+  parseBackupCsv,
+  parseBackupJson
+} from '~/services/backup';
+import { ValidationError } from '~/utils/error-handlers';
+
+const ADA = 'https://www.linkedin.com/in/ada-lovelace';
+const CHARLES = 'https://www.linkedin.com/in/charles-babbage';
+
+const message = (id: string, day: number, fields: Partial<StoredMessage> = {}): StoredMessage => ({
+  id,
+  body: `Message ${id}`,
+  wordCount: 2,
+  targetProfileUrl: ADA,
+  targetProfileName: 'Ada Lovelace',
+  tone: 'professional',
+  length: 'short',
+  purpose: 'connection',
+  generatedAt: new Date(Date.UTC(2026, 2, day, 9)).toISOString(),
+  ...fields
+});
+
+describe('parseBackupJson', () => {
+  it('round-trips an export', async () => {
+    await storage.saveSettings({ userName: 'Grace', customEndpoint: { baseUrl: 'http://localhost', model: 'm', apiKey: 'secret' } });
+    await storage.saveMessage(message('', 1));
+    await storage.addDoNotContactEntries([{ kind: 'company_domain', domainPattern: 'acme.com' }]);
+
+    const exported = JSON.stringify(await storage.exportData());
+    const preview = parseBackupJson(exported);
+
+    expect(exported).not.toContain('secret');
+    expect(preview.rejected).toEqual([]);
+    expect(preview.messages).toHaveLength(1);
+    expect(preview.contacts).toHaveLength(1);
+    expect(preview.doNotContact).toHaveLength(1);
+    expect(preview.settings?.userName).toBe('Grace');
+  });
+
+  it('reports invalid records without dropping the rest', () => {
+    const preview = parseBackupJson(
+      JSON.stringify({
+        format: 'colder-backup',
+        schemaVersion: 1,
+        messages: [message('msg_1', 1), { ...message('msg_2', 2), body: '' }, 'nonsense'],
+        contacts: [{ profileUrl: ADA, snapshot: { name: 'Ada' }, stage: 'ghosted' }]
+      })
+    );
+
+    expect(preview.messages.map(m => m.id)).toEqual(['msg_1']);
+    expect(preview.rejected.every(error => error instanceof ValidationError)).toBe(true);
+    expect(preview.rejected.map(error => error.message)).toEqual([
+      'messages[1]: Missing body',
+      'messages[2]: Not a message record',
+      'contacts[0]: Unknown stage "ghosted"'
+    ]);
+    expect(preview.rejected[0].value.id).toBe('msg_2');
+  });
+
+  it('keeps only well-formed settings', () => {
+    const preview = parseBackupJson(
+      JSON.stringify({
+        format: 'colder-backup',
+        schemaVersion: 1,
+        messages: [],
+        settings: {
+          userName: 'Ada',
+          sequenceTemplate: { name: 'No steps' },
+          generationDefaults: 'casual',
+          linkedinAccountType: 'premium',
+          favouriteColour: 'green'
+        }
+      })
+    );
+
+    expect(preview.settings).toEqual({ userName: 'Ada', linkedinAccountType: 'premium' });
+    expect(preview.rejected.map(error => error.field)).toEqual(['settings.sequenceTemplate', 'settings.generationDefaults']);
+  });
+
+  it('refuses files that are not backups or are from a newer schema', () => {
+    expect(() => parseBackupJson('not json')).toThrow(ValidationError);
+    expect(() => parseBackupJson('{"format":"other","messages":[]}')).toThrow('not a Colder backup');
+    expect(() => parseBackupJson('{"schemaVersion":99,"messages":[]}')).toThrow('newer version');
+  });
+});
+
+describe('parseBackupCsv', () => {
+  it('reads the messages and contacts exports back', async () => {
+    await storage.saveMessage(message('', 1, { body: 'Hi Ada, "quick" one,\nthanks' }), { location: 'London' });
+    const contacts = await storage.getContacts();
+    await storage.updateContact(contacts[0].id, { tags: ['math', 'vip'], stage: 'sent' });
+
+    const messages = parseBackupCsv(messagesToCsv(await storage.getMessages()));
+    const parsed = parseBackupCsv(contactsToCsv(await storage.getContacts()));
+
+    expect(messages.source).toBe('messages_csv');
+    expect(messages.messages[0].body).toBe('Hi Ada, "quick" one,\nthanks');
+    expect(parsed.source).toBe('contacts_csv');
+    expect(parsed.contacts[0]).toMatchObject({
+      profileUrl: ADA,
+      stage: 'sent',
+      tags: ['math', 'vip'],
+      snapshot: { name: 'Ada Lovelace', location: 'London' }
+    });
+  });
+
+  it('keeps spreadsheets from running exported text as formulas', async () => {
+    const body = '=HYPERLINK("http://evil.example","Click")';
+    await storage.saveMessage(message('', 1, { body, targetCompany: '@Engines' }));
+
+    const csv = messagesToCsv(await storage.getMessages());
+    const [parsed] = parseBackupCsv(csv).messages;
+
+    expect(csv).toContain(`"'=HYPERLINK(""http://evil.example"",""Click"")"`);
+    expect(csv).toContain("'@Engines");
+    expect(parsed).toMatchObject({ body, targetCompany: '@Engines', wordCount: 2 });
+  });
+
+  it('numbers rejected rows as a spreadsheet does', () => {
+    const preview = parseBackupCsv(
+      'id,generated_at,target_profile_url,body\nmsg_1,2026-03-01T09:00:00Z,' + ADA + ',Hi\nmsg_2,yesterday,' + ADA + ',Hi\n'
+    );
+
+    expect(preview.messages).toHaveLength(1);
+    expect(preview.rejected[0].field).toBe('Row 3');
+  });
+
+  it('refuses unrecognised columns', () => {
+    expect(() => parseBackupCsv('name,email\nAda,ada@example.com\n')).toThrow(ValidationError);
+  });
+});
+
+describe('storage.importData', () => {
+  it('merges without duplicating messages and keeps stored contact details', async () => {
+    const saved = await storage.saveMessage(message('', 1));
+    const [contact] = await storage.getContacts();
+    await storage.updateContact(contact.id, { stage: 'replied', notes: 'Keen', tags: ['math'] });
+
+    const result = await storage.importData(
+      {
+        source: 'json',
+        messages: [
+          { ...saved, id: 'msg_copy' }, // Same message under another id
+          message('msg_new', 2),
+          message('msg_charles', 3, { targetProfileUrl: CHARLES, targetProfileName: 'Charles Babbage' })
+        ],
+        contacts: [{ ...contact, id: 'contact_other', stage: 'closed', notes: 'Old', tags: ['Math', 'engines'], messageIds: ['msg_copy'] }],
+        rejected: []
+      },
+      'merge'
+    );
+
+    expect(result).toEqual({ messagesAdded: 2, messagesSkipped: 1, contactsAdded: 1, contactsUpdated: 1 });
+    const ada = await storage.getContactByProfileUrl(ADA);
+    expect(ada).toMatchObject({ id: contact.id, stage: 'replied', notes: 'Keen', tags: ['math', 'engines'] });
+    expect(ada?.messageIds).toEqual([saved.id, 'msg_new']);
+    expect((await messageStore.getMessage('msg_charles'))?.contactId).toBe(
+      (await storage.getContactByProfileUrl(CHARLES))?.id
+    );
+  });
+
+  it('replaces history and settings but keeps the saved API key', async () => {
+    await storage.saveSettings({ userName: 'Grace', customEndpoint: { baseUrl: 'http://localhost', model: 'm', apiKey: 'secret' } });
+    await storage.saveMessage(message('', 1));
+
+    await storage.importData(
+      {
+        source: 'json',
+        settings: { userName: 'Ada', customEndpoint: { baseUrl: 'http://localhost', model: 'm' } },
+        messages: [message('msg_charles', 3, { targetProfileUrl: CHARLES, targetProfileName: 'Charles Babbage' })],
+        contacts: [],
+        rejected: []
+      },
+      'replace'
+    );
+
+    expect((await storage.getMessages()).map(m => m.id)).toEqual(['msg_charles']);
+    expect((await storage.getContacts()).map(c => c.profileUrl)).toEqual([CHARLES]);
+    expect(await storage.getSettings()).toMatchObject({ userName: 'Ada', customEndpoint: { apiKey: 'secret' } });
+  });
+});
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { getChannelLimit, truncateToLimit } from '~/services/channels';
+
+describe('getChannelLimit', () => {
+  it('gives free accounts shorter connection notes', () => {
+    expect(getChannelLimit('connection_note', 'free')).toBe(200);
+    expect(getChannelLimit('connection_note', 'premium')).toBe(300);
+  });
+
+  it('uses the same limit for every account elsewhere', () => {
+    expect(getChannelLimit('inmail', 'free')).toBe(getChannelLimit('inmail', 'premium'));
+  });
+});
+
+describe('truncateToLimit', () => {
+  it('leaves short text alone', () => {
+    expect(truncateToLimit('Hi Ada.', 50)).toBe('Hi Ada.');
+  });
+
+  it('keeps whole sentences when that keeps most of the message', () => {
+    const text = 'Hi Ada, loved your notes on the engine. Would you be open to connecting? Thanks!';
+    expect(truncateToLimit(text, 76)).toBe('Hi Ada, loved your notes on the engine. Would you be open to connecting?');
+  });
+
+  it('cuts at a word and marks the cut otherwise', () => {
+    const result = truncateToLimit('Hi Ada, your work on the analytical engine is remarkable', 30);
+
+    expect(result).toBe('Hi Ada, your work on the…');
+    expect(result.length).toBeLessThanOrEqual(30);
+  });
+});
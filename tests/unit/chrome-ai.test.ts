@@ -0,0 +1,436 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { chromeAI } from '~/services/chrome-ai';
+import { MockProvider, createMockLanguageModel, type MockScript } from '~/services/providers';
+import { draftJson, targetProfile, userProfile } from '../fixtures/profiles';
+
+const options = { tone: 'professional', length: 'short', purpose: 'General Connection' } as const;
+
+async function useMock(script: MockScript) {
+  const languageModel = createMockLanguageModel(script);
+  await chromeAI.setProvider(new MockProvider(languageModel));
+  return languageModel;
+}
+
+describe('ChromeAIService', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  describe('checkAvailability', () => {
+    it('reports a ready model', async () => {
+      await useMock({ availability: 'available' });
+      await expect(chromeAI.checkAvailability()).resolves.toMatchObject({ available: true, status: 'readily' });
+    });
+
+    it('reports a model that still needs downloading', async () => {
+      await useMock({ availability: 'downloadable' });
+      await expect(chromeAI.checkAvailability()).resolves.toMatchObject({ available: true, status: 'after-download' });
+    });
+
+    it('reports a download already in progress', async () => {
+      await useMock({ availability: 'downloading' });
+      await expect(chromeAI.checkAvailability()).resolves.toMatchObject({ available: true, status: 'downloading' });
+    });
+
+    it('reports an unsupported device', async () => {
+      await useMock({ availability: 'no' });
+      await expect(chromeAI.checkAvailability()).resolves.toMatchObject({ available: false, status: 'no' });
+    });
+  });
+
+  describe('downloadModel', () => {
+    it('reports download progress until the model is ready', async () => {
+      await useMock({ availability: 'downloadable', downloadProgress: [0.25, 0.5, 1] });
+      const states: string[] = [];
+      const unsubscribe = chromeAI.onDownloadStateChange(state => {
+        states.push(`${state.status}:${state.progress}`);
+      });
+
+      await chromeAI.downloadModel();
+      unsubscribe();
+
+      expect(states).toEqual(['downloading:0', 'downloading:0.25', 'downloading:0.5', 'downloading:1', 'complete:1']);
+      await expect(chromeAI.checkAvailability()).resolves.toMatchObject({ status: 'readily' });
+    });
+
+    it('reports the model ready when a session already exists', async () => {
+      await useMock({ responses: [draftJson('Hi Ada')] });
+      await chromeAI.generateMessage(targetProfile, userProfile, options);
+
+      await chromeAI.downloadModel();
+
+      expect(chromeAI.getDownloadState()).toMatchObject({ status: 'complete', progress: 1 });
+    });
+
+    it('records a failed download', async () => {
+      await useMock({ availability: 'downloadable', createError: new Error('Not enough disk space') });
+
+      await expect(chromeAI.downloadModel()).rejects.toThrow('Failed to create AI session');
+      expect(chromeAI.getDownloadState()).toMatchObject({ status: 'error', error: 'Not enough disk space' });
+    });
+  });
+
+  describe('generateMessage', () => {
+    it('returns a validated draft', async () => {
+      const languageModel = await useMock({ responses: [draftJson('Hi Ada, loved your notes on the engine.')] });
+
+      const draft = await chromeAI.generateMessage(targetProfile, userProfile, options);
+
+      expect(draft.body).toBe('Hi Ada, loved your notes on the engine.');
+      expect(draft.wordCount).toBe(8);
+      expect(draft.tone).toBe('professional');
+      expect(languageModel.prompts[0]).toContain('Ada Lovelace');
+    });
+
+    it('passes the JSON schema as a response constraint', async () => {
+      const languageModel = await useMock({ responses: [draftJson('Hello')] });
+
+      await chromeAI.generateMessage(targetProfile, userProfile, options);
+
+      expect(languageModel.promptOptions[0]?.responseConstraint).toMatchObject({ required: ['body', 'wordCount'] });
+    });
+
+    it('falls back to unconstrained prompts when constraints are unsupported', async () => {
+      const languageModel = await useMock({
+        responses: [{ error: new DOMException('responseConstraint', 'NotSupportedError') }, draftJson('Hello')]
+      });
+
+      const draft = await chromeAI.generateMessage(targetProfile, userProfile, options);
+
+      expect(draft.body).toBe('Hello');
+      expect(languageModel.promptOptions[1]?.responseConstraint).toBeUndefined();
+    });
+
+    it('does not mistake other type errors for unsupported constraints', async () => {
+      const languageModel = await useMock({
+        responses: [{ error: new TypeError("Cannot read properties of undefined (reading 'length')") }, draftJson('Hello')]
+      });
+
+      await expect(chromeAI.generateMessage(targetProfile, userProfile, options)).rejects.toThrow('Cannot read properties');
+      expect(languageModel.prompts).toHaveLength(1);
+    });
+
+    it('extracts JSON wrapped in markdown fences and prose', async () => {
+      await useMock({ responses: ['Sure! Here it is:\n```json\n{"body":"Hi Ada",}\n```\nGood luck!'] });
+
+      const draft = await chromeAI.generateMessage(targetProfile, userProfile, options);
+
+      expect(draft.body).toBe('Hi Ada');
+      expect(draft.wordCount).toBe(2);
+    });
+
+    it('re-prompts for a repair when the response does not match the schema', async () => {
+      const languageModel = await useMock({ responses: ['{"message": "Hi Ada"}', draftJson('Hi Ada')] });
+
+      const draft = await chromeAI.generateMessage(targetProfile, userProfile, options);
+
+      expect(draft.body).toBe('Hi Ada');
+      expect(languageModel.prompts).toHaveLength(2);
+      expect(languageModel.prompts[1]).toContain('response.body is missing');
+    });
+
+    it('gives up after one failed repair', async () => {
+      await useMock({ responses: ['not json at all', 'still not json'] });
+
+      await expect(chromeAI.generateMessage(targetProfile, userProfile, options))
+        .rejects.toThrow('Failed to parse AI response');
+    });
+
+    it('surfaces model errors', async () => {
+      await useMock({ responses: [{ error: new Error('Model crashed') }] });
+
+      await expect(chromeAI.generateMessage(targetProfile, userProfile, options)).rejects.toThrow('Model crashed');
+    });
+
+    it('drops low-priority profile sections that would overflow the context window', async () => {
+      const languageModel = await useMock({ responses: [draftJson('Hi Ada')], inputQuota: 1600 });
+      const longProfile = {
+        ...targetProfile,
+        schools: [{ name: 'Mathematics tutoring. '.repeat(100) }]
+      };
+
+      const draft = await chromeAI.generateMessage(longProfile, userProfile, options);
+
+      expect(draft.droppedSections).toEqual(['Education']);
+      expect(languageModel.prompts[0]).not.toContain('Mathematics tutoring');
+      expect(languageModel.prompts[0]).toContain('I write programs');
+    });
+
+    it('counts what the session already holds against the context window', async () => {
+      const languageModel = await useMock({ responses: [draftJson('Hi Ada')], inputUsage: 6144 - 1600 });
+      const longProfile = {
+        ...targetProfile,
+        schools: [{ name: 'Mathematics tutoring. '.repeat(100) }]
+      };
+
+      const draft = await chromeAI.generateMessage(longProfile, userProfile, options);
+
+      expect(draft.droppedSections).toEqual(['Education']);
+      expect(languageModel.prompts[0]).not.toContain('Mathematics tutoring');
+    });
+
+    it('streams partial bodies before resolving with the full draft', async () => {
+      await useMock({ responses: [{ chunks: ['{"body":"Hi', ' Ada,\\n', 'nice work"', ',"wordCount":4}'] }] });
+      const partials: string[] = [];
+
+      const draft = await chromeAI.generateMessage(targetProfile, userProfile, options, {
+        onPartial: partial => partials.push(partial)
+      });
+
+      expect(partials).toEqual(['Hi', 'Hi Ada,\n', 'Hi Ada,\nnice work', 'Hi Ada,\nnice work']);
+      expect(draft.body).toBe('Hi Ada,\nnice work');
+    });
+
+    it('rejects with an AbortError when cancelled', async () => {
+      await useMock({ responses: [draftJson('Too slow')], chunkDelayMs: 50 });
+      const controller = new AbortController();
+
+      const pending = chromeAI.generateMessage(targetProfile, userProfile, options, { signal: controller.signal });
+      setTimeout(() => controller.abort(), 10);
+
+      await expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+    });
+  });
+
+  describe('channels', () => {
+    const noteOptions = { ...options, channel: 'connection_note' as const, accountType: 'free' as const };
+
+    it('tells the model about the hard character limit', async () => {
+      const languageModel = await useMock({ responses: [draftJson('Hi Ada, would love to connect.')] });
+
+      const draft = await chromeAI.generateMessage(targetProfile, userProfile, noteOptions);
+
+      expect(languageModel.prompts[0]).toContain('at most 200 characters including spaces');
+      expect(draft).toMatchObject({ channel: 'connection_note', truncated: false });
+    });
+
+    it('asks for a shorter message when the model overshoots', async () => {
+      const languageModel = await useMock({ responses: [draftJson('Hi Ada! '.repeat(40)), draftJson('Hi Ada, let us connect.')] });
+
+      const draft = await chromeAI.generateMessage(targetProfile, userProfile, noteOptions);
+
+      expect(draft.body).toBe('Hi Ada, let us connect.');
+      expect(draft.wordCount).toBe(5);
+      expect(languageModel.prompts[1]).toContain('the limit is 200');
+    });
+
+    it('returns subject line options for InMail', async () => {
+      const languageModel = await useMock({
+        responses: [draftJson('Hi Ada', { subjects: ['Your engine notes', 'A question about Analytical Engines', 'x'.repeat(250)] })]
+      });
+
+      const draft = await chromeAI.generateMessage(targetProfile, userProfile, { ...options, channel: 'inmail' });
+
+      expect(languageModel.prompts[0]).toContain('"subjects"');
+      expect(languageModel.promptOptions[0]?.responseConstraint).toMatchObject({ required: ['subjects', 'body', 'wordCount'] });
+      expect(draft.subjects).toHaveLength(3);
+      expect(draft.subjects![2].length).toBeLessThanOrEqual(200);
+      expect(draft.subject).toBe('Your engine notes');
+    });
+
+    it('leaves subjects out for channels without one', async () => {
+      const languageModel = await useMock({ responses: [draftJson('Hi Ada')] });
+
+      const draft = await chromeAI.generateMessage(targetProfile, userProfile, { ...options, channel: 'direct_message' });
+
+      expect(languageModel.prompts[0]).not.toContain('subject lines');
+      expect(draft.subjects).toBeUndefined();
+    });
+
+    it('cuts the message down when the model keeps overshooting', async () => {
+      const tooLong = draftJson('Hi Ada, '.repeat(40));
+      await useMock({ responses: [tooLong, tooLong, tooLong] });
+
+      const draft = await chromeAI.generateMessage(targetProfile, userProfile, noteOptions);
+
+      expect(draft.truncated).toBe(true);
+      expect(draft.body.length).toBeLessThanOrEqual(200);
+    });
+  });
+
+  describe('generateVariants', () => {
+    it('produces one draft per angle in separate sessions', async () => {
+      const languageModel = await useMock({ responses: [draftJson('One'), draftJson('Two'), draftJson('Three')] });
+      const onVariant = vi.fn();
+
+      const drafts = await chromeAI.generateVariants(targetProfile, userProfile, options, 3, { onVariant });
+
+      expect(drafts.map(draft => draft.body)).toEqual(['One', 'Two', 'Three']);
+      expect(new Set(drafts.map(draft => draft.angle)).size).toBe(3);
+      expect(onVariant).toHaveBeenCalledTimes(3);
+      expect(languageModel.prompts.every(prompt => prompt.includes('Angle:'))).toBe(true);
+      // The base session plus one destroyed clone per variant
+      expect(languageModel.sessions.slice(1).every(session => session.destroyed)).toBe(true);
+    });
+  });
+
+  describe('analyzeProfile', () => {
+    const insightJson = JSON.stringify({
+      careerArc: 'Translator turned engineering lead',
+      currentFocus: 'Leading engineering at Analytical Engines',
+      recentPosts: [],
+      talkingPoints: ['Programs for machines that do not exist yet', 'Move from translation to engineering', 'Six years at Analytical Engines']
+    });
+
+    it('summarises the profile in a throwaway session', async () => {
+      const languageModel = await useMock({ responses: [insightJson] });
+
+      const insight = await chromeAI.analyzeProfile(targetProfile);
+
+      expect(insight).toMatchObject({ profileUrl: targetProfile.linkedinUrl, careerArc: 'Translator turned engineering lead' });
+      expect(insight.talkingPoints).toHaveLength(3);
+      expect(languageModel.prompts[0]).toContain('Translator at Scientific Memoirs');
+      expect(languageModel.sessions.slice(1).every(session => session.destroyed)).toBe(true);
+    });
+
+    it('rejects an analysis with too few talking points', async () => {
+      const tooFew = JSON.stringify({ ...JSON.parse(insightJson), talkingPoints: ['Only one'] });
+      await useMock({ responses: [tooFew, tooFew] });
+
+      await expect(chromeAI.analyzeProfile(targetProfile)).rejects.toThrow('Failed to parse AI response');
+    });
+
+    it('passes the selected talking points to the generator', async () => {
+      const languageModel = await useMock({ responses: [draftJson('Hi Ada')] });
+
+      await chromeAI.generateMessage(targetProfile, userProfile, { ...options, talkingPoints: ['Six years at Analytical Engines'] });
+
+      expect(languageModel.prompts[0]).toContain('Talking points');
+      expect(languageModel.prompts[0]).toContain('- Six years at Analytical Engines');
+    });
+    it('lists common ground in the generator prompt', async () => {
+      const languageModel = await useMock({ responses: [draftJson('Hi Ada')] });
+      const commonGround = [{ kind: 'school' as const, label: 'UCL', detail: 'Both studied at UCL', score: 60 }];
+
+      await chromeAI.generateMessage(targetProfile, userProfile, { ...options, commonGround });
+
+      expect(languageModel.prompts[0]).toContain('## Common Ground');
+      expect(languageModel.prompts[0]).toContain('- Both studied at UCL');
+    });
+  });
+
+  describe('generateFollowUp', () => {
+    const firstMessage = {
+      id: 'msg_1',
+      body: 'Hi Ada, your notes on the analytical engine changed how I think about programming. Would you be open to a quick chat?',
+      wordCount: 20,
+      targetProfileUrl: targetProfile.linkedinUrl,
+      targetProfileName: 'Ada Lovelace',
+      tone: 'professional',
+      length: 'short',
+      purpose: 'connection',
+      generatedAt: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000).toISOString()
+    };
+    const followUpOptions = { tone: 'professional', length: 'short', stepKind: 'follow_up' } as const;
+
+    it('writes the next touch from the earlier messages', async () => {
+      const languageModel = await useMock({ responses: [draftJson('Hi Ada, one more thought on engines.')] });
+
+      const draft = await chromeAI.generateFollowUp(targetProfile, userProfile, [firstMessage], followUpOptions);
+
+      expect(draft.body).toBe('Hi Ada, one more thought on engines.');
+      expect(languageModel.prompts[0]).toContain('Message 1 (sent 5 days ago)');
+      expect(languageModel.prompts[0]).toContain(firstMessage.body);
+      expect(languageModel.sessions.slice(1).every(session => session.destroyed)).toBe(true);
+    });
+
+    it('asks for a rewrite when the follow-up recycles earlier wording', async () => {
+      const recycled = draftJson('Just checking in: would you be open to a quick chat?');
+      const languageModel = await useMock({ responses: [recycled, draftJson('Any chance of 15 minutes next week?')] });
+
+      const draft = await chromeAI.generateFollowUp(targetProfile, userProfile, [firstMessage], followUpOptions);
+
+      expect(draft.body).toBe('Any chance of 15 minutes next week?');
+      expect(languageModel.prompts[1]).toContain('- "would you be open to a quick chat"');
+    });
+
+    it('refuses to follow up on nothing', async () => {
+      await useMock({ responses: [] });
+
+      await expect(chromeAI.generateFollowUp(targetProfile, userProfile, [], followUpOptions)).rejects.toThrow(
+        'There is no earlier message to follow up on.'
+      );
+    });
+  });
+
+  describe('generateReply', () => {
+    const thread = {
+      threadUrl: 'https://www.linkedin.com/messaging/thread/2-abc123',
+      participants: [{ name: 'Ada Lovelace', profileUrl: targetProfile.linkedinUrl }],
+      messages: [
+        { senderName: 'Charles Babbage', isSelf: true, text: 'Hi Ada, loved your notes on the engine.', timestamp: 'Mar 3 · 9:15 AM' },
+        { senderName: 'Ada Lovelace', isSelf: false, text: 'Thanks! What are you working on?', timestamp: 'Today · 10:42 AM' }
+      ],
+      extractedAt: new Date()
+    };
+    const replyOptions = { tone: 'casual', length: 'short', channel: 'direct_message', purpose: 'Coffee Chat Request' } as const;
+
+    it('drafts a reply from the conversation and the original purpose', async () => {
+      const languageModel = await useMock({ responses: [draftJson('A difference engine! Coffee on Tuesday?')] });
+
+      const draft = await chromeAI.generateReply(thread, userProfile, replyOptions);
+
+      expect(draft.body).toBe('A difference engine! Coffee on Tuesday?');
+      expect(languageModel.prompts[0]).toContain('[Today · 10:42 AM] Ada Lovelace: Thanks! What are you working on?');
+      expect(languageModel.prompts[0]).toContain('## Original Purpose:\nCoffee Chat Request');
+      expect(languageModel.sessions.slice(1).every(session => session.destroyed)).toBe(true);
+    });
+
+    it('drops the oldest messages when the thread does not fit', async () => {
+      const longThread = {
+        ...thread,
+        messages: [{ senderName: 'Charles Babbage', isSelf: true, text: 'An old message. '.repeat(400) }, ...thread.messages]
+      };
+      const languageModel = await useMock({ responses: [draftJson('Coffee on Tuesday?')], inputQuota: 1600 });
+
+      await chromeAI.generateReply(longThread, userProfile, replyOptions);
+
+      expect(languageModel.prompts[0]).not.toContain('An old message.');
+      expect(languageModel.prompts[0]).toContain('What are you working on?');
+    });
+
+    it('needs a message from the other side', async () => {
+      await useMock({ responses: [] });
+
+      await expect(
+        chromeAI.generateReply({ ...thread, messages: thread.messages.slice(0, 1) }, userProfile, replyOptions)
+      ).rejects.toThrow('There is no reply to respond to yet.');
+    });
+  });
+
+  describe('polishMessage', () => {
+    it('defaults the change summary when the model omits it', async () => {
+      await useMock({ responses: [draftJson('Shorter now')] });
+
+      const polished = await chromeAI.polishMessage('A long message', 'Make it shorter', options);
+
+      expect(polished).toEqual({
+        body: 'Shorter now',
+        wordCount: 2,
+        changes: 'Message refined based on your feedback'
+      });
+    });
+  });
+
+  describe('demo provider', () => {
+    beforeEach(async () => {
+      await chromeAI.setProvider(new MockProvider());
+    });
+
+    it('writes subject lines when the channel needs them', async () => {
+      const draft = await chromeAI.generateMessage(targetProfile, userProfile, { ...options, channel: 'inmail' });
+
+      expect(draft.body).toContain('Hi Ada');
+      expect(draft.subjects!.length).toBeGreaterThanOrEqual(2);
+    });
+
+    it('answers a profile analysis with an insight', async () => {
+      const insight = await chromeAI.analyzeProfile(targetProfile);
+
+      expect(insight.careerArc).toContain('Ada');
+      expect(insight.talkingPoints).toHaveLength(3);
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { findCommonGround, formatHistoryLine, overlapYears, parseHistoryLine, type SenderProfile } from '~/services/common-ground';
+import { targetProfile } from '../fixtures/profiles';
+
+const sender: SenderProfile = {
+  location: 'London Area, United Kingdom',
+  employers: [
+    { name: 'Analytical Engines Ltd', startYear: 2022 },
+    { name: 'Scientific Memoirs', startYear: 2010, endYear: 2012 }
+  ],
+  schools: [{ name: 'University of London', startYear: 2012, endYear: 2016 }],
+  skills: ['mathematics', 'Knitting'],
+  industries: ['Engineering', 'Agriculture']
+};
+
+const target = {
+  ...targetProfile,
+  schools: [{ name: 'University of London', startYear: 2014, endYear: 2018 }],
+  skills: ['Mathematics', 'Programming']
+};
+
+describe('findCommonGround', () => {
+  it('ranks overlapping tenure above shared places and interests', () => {
+    const matches = findCommonGround(sender, target, 2026);
+
+    expect(matches.map(match => `${match.kind}:${match.label}`)).toEqual([
+      'employer:Analytical Engines',
+      'school:University of London',
+      'employer:Scientific Memoirs',
+      'location:London Area, United Kingdom',
+      'industry:Engineering',
+      'skill:mathematics'
+    ]);
+    expect(matches[0]).toMatchObject({ overlapYears: [2022, 2026], detail: 'Both worked at Analytical Engines at the same time (2022-2026)' });
+    expect(matches[1].overlapYears).toEqual([2014, 2016]);
+    expect(matches[2].overlapYears).toBeUndefined();
+  });
+
+  it('finds nothing without a sender profile', () => {
+    expect(findCommonGround(undefined, target)).toEqual([]);
+  });
+
+  it('does not match short names by substring', () => {
+    const matches = findCommonGround({ ...sender, employers: [{ name: 'IBM' }], schools: [], location: undefined }, {
+      ...target,
+      positions: [{ title: 'Engineer', company: 'IBMX Labs', isCurrent: true }]
+    });
+
+    expect(matches.filter(match => match.kind === 'employer')).toEqual([]);
+  });
+});
+
+describe('overlapYears', () => {
+  it('treats a missing end year as ongoing', () => {
+    expect(overlapYears({ startYear: 2020 }, { startYear: 2018, endYear: 2021 }, 2026)).toEqual([2020, 2021]);
+  });
+
+  it('returns nothing for disjoint tenures', () => {
+    expect(overlapYears({ startYear: 2010, endYear: 2012 }, { startYear: 2015, endYear: 2019 })).toBeUndefined();
+  });
+});
+
+describe('history lines', () => {
+  it('round-trips entries', () => {
+    for (const line of ['Acme Corp, 2018 - 2021', 'Acme Corp, 2022 - Present', 'University of California, Berkeley']) {
+      expect(formatHistoryLine(parseHistoryLine(line)!)).toBe(line);
+    }
+  });
+
+  it('reads years in parentheses', () => {
+    expect(parseHistoryLine('Acme (2018 - 2021)')).toEqual({ name: 'Acme', startYear: 2018, endYear: 2021 });
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, expect, it, vi } from 'vitest';
+import { storage } from '~/services/storage';
+import { advanceStage, createContact, parseTags } from '~/services/contacts';
+
+const ada = {
+  wordCount: 4,
+  targetProfileUrl: 'https://www.linkedin.com/in/ada-lovelace',
+  targetProfileName: 'Ada Lovelace',
+  targetJobTitle: 'Head of Engineering',
+  targetCompany: 'Analytical Engines',
+  tone: 'professional',
+  length: 'short',
+  purpose: 'connection'
+};
+
+describe('contacts in storage', () => {
+  it('creates a contact for the first message and links later ones to it', async () => {
+    // Only the clock: IndexedDB relies on real timers
+    vi.useFakeTimers({ now: new Date('2026-03-01T09:00:00Z'), toFake: ['Date'] });
+    const first = await storage.saveMessage({ ...ada, body: 'Hi Ada' }, { location: 'London' });
+    vi.setSystemTime(new Date('2026-03-05T09:00:00Z'));
+    const second = await storage.saveMessage({ ...ada, body: 'Following up' });
+    vi.useRealTimers();
+
+    const contacts = await storage.getContacts();
+    expect(contacts).toHaveLength(1);
+    expect(contacts[0]).toMatchObject({
+      profileUrl: ada.targetProfileUrl,
+      stage: 'drafted',
+      messageIds: [first.id, second.id],
+      snapshot: { name: 'Ada Lovelace', company: 'Analytical Engines', location: 'London' }
+    });
+    expect(second.contactId).toBe(contacts[0].id);
+  });
+
+  it('moves a contact to replied when a reply is drafted', async () => {
+    await storage.saveMessage({ ...ada, body: 'Hi Ada' });
+    await storage.saveMessage({ ...ada, body: 'Tuesday works', replyToThreadUrl: 'https://www.linkedin.com/messaging/thread/2-abc' });
+
+    expect((await storage.getContactByProfileUrl(ada.targetProfileUrl))?.stage).toBe('replied');
+  });
+
+  it('saves a reply without a contact when the thread links no profile', async () => {
+    const threadUrl = 'https://www.linkedin.com/messaging/thread/2-abc';
+
+    const reply = await storage.saveMessage({ ...ada, body: 'Tuesday works', targetProfileUrl: threadUrl, replyToThreadUrl: threadUrl });
+
+    expect(reply.contactId).toBeUndefined();
+    expect(await storage.getContacts()).toEqual([]);
+    expect(await storage.getMessages()).toEqual([reply]);
+  });
+
+  it('updates stage, tags and notes', async () => {
+    const message = await storage.saveMessage({ ...ada, body: 'Hi Ada' });
+
+    const updated = await storage.updateContact(message.contactId!, { stage: 'meeting', tags: ['engines'], notes: 'Met at the Royal Society' });
+
+    expect(updated).toMatchObject({ stage: 'meeting', tags: ['engines'], notes: 'Met at the Royal Society' });
+    expect(await storage.getContactByProfileUrl(ada.targetProfileUrl)).toEqual(updated);
+  });
+
+  it('keeps contacts when history is cleared', async () => {
+    await storage.saveMessage({ ...ada, body: 'Hi Ada' });
+
+    await storage.clearMessages();
+
+    expect(await storage.getContacts()).toEqual([expect.objectContaining({ messageIds: [] })]);
+  });
+});
+
+describe('advanceStage', () => {
+  const contact = createContact('https://www.linkedin.com/in/ada-lovelace', { name: 'Ada', capturedAt: '2026-03-01T09:00:00.000Z' });
+
+  it('moves forward', () => {
+    expect(advanceStage(contact, 'replied').stage).toBe('replied');
+  });
+
+  it('never moves back', () => {
+    const meeting = { ...contact, stage: 'meeting' as const };
+    expect(advanceStage(meeting, 'replied')).toBe(meeting);
+  });
+});
+
+describe('parseTags', () => {
+  it('drops blanks and duplicates', () => {
+    expect(parseTags('engines, , Engines, maths ')).toEqual(['engines', 'maths']);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { storage } from '~/services/storage';
+import {
+  findDoNotContactMatch,
+  parseDoNotContactCsv,
+  type DoNotContactEntry
+} from '~/services/do-not-contact';
+import { targetProfile } from '../fixtures/profiles';
+
+const entry = (fields: Omit<DoNotContactEntry, 'id' | 'addedAt'>): DoNotContactEntry => ({
+  id: 'dnc_1',
+  addedAt: '2026-03-01T09:00:00.000Z',
+  ...fields
+});
+
+describe('findDoNotContactMatch', () => {
+  it('matches a profile URL regardless of scheme, query and trailing slash', () => {
+    const match = findDoNotContactMatch(
+      [entry({ kind: 'profile_url', profileUrl: 'linkedin.com/in/Ada-Lovelace/?trk=search' })],
+      targetProfile
+    );
+    expect(match?.description).toBe('profile URL');
+  });
+
+  it('matches a name only at their current company', () => {
+    const atCurrent = entry({ kind: 'name_company', name: 'ada lovelace', company: 'Analytical Engines Ltd.' });
+    const atFormer = entry({ kind: 'name_company', name: 'Ada Lovelace', company: 'Scientific Memoirs' });
+
+    expect(findDoNotContactMatch([atCurrent], targetProfile)?.description).toBe('name and company');
+    expect(findDoNotContactMatch([atFormer], targetProfile)).toBeNull();
+  });
+
+  it('matches a domain against the current company or domains on the profile', () => {
+    const byCompany = entry({ kind: 'company_domain', domainPattern: '*.analyticalengines.co.uk' });
+    const byText = entry({ kind: 'company_domain', domainPattern: 'engines.io' });
+    const profile = { ...targetProfile, about: 'Find my notes at docs.engines.io.' };
+
+    expect(findDoNotContactMatch([byCompany], targetProfile)?.description).toBe('company *.analyticalengines.co.uk');
+    expect(findDoNotContactMatch([byText], profile)?.description).toBe('domain engines.io');
+    expect(findDoNotContactMatch([byText], targetProfile)).toBeNull();
+  });
+});
+
+describe('parseDoNotContactCsv', () => {
+  it('reads entries and reports rejected rows', () => {
+    const csv = [
+      'Profile_URL,Name,Company,Domain,Reason',
+      'https://www.linkedin.com/in/ada-lovelace,,,,"Asked not to be contacted, 2026"',
+      ',Charles Babbage,Difference Engines,,Customer',
+      ',,,acme.com,',
+      ',,,not a domain,',
+      ',,Orphan Co,,'
+    ].join('\r\n');
+
+    const { entries, rejected } = parseDoNotContactCsv(csv);
+
+    expect(entries).toEqual([
+      { kind: 'profile_url', profileUrl: 'https://www.linkedin.com/in/ada-lovelace', reason: 'Asked not to be contacted, 2026' },
+      { kind: 'name_company', name: 'Charles Babbage', company: 'Difference Engines', reason: 'Customer' },
+      { kind: 'company_domain', domainPattern: 'acme.com', reason: undefined }
+    ]);
+    expect(rejected).toEqual([
+      { row: 4, reason: 'Not a domain or domain pattern' },
+      { row: 5, reason: 'No profile URL, name or domain' }
+    ]);
+  });
+});
+
+describe('do-not-contact list in storage', () => {
+  it('skips entries already on the list', async () => {
+    await storage.addDoNotContactEntries([{ kind: 'company_domain', domainPattern: 'acme.com' }]);
+    const result = await storage.addDoNotContactEntries([
+      { kind: 'company_domain', domainPattern: 'ACME.com' },
+      { kind: 'profile_url', profileUrl: 'https://www.linkedin.com/in/ada-lovelace' }
+    ]);
+
+    expect(result).toEqual({ added: 1, duplicates: 1 });
+    expect(await storage.getDoNotContactList()).toHaveLength(2);
+  });
+});
@@ -0,0 +1,88 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { findOpenComposer, insertDraft } from '~/utils/linkedin-composer';
+
+const TOP_CARD = `
+  <main>
+    <section>
+      <h1>Ada Lovelace</h1>
+      <button aria-label="Message Ada">Message</button>
+      <button aria-label="Invite Ada Lovelace to connect">Connect</button>
+    </section>
+  </main>`;
+
+function onClick(selector: string, html: string) {
+  document.querySelector(selector)!.addEventListener('click', () => {
+    document.body.insertAdjacentHTML('beforeend', html);
+  });
+}
+
+describe('insertDraft', () => {
+  afterEach(() => {
+    document.body.innerHTML = '';
+    vi.useRealTimers();
+  });
+
+  it('fills an open messaging overlay without sending', async () => {
+    document.body.innerHTML = `
+      <form class="msg-form">
+        <div class="msg-form__contenteditable" contenteditable="true"></div>
+        <button type="submit" class="msg-form__send-button">Send</button>
+      </form>`;
+    const send = vi.fn((event: Event) => event.preventDefault());
+    document.querySelector('form')!.addEventListener('submit', send);
+    const input = vi.fn();
+    document.querySelector('.msg-form__contenteditable')!.addEventListener('input', input);
+
+    const result = await insertDraft('Hi Ada,\n\nLoved your notes.');
+
+    expect(result).toEqual({ composer: 'message' });
+    const paragraphs = Array.from(document.querySelectorAll('.msg-form__contenteditable p'));
+    expect(paragraphs.map(p => p.textContent)).toEqual(['Hi Ada,', '', 'Loved your notes.']);
+    expect(input).toHaveBeenCalled();
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it('recognises the InMail composer by its subject line and fills it', async () => {
+    document.body.innerHTML = `
+      <form class="msg-form">
+        <input name="subject" />
+        <div class="msg-form__contenteditable" contenteditable="true"></div>
+      </form>`;
+
+    expect(findOpenComposer()?.kind).toBe('inmail');
+
+    await insertDraft('Hello', 'inmail', 'Your engine notes');
+    expect(document.querySelector<HTMLInputElement>('input[name="subject"]')!.value).toBe('Your engine notes');
+  });
+
+  it('opens the messaging overlay from the profile', async () => {
+    document.body.innerHTML = TOP_CARD;
+    onClick('button[aria-label^="Message"]', '<form class="msg-form"><div class="msg-form__contenteditable" contenteditable="true"></div></form>');
+
+    await expect(insertDraft('Hello')).resolves.toEqual({ composer: 'message' });
+    expect(document.querySelector('.msg-form__contenteditable')!.textContent).toBe('Hello');
+  });
+
+  it('opens "Add a note" on the connection dialog', async () => {
+    document.body.innerHTML = TOP_CARD;
+    onClick('button[aria-label^="Invite"]', '<div role="dialog"><button aria-label="Add a note">Add a note</button></div>');
+    document.body.addEventListener('click', (event) => {
+      if ((event.target as Element).matches('[aria-label="Add a note"]')) {
+        document.querySelector('[role="dialog"]')!.innerHTML = '<textarea name="message"></textarea><button aria-label="Send invitation">Send</button>';
+      }
+    });
+
+    await expect(insertDraft('Hello', 'connection_note')).resolves.toEqual({ composer: 'connection_note' });
+    expect(document.querySelector('textarea')!.value).toBe('Hello');
+  });
+
+  it('reports when no composer can be found', async () => {
+    vi.useFakeTimers();
+    document.body.innerHTML = '<main><section><h1>Ada Lovelace</h1><button aria-label="Message Ada">Message</button></section></main>';
+
+    const pending = insertDraft('Hello', 'message');
+    const assertion = expect(pending).rejects.toThrow('Could not find a message box');
+    await vi.advanceTimersByTimeAsync(5000);
+    await assertion;
+  });
+});
@@ -0,0 +1,100 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { extractProfile, parseDateRange } from '~/utils/linkedin-selectors';
+
+const lines = (...texts: string[]) => texts.map(text => `<span aria-hidden="true">${text}</span>`).join('');
+
+const PROFILE_HTML = `
+  <main>
+    <section>
+      <h1 class="text-heading-xlarge">Ada Lovelace</h1>
+      <div class="text-body-medium break-words">Head of Engineering at Analytical Engines</div>
+      <span class="text-body-small inline t-black--light">London, United Kingdom</span>
+      <ul><li>1,204 followers</li><li>500+ connections</li></ul>
+    </section>
+    <section><div id="about"></div><p>I write programs for machines that do not exist yet.</p></section>
+    <section>
+      <div id="experience"></div>
+      <ul>
+        <li>${lines('Analytical Engines', 'Full-time · 6 yrs')}
+          <ul>
+            <li>${lines('Head of Engineering', 'Jan 2023 - Present · 3 yrs', 'London')}</li>
+            <li>${lines('Engineer', 'Jan 2020 - Dec 2022 · 3 yrs')}</li>
+          </ul>
+        </li>
+        <li>${lines('Translator', 'Scientific Memoirs · Contract', '2015 - 2019 · 4 yrs', 'Translated and annotated a memoir on the Analytical Engine at length.')}</li>
+      </ul>
+    </section>
+    <section>
+      <div id="education"></div>
+      <ul><li>${lines('University of London', 'Mathematics', '2010 - 2014')}</li></ul>
+    </section>
+    <section><div id="skills"></div>${lines('Mathematics', 'Programming')}</section>
+    <section>
+      <div id="activity"></div>
+      <ul><li><span class="update-components-text">Notes on the engine</span> 2w</li></ul>
+    </section>
+  </main>`;
+
+describe('extractProfile', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    document.body.innerHTML = PROFILE_HTML;
+  });
+
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('extracts a structured profile', () => {
+    const profile = extractProfile();
+
+    expect(profile).toMatchObject({
+      name: 'Ada Lovelace',
+      headline: 'Head of Engineering at Analytical Engines',
+      currentJobTitle: 'Head of Engineering',
+      currentCompany: 'Analytical Engines',
+      location: 'London, United Kingdom',
+      about: 'I write programs for machines that do not exist yet.',
+      followerCount: 1204,
+      connectionCount: 500,
+      skills: ['Mathematics', 'Programming'],
+      posts: [{ text: 'Notes on the engine', postedAgo: '2w' }]
+    });
+  });
+
+  it('splits grouped roles and reads positions with dates', () => {
+    const { positions } = extractProfile()!;
+
+    expect(positions).toEqual([
+      expect.objectContaining({ title: 'Head of Engineering', company: 'Analytical Engines', startYear: 2023, isCurrent: true, location: 'London' }),
+      expect.objectContaining({ title: 'Engineer', company: 'Analytical Engines', startYear: 2020, endYear: 2022, isCurrent: false }),
+      expect.objectContaining({
+        title: 'Translator',
+        company: 'Scientific Memoirs',
+        dateRange: '2015 - 2019 · 4 yrs',
+        description: 'Translated and annotated a memoir on the Analytical Engine at length.'
+      })
+    ]);
+  });
+
+  it('reads schools', () => {
+    expect(extractProfile()!.schools).toEqual([
+      { name: 'University of London', degree: 'Mathematics', dateRange: '2010 - 2014', startYear: 2010, endYear: 2014 }
+    ]);
+  });
+
+  it('returns null off a profile page', () => {
+    document.body.innerHTML = '<main><p>Feed</p></main>';
+    expect(extractProfile()).toBeNull();
+  });
+});
+
+describe('parseDateRange', () => {
+  it('treats "Present" as an open-ended range', () => {
+    expect(parseDateRange('Mar 2021 - Present · 5 yrs')).toEqual({ startYear: 2021, endYear: undefined, isCurrent: true });
+  });
+
+  it('uses the start year for single-year entries', () => {
+    expect(parseDateRange('2018')).toEqual({ startYear: 2018, endYear: 2018, isCurrent: false });
+  });
+});
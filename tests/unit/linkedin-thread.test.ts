@@ -0,0 +1,62 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { extractThread, isMessagingThreadUrl } from '~/utils/linkedin-thread';
+
+const THREAD_HTML = `
+  <div class="msg-title-bar">
+    <a href="https://www.linkedin.com/in/ada-lovelace/?miniProfileUrn=abc">Ada Lovelace</a>
+  </div>
+  <ul class="msg-s-message-list-content">
+    <li class="msg-s-message-list__event">
+      <time class="msg-s-message-list__time-heading">Mar 3</time>
+      <div class="msg-s-message-group__meta">
+        <span class="msg-s-message-group__name">Charles Babbage</span>
+        <time class="msg-s-message-group__timestamp">9:15 AM</time>
+      </div>
+      <div class="msg-s-event-listitem"><p class="msg-s-event-listitem__body">Hi Ada, loved your notes on the engine.</p></div>
+    </li>
+    <li class="msg-s-message-list__event">
+      <time class="msg-s-message-list__time-heading">Today</time>
+      <div class="msg-s-message-group__meta">
+        <span class="msg-s-message-group__name">Ada Lovelace</span>
+        <time class="msg-s-message-group__timestamp">10:42 AM</time>
+      </div>
+      <div class="msg-s-event-listitem msg-s-event-listitem--other"><p class="msg-s-event-listitem__body">Thanks! What are you working on?</p></div>
+    </li>
+    <li class="msg-s-message-list__event">
+      <div class="msg-s-event-listitem msg-s-event-listitem--other"><p class="msg-s-event-listitem__body">Happy to chat next week.</p></div>
+    </li>
+  </ul>`;
+
+describe('extractThread', () => {
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('reads participants, messages and timestamps', () => {
+    document.body.innerHTML = THREAD_HTML;
+
+    const thread = extractThread();
+
+    expect(thread?.participants).toEqual([{ name: 'Ada Lovelace', profileUrl: 'https://www.linkedin.com/in/ada-lovelace' }]);
+    expect(thread?.messages).toEqual([
+      { senderName: 'Charles Babbage', isSelf: true, text: 'Hi Ada, loved your notes on the engine.', timestamp: 'Mar 3 · 9:15 AM' },
+      { senderName: 'Ada Lovelace', isSelf: false, text: 'Thanks! What are you working on?', timestamp: 'Today · 10:42 AM' },
+      // Grouped messages carry the sender and time over
+      { senderName: 'Ada Lovelace', isSelf: false, text: 'Happy to chat next week.', timestamp: 'Today · 10:42 AM' }
+    ]);
+  });
+
+  it('returns null when there are no messages', () => {
+    document.body.innerHTML = '<main><h1>Messaging</h1></main>';
+
+    expect(extractThread()).toBeNull();
+  });
+});
+
+describe('isMessagingThreadUrl', () => {
+  it('matches conversation URLs only', () => {
+    expect(isMessagingThreadUrl('https://www.linkedin.com/messaging/thread/2-abc123/')).toBe(true);
+    expect(isMessagingThreadUrl('https://www.linkedin.com/messaging/')).toBe(false);
+    expect(isMessagingThreadUrl('https://www.linkedin.com/in/ada-lovelace/')).toBe(false);
+  });
+});
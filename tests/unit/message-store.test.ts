@@ -0,0 +1,123 @@
+import { describe, expect, it, vi } from 'vitest';
+import { messageStore } from '~/services/message-store';
+import { storage, type StoredMessage } from '~/services/storage';
+
+const message = (id: string, day: number, fields: Partial<StoredMessage> = {}): StoredMessage => ({
+  id,
+  body: `Message ${id}`,
+  wordCount: 2,
+  targetProfileUrl: 'https://www.linkedin.com/in/ada-lovelace',
+  targetProfileName: 'Ada Lovelace',
+  tone: 'professional',
+  length: 'short',
+  purpose: 'connection',
+  generatedAt: new Date(Date.UTC(2026, 2, day, 9)).toISOString(),
+  ...fields
+});
+
+describe('message store', () => {
+  it('keeps every message, with no cap', async () => {
+    for (let i = 0; i < 120; i++) {
+      await storage.saveMessage({ ...message('', 1), body: `Hi ${i}` });
+    }
+
+    expect(await messageStore.countMessages()).toBe(120);
+    expect(new Set((await storage.getMessages()).map(m => m.body)).size).toBe(120);
+  });
+
+  it('pages through messages newest first', async () => {
+    await messageStore.replaceMessages([1, 2, 3, 4, 5].map(day => message(`msg_${day}`, day)));
+
+    const first = await messageStore.queryMessages({ limit: 2 });
+    const last = await messageStore.queryMessages({ offset: 4, limit: 2 });
+
+    expect(first).toEqual({ messages: [expect.objectContaining({ id: 'msg_5' }), expect.objectContaining({ id: 'msg_4' })], total: 5, nextOffset: 2 });
+    expect(last).toEqual({ messages: [expect.objectContaining({ id: 'msg_1' })], total: 5, nextOffset: null });
+  });
+
+  it('filters by indexed fields and date range', async () => {
+    await messageStore.replaceMessages([
+      message('msg_1', 1, { purpose: 'job_inquiry' }),
+      message('msg_2', 2, { purpose: 'job_inquiry', tone: 'casual' }),
+      message('msg_3', 3, { purpose: 'job_inquiry', tone: 'casual' }),
+      message('msg_4', 4, { targetProfileUrl: 'https://www.linkedin.com/in/charles-babbage' })
+    ]);
+
+    const byPurpose = await messageStore.queryMessages({ purpose: 'job_inquiry', sort: 'oldest' });
+    const byPurposeAndTone = await messageStore.queryMessages({ purpose: 'job_inquiry', tone: 'casual', offset: 1 });
+    const byDate = await messageStore.queryMessages({
+      profileUrl: 'https://www.linkedin.com/in/ada-lovelace',
+      from: '2026-03-02T00:00:00.000Z',
+      to: '2026-03-04T23:59:59.999Z'
+    });
+
+    expect(byPurpose.messages.map(m => m.id)).toEqual(['msg_1', 'msg_2', 'msg_3']);
+    expect(byPurposeAndTone).toEqual({ messages: [expect.objectContaining({ id: 'msg_2' })], total: 2, nextOffset: null });
+    expect(byDate.messages.map(m => m.id)).toEqual(['msg_3', 'msg_2']);
+  });
+
+  it('searches the body and recipient name, and filters by length and pipeline stage', async () => {
+    vi.useFakeTimers({ now: new Date('2026-03-01T09:00:00Z'), toFake: ['Date'] });
+    const ada = await storage.saveMessage({ ...message('', 1), body: 'Loved your notes on the Engine', length: 'long' });
+    vi.setSystemTime(new Date('2026-03-02T09:00:00Z'));
+    await storage.saveMessage({
+      ...message('', 2),
+      body: 'Quick question about engines',
+      targetProfileUrl: 'https://www.linkedin.com/in/charles-babbage',
+      targetProfileName: 'Charles Babbage'
+    });
+    vi.useRealTimers();
+    await storage.updateContact(ada.contactId!, { stage: 'meeting' });
+
+    const ids = async (query: Parameters<typeof messageStore.queryMessages>[0]) =>
+      (await messageStore.queryMessages(query)).messages.map(m => m.targetProfileName);
+
+    expect(await ids({ search: 'engine' })).toEqual(['Charles Babbage', 'Ada Lovelace']);
+    expect(await ids({ search: 'ENGINE ada' })).toEqual(['Ada Lovelace']);
+    expect(await ids({ search: 'babbage question' })).toEqual(['Charles Babbage']);
+    expect(await ids({ length: 'long' })).toEqual(['Ada Lovelace']);
+    expect(await ids({ stage: 'meeting' })).toEqual(['Ada Lovelace']);
+    expect(await ids({ search: 'engine', sort: 'name', limit: 1 })).toEqual(['Ada Lovelace']);
+  });
+
+  it('groups matches by recipient and pages through the groups', async () => {
+    await messageStore.replaceMessages([
+      message('msg_1', 1),
+      message('msg_2', 2, { targetProfileUrl: 'https://www.linkedin.com/in/charles-babbage', targetProfileName: 'Charles Babbage' }),
+      message('msg_3', 3)
+    ]);
+
+    const newest = await messageStore.queryMessageGroups({ limit: 1 });
+    const byName = await messageStore.queryMessageGroups({ sort: 'name' });
+
+    expect(newest.total).toBe(2);
+    expect(newest.nextOffset).toBe(1);
+    expect(newest.groups).toEqual([
+      expect.objectContaining({ name: 'Ada Lovelace', messages: [expect.objectContaining({ id: 'msg_3' }), expect.objectContaining({ id: 'msg_1' })] })
+    ]);
+    expect(byName.groups.map(group => group.name)).toEqual(['Ada Lovelace', 'Charles Babbage']);
+  });
+
+  it('takes a deleted message off its contact', async () => {
+    const first = await storage.saveMessage(message('', 1));
+    const second = await storage.saveMessage(message('', 2));
+
+    await storage.deleteMessage(first.id);
+
+    const [contact] = await storage.getContacts();
+    expect(contact.messageIds).toEqual([second.id]);
+    expect((await storage.getMessages()).map(m => m.id)).toEqual([second.id]);
+  });
+
+  it('moves messages and contacts out of chrome.storage once', async () => {
+    await chrome.storage.local.set({
+      colder_messages: [message('msg_2', 2), message('msg_1', 1)]
+    });
+
+    const [contact] = await storage.getContacts();
+
+    expect(contact.messageIds).toEqual(['msg_1', 'msg_2']);
+    expect((await storage.getMessages()).map(m => m.contactId)).toEqual([contact.id, contact.id]);
+    expect(await chrome.storage.local.get(['colder_messages', 'colder_contacts'])).toEqual({});
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  CURRENT_SCHEMA_VERSION,
+  SCHEMA_VERSION_KEY,
+  getSchemaVersion,
+  markSchemaCurrent,
+  runMigrations,
+  type StorageMigration
+} from '~/services/migrations';
+import { storage } from '~/services/storage';
+import { createEvent, createStorageArea } from '../helpers/fake-chrome';
+
+const createArea = () => createStorageArea(createEvent(), 'local') as unknown as chrome.storage.StorageArea;
+
+const renameKey = (version: number, from: string, to: string): StorageMigration => ({
+  version,
+  description: `Rename ${from} to ${to}`,
+  migrate: async area => {
+    const result = await area.get(from);
+    if (from in result) {
+      await area.set({ [to]: result[from] });
+      await area.remove(from);
+    }
+  }
+});
+
+describe('runMigrations', () => {
+  it('runs pending migrations in order and records the version after each', async () => {
+    const area = createArea();
+    await area.set({ a: 1 });
+
+    const applied = await runMigrations(area, [renameKey(1, 'a', 'b'), renameKey(2, 'b', 'c')]);
+
+    expect(applied).toEqual([1, 2]);
+    expect(await area.get(null)).toEqual({ c: 1, [SCHEMA_VERSION_KEY]: 2 });
+  });
+
+  it('skips migrations the data has already been through', async () => {
+    const area = createArea();
+    await area.set({ [SCHEMA_VERSION_KEY]: 1, b: 1 });
+    const first = renameKey(1, 'a', 'b');
+    const spy = vi.spyOn(first, 'migrate');
+
+    expect(await runMigrations(area, [first, renameKey(2, 'b', 'c')])).toEqual([2]);
+    expect(spy).not.toHaveBeenCalled();
+  });
+
+  it('stops at a failing migration and keeps the last version that finished', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const area = createArea();
+    const failing: StorageMigration = {
+      version: 2,
+      description: 'Break',
+      migrate: async () => { throw new Error('boom'); }
+    };
+
+    await expect(runMigrations(area, [renameKey(1, 'a', 'b'), failing, renameKey(3, 'b', 'c')]))
+      .rejects.toThrow('Failed to migrate storage to version 2: Break');
+    expect(await getSchemaVersion(area)).toBe(1);
+  });
+
+  it('leaves data from a newer build alone', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const area = createArea();
+    await area.set({ [SCHEMA_VERSION_KEY]: 5, a: 1 });
+
+    expect(await runMigrations(area, [renameKey(1, 'a', 'b')])).toEqual([]);
+    expect(await area.get('a')).toEqual({ a: 1 });
+  });
+
+  it('rejects a registry that is out of order', async () => {
+    await expect(runMigrations(createArea(), [renameKey(2, 'a', 'b'), renameKey(1, 'b', 'c')]))
+      .rejects.toThrow('Migration 1 is out of order');
+  });
+});
+
+describe('registered migrations', () => {
+  it('bring a pre-versioning install up to date', async () => {
+    await chrome.storage.local.set({
+      colder_messages: [{
+        id: 'msg_1',
+        body: 'Hi Ada',
+        wordCount: 2,
+        targetProfileUrl: 'https://www.linkedin.com/in/ada-lovelace',
+        targetProfileName: 'Ada Lovelace',
+        tone: 'professional',
+        length: 'short',
+        purpose: 'connection',
+        generatedAt: '2026-03-01T09:00:00.000Z'
+      }]
+    });
+
+    await runMigrations();
+
+    expect(await getSchemaVersion()).toBe(CURRENT_SCHEMA_VERSION);
+    expect(await chrome.storage.local.get('colder_messages')).toEqual({});
+    expect(await storage.getMessages()).toEqual([expect.objectContaining({ id: 'msg_1', body: 'Hi Ada' })]);
+  });
+
+  it('have nothing to do on a fresh install', async () => {
+    await markSchemaCurrent();
+
+    expect(await runMigrations()).toEqual([]);
+  });
+});
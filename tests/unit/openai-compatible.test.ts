@@ -0,0 +1,209 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { chromeAI } from '~/services/chrome-ai';
+import { OpenAICompatibleProvider } from '~/services/providers';
+import { draftJson, targetProfile, userProfile } from '../fixtures/profiles';
+import { ApiError, NetworkError } from '~/utils/error-handlers';
+
+const config = { baseUrl: 'http://localhost:11434/v1/', model: 'llama3', apiKey: 'secret' };
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+// A streamed reply delivered in exactly these pieces
+const streamResponse = (chunks: string[]) =>
+  new Response(
+    new ReadableStream<Uint8Array>({
+      start(controller) {
+        chunks.forEach(chunk => controller.enqueue(new TextEncoder().encode(chunk)));
+        controller.close();
+      }
+    })
+  );
+
+const delta = (content: string) => `data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\n\n`;
+
+async function readAll(stream: ReadableStream<string>): Promise<string[]> {
+  const parts: string[] = [];
+  const reader = stream.getReader();
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) return parts;
+    parts.push(value);
+  }
+}
+
+async function createSession() {
+  return new OpenAICompatibleProvider(config).createSession();
+}
+
+describe('OpenAICompatibleProvider', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('checkAvailability', () => {
+    it('asks for an endpoint and model before calling anything', async () => {
+      const result = await new OpenAICompatibleProvider({ baseUrl: '', model: '' }).checkAvailability();
+
+      expect(result).toMatchObject({ available: false, status: 'no' });
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it('reports a reachable endpoint serving the model', async () => {
+      fetchMock.mockResolvedValue(jsonResponse({ data: [{ id: 'llama3' }, { id: 'mistral' }] }));
+
+      const result = await new OpenAICompatibleProvider(config).checkAvailability();
+
+      expect(result).toMatchObject({ available: true, status: 'readily' });
+      expect(fetchMock).toHaveBeenCalledWith(
+        'http://localhost:11434/v1/models',
+        expect.objectContaining({ headers: expect.objectContaining({ Authorization: 'Bearer secret' }) })
+      );
+    });
+
+    it('lists the available models when the configured one is missing', async () => {
+      fetchMock.mockResolvedValue(jsonResponse({ data: [{ id: 'mistral' }] }));
+
+      const result = await new OpenAICompatibleProvider(config).checkAvailability();
+
+      expect(result).toMatchObject({ available: false, message: expect.stringContaining('Available: mistral') });
+    });
+
+    it('reports an unreachable endpoint', async () => {
+      fetchMock.mockRejectedValue(new TypeError('Failed to fetch'));
+
+      const result = await new OpenAICompatibleProvider(config).checkAvailability();
+
+      expect(result).toMatchObject({ available: false, message: expect.stringContaining('Cannot connect') });
+    });
+  });
+
+  describe('prompt', () => {
+    it('returns the reply content', async () => {
+      fetchMock.mockResolvedValue(jsonResponse({ choices: [{ message: { content: 'Hi Ada' } }] }));
+      const session = await createSession();
+
+      await expect(session.prompt('Write a note')).resolves.toBe('Hi Ada');
+      const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+      expect(body).toMatchObject({ model: 'llama3', stream: false, messages: [{ role: 'user', content: 'Write a note' }] });
+    });
+
+    it('counts its history as input usage and drops the oldest turns past a quarter of the window', async () => {
+      fetchMock.mockImplementation(async () => jsonResponse({ choices: [{ message: { content: 'x'.repeat(200) } }] }));
+      const session = await new OpenAICompatibleProvider({ ...config, contextWindow: 600 }).createSession();
+
+      await session.prompt('a'.repeat(200));
+      expect(session.inputUsage).toBe(100);
+
+      await session.prompt('b'.repeat(200));
+      await session.prompt('c'.repeat(200));
+
+      const sent = JSON.parse(fetchMock.mock.calls[2][1].body).messages;
+      expect(sent.map((message: { content: string }) => message.content[0])).toEqual(['b', 'x', 'c']);
+      expect(session.inputUsage).toBe(100);
+    });
+
+    it('turns HTTP errors into ApiError with the server message', async () => {
+      fetchMock.mockResolvedValue(jsonResponse({ error: { message: 'Invalid API key' } }, 401));
+      const session = await createSession();
+
+      const error = await session.prompt('Hi').catch(e => e);
+
+      expect(error).toBeInstanceOf(ApiError);
+      expect(error).toMatchObject({ message: 'Invalid API key', statusCode: 401, provider: 'openai-compatible' });
+    });
+
+    it('falls back to the status code when the error body is not JSON', async () => {
+      fetchMock.mockResolvedValue(new Response('Bad gateway', { status: 502 }));
+      const session = await createSession();
+
+      await expect(session.prompt('Hi')).rejects.toThrow('AI endpoint error: 502');
+    });
+
+    it('reports a rejected response_format as an unsupported constraint', async () => {
+      fetchMock.mockResolvedValue(jsonResponse({ error: { message: "Unsupported value: 'response_format.type'" } }, 400));
+      const session = await createSession();
+
+      const error = await session.prompt('Hi', { responseConstraint: { type: 'object' } }).catch(e => e);
+
+      expect(error).toMatchObject({ name: 'NotSupportedError' });
+    });
+
+    it('lets generation fall back to unconstrained prompts on such servers', async () => {
+      fetchMock
+        .mockResolvedValueOnce(jsonResponse({ error: { message: 'response_format json_schema is not supported' } }, 400))
+        .mockResolvedValueOnce(jsonResponse({ choices: [{ message: { content: draftJson('Hi Ada') } }] }));
+      await chromeAI.setProvider(new OpenAICompatibleProvider(config));
+
+      const draft = await chromeAI.generateMessage(targetProfile, userProfile, {
+        tone: 'professional',
+        length: 'short',
+        purpose: 'General Connection'
+      });
+
+      expect(draft.body).toBe('Hi Ada');
+      expect(JSON.parse(fetchMock.mock.calls[1][1].body).response_format).toBeUndefined();
+    });
+
+    it('turns fetch failures into a retryable NetworkError', async () => {
+      fetchMock.mockRejectedValue(new TypeError('Failed to fetch'));
+      const session = await createSession();
+
+      const error = await session.prompt('Hi').catch(e => e);
+
+      expect(error).toBeInstanceOf(NetworkError);
+      expect(error).toMatchObject({ retryable: true, message: expect.stringContaining('http://localhost:11434/v1/') });
+    });
+
+    it('lets cancellations through unchanged', async () => {
+      fetchMock.mockRejectedValue(new DOMException('The operation was aborted', 'AbortError'));
+      const session = await createSession();
+
+      await expect(session.prompt('Hi')).rejects.toMatchObject({ name: 'AbortError' });
+    });
+  });
+
+  describe('promptStreaming', () => {
+    it('joins events split across network chunks', async () => {
+      const first = delta('Hi Ada,');
+      fetchMock.mockResolvedValue(streamResponse([first.slice(0, 20), first.slice(20) + delta(' nice'), delta(' work')]));
+      const session = await createSession();
+
+      const parts = await readAll(session.promptStreaming('Write a note'));
+
+      expect(parts).toEqual(['Hi Ada,', ' nice', ' work']);
+    });
+
+    it('stops at [DONE]', async () => {
+      fetchMock.mockResolvedValue(streamResponse([delta('Hi'), 'data: [DONE]\n\n', delta(' ignored')]));
+      const session = await createSession();
+
+      expect(await readAll(session.promptStreaming('Write a note'))).toEqual(['Hi']);
+    });
+
+    it('skips comments and malformed lines', async () => {
+      fetchMock.mockResolvedValue(
+        streamResponse([': keep-alive\n\n', 'data: {not json\n\n', 'event: ping\n\n', delta('Hi'), 'data: {"choices":[]}\n\n'])
+      );
+      const session = await createSession();
+
+      expect(await readAll(session.promptStreaming('Write a note'))).toEqual(['Hi']);
+    });
+
+    it('errors the stream when the request fails', async () => {
+      fetchMock.mockResolvedValue(jsonResponse({ error: { message: 'Model not loaded' } }, 500));
+      const session = await createSession();
+
+      await expect(readAll(session.promptStreaming('Hi'))).rejects.toThrow('Model not loaded');
+    });
+  });
+});
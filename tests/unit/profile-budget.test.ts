@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { assembleProfileText, buildProfileSections, fitProfileToBudget } from '~/services/profile-budget';
+import { targetProfile } from '../fixtures/profiles';
+
+const profile = {
+  ...targetProfile,
+  schools: [{ name: 'Privately tutored', degree: 'Mathematics', dateRange: '1828 - 1835' }],
+  skills: ['Mathematics', 'Programming'],
+  posts: [{ text: 'Posted notes on the Analytical Engine', postedAgo: '2w' }]
+};
+
+// One token per character keeps the arithmetic easy to follow
+const countChars = async (text: string) => text.length;
+
+describe('buildProfileSections', () => {
+  it('renders each structured field as a section', () => {
+    const sections = buildProfileSections(profile);
+
+    expect(sections.map(section => section.id)).toEqual([
+      'headline', 'about', 'current_role', 'older_experience', 'education', 'skills', 'activity'
+    ]);
+    expect(sections.find(section => section.id === 'current_role')?.text)
+      .toBe('Head of Engineering at Analytical Engines (Jan 2020 - Present · 6 yrs)');
+    expect(sections.find(section => section.id === 'headline')?.text).toContain('Connections: 500+');
+    expect(sections.find(section => section.id === 'activity')?.text).toBe('[2w] Posted notes on the Analytical Engine');
+  });
+
+  it('uses the newest position as the current role when none is marked current', () => {
+    const sections = buildProfileSections({
+      ...profile,
+      positions: profile.positions.map(position => ({ ...position, isCurrent: false }))
+    });
+
+    expect(sections.find(section => section.id === 'current_role')?.text).toContain('Head of Engineering');
+    expect(sections.find(section => section.id === 'older_experience')?.text).toContain('Translator');
+  });
+
+  it('leaves out empty fields', () => {
+    const sections = buildProfileSections({ ...profile, about: undefined, skills: [], posts: [] });
+
+    expect(sections.map(section => section.id)).not.toContain('about');
+    expect(assembleProfileText(sections)).not.toContain('--- SKILLS ---');
+  });
+});
+
+describe('fitProfileToBudget', () => {
+  const sections = buildProfileSections(profile);
+
+  it('keeps everything when the prompt fits', async () => {
+    const result = await fitProfileToBudget(sections, text => text, countChars, 10_000);
+
+    expect(result.droppedSections).toEqual([]);
+    expect(result.prompt).toBe(assembleProfileText(sections));
+  });
+
+  it('drops the lowest priority sections first', async () => {
+    const withoutLowest = sections.filter(section => section.id !== 'skills' && section.id !== 'education');
+    const budget = assembleProfileText(withoutLowest).length;
+    const result = await fitProfileToBudget(sections, text => text, countChars, budget);
+
+    expect(result.droppedSections.map(section => section.id)).toEqual(['skills', 'education']);
+    expect(result.promptTokens).toBeLessThanOrEqual(budget);
+    expect(result.prompt).toContain('RECENT ACTIVITY');
+  });
+
+  it('never drops the headline', async () => {
+    const result = await fitProfileToBudget(sections, text => text, countChars, 1);
+
+    expect(result.droppedSections).toHaveLength(sections.length - 1);
+    expect(result.prompt).toContain('Name: Ada Lovelace');
+  });
+});
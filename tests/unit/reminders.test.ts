@@ -0,0 +1,118 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  handleReminderAlarm,
+  handleReminderButton,
+  handleReminderClicked,
+  scheduleReminders,
+  setupReminders
+} from '~/background/reminders';
+import { storage } from '~/services/storage';
+import { startContactSequence, DEFAULT_SEQUENCE_TEMPLATE } from '~/services/sequences';
+import type { FakeChrome } from '../helpers/fake-chrome';
+
+const profileUrl = 'https://www.linkedin.com/in/ada-lovelace';
+const alarmName = `colder-follow-up:${profileUrl}`;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+async function startSequence(daysAgo: number) {
+  const startedAt = new Date(Date.now() - daysAgo * DAY_MS).toISOString();
+  const progress = startContactSequence(DEFAULT_SEQUENCE_TEMPLATE, { profileUrl, profileName: 'Ada Lovelace' }, 'msg_1', startedAt);
+  await storage.saveContactSequence(progress);
+  return progress;
+}
+
+describe('follow-up reminders', () => {
+  let fakeChrome: FakeChrome;
+
+  beforeEach(() => {
+    fakeChrome = (globalThis as any).chrome;
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('schedules an alarm for when the next step is due', async () => {
+    const progress = await startSequence(1);
+
+    await scheduleReminders();
+
+    const alarm = await chrome.alarms.get(alarmName);
+    expect(alarm?.scheduledTime).toBe(new Date(progress.startedAt).getTime() + 4 * DAY_MS);
+  });
+
+  it('clears the alarm once the sequence is finished', async () => {
+    const progress = await startSequence(1);
+    await scheduleReminders();
+
+    await storage.saveContactSequence({ ...progress, completedStepIds: DEFAULT_SEQUENCE_TEMPLATE.steps.map(step => step.id) });
+    await scheduleReminders();
+
+    expect(await chrome.alarms.getAll()).toEqual([]);
+  });
+
+  it('notifies with snooze and dismiss actions when the alarm fires', async () => {
+    await startSequence(5);
+
+    await handleReminderAlarm({ name: alarmName, scheduledTime: Date.now() });
+
+    expect(fakeChrome.notifications.create).toHaveBeenCalledWith(alarmName, expect.objectContaining({
+      title: 'Time to follow up',
+      message: expect.stringContaining('Follow-up for Ada Lovelace is due'),
+      buttons: [{ title: 'Snooze 1 day' }, { title: 'Dismiss' }]
+    }));
+  });
+
+  it('opens the profile in the side panel with a follow-up pending', async () => {
+    await startSequence(5);
+
+    await handleReminderClicked(alarmName);
+
+    expect(fakeChrome.tabs.create).toHaveBeenCalledWith({ url: profileUrl, windowId: -2 });
+    expect(fakeChrome.sidePanel.open).toHaveBeenCalledWith({ windowId: -2 });
+    // Opened first, while the click still counts as a user gesture
+    expect(fakeChrome.sidePanel.open.mock.invocationCallOrder[0]).toBeLessThan(
+      fakeChrome.notifications.clear.mock.invocationCallOrder[0]
+    );
+    expect(await storage.takePendingFollowUp()).toMatchObject({ profileUrl });
+  });
+
+  it('snoozes the reminder by a day', async () => {
+    await startSequence(5);
+
+    await handleReminderButton(alarmName, 0);
+
+    const progress = await storage.getContactSequence(profileUrl);
+    expect(new Date(progress!.snoozedUntil!).getTime()).toBeGreaterThan(Date.now() + DAY_MS - 1000);
+  });
+
+  it('stops reminding about a dismissed step', async () => {
+    await startSequence(5);
+
+    await handleReminderButton(alarmName, 1);
+    await scheduleReminders();
+
+    expect((await storage.getContactSequence(profileUrl))?.dismissedStepId).toBe('step_follow_up');
+    expect(await chrome.alarms.getAll()).toEqual([]);
+  });
+
+  it('skips contacts added to the do-not-contact list', async () => {
+    await startSequence(5);
+    await scheduleReminders();
+    await storage.addDoNotContactEntries([{ kind: 'name_company', name: 'Ada Lovelace' }]);
+
+    await handleReminderAlarm({ name: alarmName, scheduledTime: Date.now() });
+    await scheduleReminders();
+
+    expect(fakeChrome.notifications.create).not.toHaveBeenCalled();
+    expect(await chrome.alarms.getAll()).toEqual([]);
+  });
+
+  it('opens the side panel in the window last focused', async () => {
+    await startSequence(5);
+    setupReminders();
+    fakeChrome.windows.onFocusChanged.dispatch(7);
+
+    await handleReminderClicked(alarmName);
+
+    expect(fakeChrome.sidePanel.open).toHaveBeenCalledWith({ windowId: 7 });
+    expect(fakeChrome.tabs.create).toHaveBeenCalledWith({ url: profileUrl, windowId: 7 });
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_SEQUENCE_TEMPLATE,
+  completeStep,
+  findRepeatedPhrases,
+  getNextStep,
+  getStepStatus,
+  startContactSequence
+} from '~/services/sequences';
+
+const contact = { profileUrl: 'https://www.linkedin.com/in/ada', profileName: 'Ada Lovelace' };
+const startedAt = '2026-03-01T09:00:00.000Z';
+
+describe('contact sequences', () => {
+  it('counts the first message as the initial step', () => {
+    const progress = startContactSequence(DEFAULT_SEQUENCE_TEMPLATE, contact, 'msg_1', startedAt);
+
+    expect(progress.completedStepIds).toEqual(['step_initial']);
+    expect(getNextStep(DEFAULT_SEQUENCE_TEMPLATE, progress)?.id).toBe('step_follow_up');
+  });
+
+  it('marks steps due once their day has passed', () => {
+    const progress = startContactSequence(DEFAULT_SEQUENCE_TEMPLATE, contact, 'msg_1', startedAt);
+    const [initial, followUp, breakup] = DEFAULT_SEQUENCE_TEMPLATE.steps;
+    const now = new Date('2026-03-06T09:00:00.000Z');
+
+    expect(getStepStatus(initial, progress, now)).toBe('done');
+    expect(getStepStatus(followUp, progress, now)).toBe('due');
+    expect(getStepStatus(breakup, progress, now)).toBe('upcoming');
+  });
+
+  it('replaces the message when the latest step is written again', () => {
+    let progress = startContactSequence(DEFAULT_SEQUENCE_TEMPLATE, contact, 'msg_1', startedAt);
+    progress = completeStep(progress, 'step_follow_up', 'msg_2');
+    progress = completeStep(progress, 'step_follow_up', 'msg_3');
+
+    expect(progress.completedStepIds).toEqual(['step_initial', 'step_follow_up']);
+    expect(progress.messageIds).toEqual(['msg_1', 'msg_3']);
+  });
+
+  it('finishes after the last step', () => {
+    let progress = startContactSequence(DEFAULT_SEQUENCE_TEMPLATE, contact, 'msg_1', startedAt);
+    progress = completeStep(progress, 'step_follow_up', 'msg_2');
+    progress = completeStep(progress, 'step_breakup', 'msg_3');
+
+    expect(getNextStep(DEFAULT_SEQUENCE_TEMPLATE, progress)).toBeNull();
+  });
+});
+
+describe('findRepeatedPhrases', () => {
+  const earlier = 'Hi Ada, I loved your notes on the analytical engine. Would you be open to a chat?';
+
+  it('merges overlapping runs copied from earlier messages', () => {
+    expect(findRepeatedPhrases('Following up: would you be open to a chat next week?', [earlier])).toEqual([
+      'would you be open to a chat'
+    ]);
+  });
+
+  it('ignores shorter overlaps and case', () => {
+    expect(findRepeatedPhrases('HI ADA, any thoughts on the engine?', [earlier])).toEqual([]);
+  });
+});
@@ -0,0 +1,114 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { storage, type ExtensionSettings } from '~/services/storage';
+import {
+  SYNC_QUOTA_BYTES_PER_ITEM,
+  decodeSettings,
+  encodeSetting,
+  itemBytes,
+  reconcileSettings,
+  recordLocalChanges,
+  setSyncEnabled
+} from '~/services/settings-sync';
+import { StorageError } from '~/utils/error-handlers';
+import { createEvent, createStorageArea, type FakeChrome } from '../helpers/fake-chrome';
+
+// A second browser sharing this one's chrome.storage.sync
+function createOtherDevice() {
+  const local = createStorageArea(createEvent(), 'local') as unknown as chrome.storage.StorageArea;
+  const sync = (chrome as unknown as FakeChrome).storage.sync as unknown as chrome.storage.StorageArea;
+
+  return {
+    async enable() {
+      await setSyncEnabled(true, local);
+      return (await reconcileSettings({}, sync, local)).settings;
+    },
+    async save(settings: ExtensionSettings) {
+      await recordLocalChanges(settings, local);
+      return reconcileSettings(settings, sync, local);
+    }
+  };
+}
+
+describe('settings sync', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('carries the profile to another device but keeps the provider local', async () => {
+    await storage.setSettingsSyncEnabled(true);
+    await storage.saveSettings({
+      userName: 'Ada',
+      generationDefaults: { tone: 'casual', length: 'short' },
+      aiProvider: 'openai-compatible',
+      customEndpoint: { baseUrl: 'http://localhost:11434/v1', model: 'llama3', apiKey: 'secret' }
+    });
+
+    const synced = await createOtherDevice().enable();
+
+    expect(synced).toEqual({ userName: 'Ada', generationDefaults: { tone: 'casual', length: 'short' } });
+    expect(JSON.stringify((chrome as unknown as FakeChrome).storage.sync.data)).not.toContain('secret');
+  });
+
+  it('does nothing while sync is off', async () => {
+    await storage.saveSettings({ userName: 'Ada' });
+
+    expect((chrome as unknown as FakeChrome).storage.sync.data).toEqual({});
+  });
+
+  it('keeps the later change when both devices edit the same setting', async () => {
+    vi.useFakeTimers({ now: new Date('2026-03-01T09:00:00Z'), toFake: ['Date'] });
+    await storage.setSettingsSyncEnabled(true);
+    await storage.saveSettings({ userName: 'Ada', userRole: 'Engineer' });
+    const other = createOtherDevice();
+    const settings = await other.enable();
+
+    // This device changes the name and company before it next syncs...
+    vi.setSystemTime(new Date('2026-03-02T09:00:00Z'));
+    const edited = { userName: 'Ada L.', userRole: 'Engineer', userCompany: 'Engines' };
+    await recordLocalChanges(edited);
+    await chrome.storage.local.set({ colder_settings: edited });
+
+    // ...and the other device changes the name and role after that
+    vi.setSystemTime(new Date('2026-03-03T09:00:00Z'));
+    const theirs = { ...settings, userName: 'Countess Lovelace', userRole: 'Analyst' };
+    await other.save(theirs);
+
+    expect(await storage.syncSettings()).toEqual({
+      userName: 'Countess Lovelace',
+      userRole: 'Analyst',
+      userCompany: 'Engines'
+    });
+    expect((await other.save(theirs)).settings.userCompany).toBe('Engines');
+  });
+
+  it('splits a setting too big for one item into chunks', () => {
+    const json = JSON.stringify({ summary: 'é"\n'.repeat(6000) });
+    const items = encodeSetting('senderProfile', json, '2026-03-01T09:00:00.000Z');
+
+    expect(Object.keys(items).length).toBeGreaterThan(2);
+    for (const [key, value] of Object.entries(items)) {
+      expect(itemBytes(key, value)).toBeLessThanOrEqual(SYNC_QUOTA_BYTES_PER_ITEM);
+    }
+    expect(decodeSettings(items).senderProfile.json).toBe(json);
+
+    // Until every chunk has arrived the setting is left out
+    const partial = Object.fromEntries(Object.entries(items).slice(0, -1));
+    expect(decodeSettings(partial).senderProfile).toBeUndefined();
+  });
+
+  it('refuses to sync settings over the total quota but keeps them saved locally', async () => {
+    await storage.setSettingsSyncEnabled(true);
+    const huge = { userName: 'Ada', userBackground: 'x'.repeat(120_000) };
+
+    const error = await storage.saveSettings(huge).catch(e => e);
+
+    expect(error).toBeInstanceOf(StorageError);
+    expect(error.quotaExceeded).toBe(true);
+    expect(await storage.getSettings()).toEqual(huge);
+    expect((chrome as unknown as FakeChrome).storage.sync.data).toEqual({});
+
+    // Once it fits again, the pending change goes out
+    await storage.saveSettings({ userName: 'Ada', userBackground: 'Mathematician' });
+    expect(await createOtherDevice().enable()).toEqual({ userName: 'Ada', userBackground: 'Mathematician' });
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import {
+  MESSAGE_WITH_SUBJECTS_SCHEMA,
+  PROFILE_INSIGHT_SCHEMA,
+  extractJsonObject,
+  parseStructuredResponse,
+  validateSchema
+} from '~/services/structured-output';
+import { ValidationError } from '~/utils/error-handlers';
+
+describe('extractJsonObject', () => {
+  it('reads a bare object', () => {
+    expect(extractJsonObject('{"body": "Hi Ada", "wordCount": 2}')).toEqual({ body: 'Hi Ada', wordCount: 2 });
+  });
+
+  it('reads an object inside a markdown fence', () => {
+    const text = '```json\n{"body": "Hi Ada", "wordCount": 2}\n```';
+
+    expect(extractJsonObject(text)).toEqual({ body: 'Hi Ada', wordCount: 2 });
+  });
+
+  it('ignores text before and after the object', () => {
+    const text = 'Here is your message:\n{"body": "Hi Ada", "wordCount": 2}\nLet me know if you want changes. {"not": "this"}';
+
+    expect(extractJsonObject(text)).toEqual({ body: 'Hi Ada', wordCount: 2 });
+  });
+
+  it('keeps braces and escaped quotes inside strings', () => {
+    const text = 'Sure! {"body": "Loved your {engine} notes, \\"truly\\" }", "wordCount": 5} Done.';
+
+    expect(extractJsonObject(text)).toEqual({ body: 'Loved your {engine} notes, "truly" }', wordCount: 5 });
+  });
+
+  it('reads nested objects', () => {
+    expect(extractJsonObject('{"a": {"b": {"c": 1}}, "d": 2} trailing')).toEqual({ a: { b: { c: 1 } }, d: 2 });
+  });
+
+  it('repairs smart quotes and trailing commas', () => {
+    expect(extractJsonObject('{“body”: “Hi Ada”, "subjects": ["One", "Two",],}')).toEqual({
+      body: 'Hi Ada',
+      subjects: ['One', 'Two']
+    });
+  });
+
+  it('rejects text without an object', () => {
+    expect(() => extractJsonObject('I could not write that message.')).toThrow(ValidationError);
+  });
+
+  it('rejects an unterminated object', () => {
+    expect(() => extractJsonObject('{"body": "Hi Ada", "wordCount": 2')).toThrow('Response is not valid JSON');
+  });
+});
+
+describe('validateSchema', () => {
+  const message = { subjects: ['Your engine notes', 'A question'], body: 'Hi Ada', wordCount: 2 };
+
+  it('accepts a matching value', () => {
+    expect(validateSchema(message, MESSAGE_WITH_SUBJECTS_SCHEMA)).toEqual([]);
+  });
+
+  it('reports missing required fields', () => {
+    const { subjects: _subjects, wordCount: _wordCount, ...rest } = message;
+
+    expect(validateSchema(rest, MESSAGE_WITH_SUBJECTS_SCHEMA)).toEqual([
+      'response.subjects is missing',
+      'response.wordCount is missing'
+    ]);
+  });
+
+  it('reports fields of the wrong type', () => {
+    expect(validateSchema({ ...message, body: 42, wordCount: '2' }, MESSAGE_WITH_SUBJECTS_SCHEMA)).toEqual([
+      'response.body must be a string',
+      'response.wordCount must be a number'
+    ]);
+  });
+
+  it('reports empty strings and bad array items by path', () => {
+    expect(validateSchema({ ...message, body: '  ', subjects: ['One', 7] }, MESSAGE_WITH_SUBJECTS_SCHEMA)).toEqual([
+      'response.subjects[1] must be a string',
+      'response.body must not be empty'
+    ]);
+  });
+
+  it('enforces array lengths', () => {
+    const insight = { careerArc: 'Translator turned engineer', currentFocus: 'Engines', recentPosts: [], talkingPoints: ['Only one'] };
+
+    expect(validateSchema(insight, PROFILE_INSIGHT_SCHEMA)).toEqual(['response.talkingPoints must have at least 3 items']);
+  });
+
+  it('rejects a value that is not an object', () => {
+    expect(validateSchema(['Hi Ada'], MESSAGE_WITH_SUBJECTS_SCHEMA)).toEqual(['response must be an object']);
+  });
+});
+
+describe('parseStructuredResponse', () => {
+  it('fills in a missing word count', () => {
+    const parsed = parseStructuredResponse<{ body: string; wordCount: number }>(
+      '```json\n{"subjects": ["One", "Two"], "body": "Hi Ada, how are you?"}\n```',
+      MESSAGE_WITH_SUBJECTS_SCHEMA
+    );
+
+    expect(parsed.wordCount).toBe(5);
+  });
+
+  it('throws every problem at once', () => {
+    expect(() => parseStructuredResponse('{"body": ""}', MESSAGE_WITH_SUBJECTS_SCHEMA)).toThrow(
+      'response.subjects is missing; response.body must not be empty'
+    );
+  });
+});